@@ -1,81 +1,133 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import sqlite3 from 'sqlite3';
-import { promisify } from 'util';
-import { Task, SyncQueueItem } from '../types';
+import { Migrator } from './migrator';
 
 const sqlite = sqlite3.verbose();
 
 export class Database {
   private db: sqlite3.Database;
+  private pending: Promise<unknown> = Promise.resolve();
+  // Nesting depth of the transaction the current call runs in, if any
+  private transactionDepth = new AsyncLocalStorage<number>();
 
   constructor(filename: string = ':memory:') {
     this.db = new sqlite.Database(filename);
   }
 
   async initialize(): Promise<void> {
-    await this.createTables();
+    await new Migrator(this).migrateTo();
   }
 
-  private async createTables(): Promise<void> {
-    const createTasksTable = `
-      CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        description TEXT,
-        completed INTEGER DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        is_deleted INTEGER DEFAULT 0,
-        sync_status TEXT DEFAULT 'pending',
-        server_id TEXT,
-        last_synced_at DATETIME
-      )
-    `;
+  // Helper methods
+  // Resolves with the number of rows changed by an INSERT, UPDATE or DELETE,
+  // and the rowid of the last row inserted
+  run(
+    sql: string,
+    params: any[] = [],
+  ): Promise<{ changes: number; lastID: number }> {
+    return this.statement(() => this.execute(sql, params));
+  }
 
-    const createSyncQueueTable = `
-      CREATE TABLE IF NOT EXISTS sync_queue (
-        id TEXT PRIMARY KEY,
-        task_id TEXT NOT NULL,
-        operation TEXT NOT NULL,
-        data TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        retry_count INTEGER DEFAULT 0,
-        error_message TEXT,
-        FOREIGN KEY (task_id) REFERENCES tasks(id)
-      )
-    `;
+  get(sql: string, params: any[] = []): Promise<any> {
+    return this.statement(
+      () =>
+        new Promise((resolve, reject) => {
+          this.db.get(sql, params, (err, row) => {
+            if (err) reject(err);
+            else resolve(row);
+          });
+        }),
+    );
+  }
 
-    await this.run(createTasksTable);
-    await this.run(createSyncQueueTable);
+  all(sql: string, params: any[] = []): Promise<any[]> {
+    return this.statement(
+      () =>
+        new Promise((resolve, reject) => {
+          this.db.all(sql, params, (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows);
+          });
+        }),
+    );
   }
 
-  // Helper methods
-  run(sql: string, params: any[] = []): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.db.run(sql, params, (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
-    });
+  // Runs fn inside a transaction that is committed when it resolves and
+  // rolled back when it throws. Every caller shares one connection, so
+  // transactions and other statements wait for the one in flight to finish.
+  // Called from within fn, it opens a savepoint instead, which rolls back only
+  // its own writes.
+  transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const depth = this.transactionDepth.getStore();
+    if (depth !== undefined) {
+      return this.transactionDepth.run(depth + 1, () =>
+        this.savepoint(`sp_${depth}`, fn),
+      );
+    }
+
+    return this.enqueue(() =>
+      this.transactionDepth.run(1, async () => {
+        await this.run('BEGIN IMMEDIATE');
+        try {
+          const result = await fn();
+          await this.run('COMMIT');
+          return result;
+        } catch (error) {
+          await this.run('ROLLBACK');
+          throw error;
+        }
+      }),
+    );
   }
 
-  get(sql: string, params: any[] = []): Promise<any> {
-    return new Promise((resolve, reject) => {
-      this.db.get(sql, params, (err, row) => {
-        if (err) reject(err);
-        else resolve(row);
-      });
+  // Rebuilds the file to reclaim the space of deleted rows. VACUUM cannot
+  // run inside a transaction, so it waits for the one in flight.
+  vacuum(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.execute('VACUUM');
     });
   }
 
-  all(sql: string, params: any[] = []): Promise<any[]> {
+  // A statement from outside the transaction in flight would otherwise run
+  // inside it on the shared connection and be committed or rolled back with
+  // it, so it waits its turn like a transaction of its own
+  private statement<T>(fn: () => Promise<T>): Promise<T> {
+    return this.transactionDepth.getStore() !== undefined
+      ? fn()
+      : this.enqueue(fn);
+  }
+
+  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(fn);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private execute(
+    sql: string,
+    params: any[] = [],
+  ): Promise<{ changes: number; lastID: number }> {
     return new Promise((resolve, reject) => {
-      this.db.all(sql, params, (err, rows) => {
+      this.db.run(sql, params, function (err) {
         if (err) reject(err);
-        else resolve(rows);
+        else resolve({ changes: this.changes, lastID: this.lastID });
       });
     });
   }
 
+  private async savepoint<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    await this.run(`SAVEPOINT ${name}`);
+    try {
+      const result = await fn();
+      await this.run(`RELEASE ${name}`);
+      return result;
+    } catch (error) {
+      await this.run(`ROLLBACK TO ${name}`);
+      await this.run(`RELEASE ${name}`);
+      throw error;
+    }
+  }
+
   close(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.db.close((err) => {
@@ -84,4 +136,4 @@ export class Database {
       });
     });
   }
-}
\ No newline at end of file
+}
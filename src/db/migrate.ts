@@ -0,0 +1,75 @@
+import dotenv from 'dotenv';
+import { Database } from './database';
+import { Migrator } from './migrator';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run migrate -- <command>
+
+Commands:
+  status              List migrations and whether they have been applied
+  latest              Apply all pending migrations (default)
+  to <version>        Migrate up or down to the given version (0 = empty)
+  rollback [steps]    Revert the last <steps> migrations (default 1)`;
+
+async function main(args: string[]): Promise<void> {
+  const [command = 'latest', arg] = args;
+  const db = new Database(process.env.DATABASE_URL || './data/tasks.sqlite3');
+  const migrator = new Migrator(db);
+
+  try {
+    switch (command) {
+      case 'status': {
+        const current = await migrator.currentVersion();
+        console.log(`Current version: ${current}`);
+        for (const migration of await migrator.status()) {
+          const state = migration.applied
+            ? `applied ${migration.applied_at?.toISOString()}`
+            : 'pending';
+          console.log(`  ${migration.version} ${migration.name} (${state})`);
+        }
+        break;
+      }
+      case 'latest':
+      case 'to': {
+        const target =
+          command === 'to' ? parseVersion(arg) : migrator.latestVersion;
+        const executed = await migrator.migrateTo(target);
+        console.log(
+          executed.length
+            ? `Migrated to version ${target} (${executed.join(', ')})`
+            : `Already at version ${target}`,
+        );
+        break;
+      }
+      case 'rollback': {
+        const steps = arg ? parseVersion(arg) : 1;
+        const reverted = await migrator.rollback(steps);
+        console.log(
+          reverted.length
+            ? `Rolled back ${reverted.join(', ')}; now at version ${await migrator.currentVersion()}`
+            : 'Nothing to roll back',
+        );
+        break;
+      }
+      default:
+        console.error(USAGE);
+        process.exitCode = 1;
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+function parseVersion(value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid number: ${value}\n\n${USAGE}`);
+  }
+  return parsed;
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error('Migration failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+import { Migration } from '../migrator';
+
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        completed INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        is_deleted INTEGER DEFAULT 0,
+        sync_status TEXT DEFAULT 'pending',
+        server_id TEXT,
+        last_synced_at DATETIME
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS sync_queue (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        retry_count INTEGER DEFAULT 0,
+        error_message TEXT,
+        FOREIGN KEY (task_id) REFERENCES tasks(id)
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS sync_queue');
+    await db.run('DROP TABLE IF EXISTS tasks');
+  },
+};
@@ -0,0 +1,35 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const deadLetterQueue: Migration = {
+  version: 2,
+  name: 'dead_letter_queue',
+
+  async up(db) {
+    await addColumnIfMissing(
+      db,
+      'sync_queue',
+      'error_history',
+      "TEXT DEFAULT '[]'",
+    );
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS dead_letter_queue (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at DATETIME NOT NULL,
+        failed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        retry_count INTEGER DEFAULT 0,
+        error_history TEXT DEFAULT '[]',
+        FOREIGN KEY (task_id) REFERENCES tasks(id)
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS dead_letter_queue');
+    await dropColumnIfExists(db, 'sync_queue', 'error_history');
+  },
+};
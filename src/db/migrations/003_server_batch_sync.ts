@@ -0,0 +1,40 @@
+import { Migration } from '../migrator';
+
+export const serverBatchSync: Migration = {
+  version: 3,
+  name: 'server_batch_sync',
+
+  async up(db) {
+    // Server-side copy of tasks received through POST /api/batch, keyed by
+    // server id and kept apart from the local `tasks` table
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS server_tasks (
+        id TEXT PRIMARY KEY,
+        client_id TEXT NOT NULL UNIQUE,
+        title TEXT NOT NULL,
+        description TEXT,
+        completed INTEGER DEFAULT 0,
+        created_at DATETIME NOT NULL,
+        updated_at DATETIME NOT NULL,
+        is_deleted INTEGER DEFAULT 0,
+        last_operation TEXT NOT NULL
+      )
+    `);
+
+    // Results of already processed sync queue items, so retried batches are
+    // answered from here instead of being applied twice
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS server_processed_items (
+        item_id TEXT PRIMARY KEY,
+        client_id TEXT NOT NULL,
+        result TEXT NOT NULL,
+        processed_at DATETIME NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS server_processed_items');
+    await db.run('DROP TABLE IF EXISTS server_tasks');
+  },
+};
@@ -0,0 +1,34 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const conflictResolution: Migration = {
+  version: 4,
+  name: 'conflict_resolution',
+
+  async up(db) {
+    await addColumnIfMissing(db, 'sync_queue', 'base_data', 'TEXT');
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS sync_conflicts (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        strategy TEXT NOT NULL,
+        winner TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        local_data TEXT NOT NULL,
+        server_data TEXT NOT NULL,
+        resolved_data TEXT NOT NULL,
+        created_at DATETIME NOT NULL,
+        FOREIGN KEY (task_id) REFERENCES tasks(id)
+      )
+    `);
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_sync_conflicts_task_id ON sync_conflicts (task_id)',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS sync_conflicts');
+    await dropColumnIfExists(db, 'sync_queue', 'base_data');
+  },
+};
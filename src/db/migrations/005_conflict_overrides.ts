@@ -0,0 +1,19 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const conflictOverrides: Migration = {
+  version: 5,
+  name: 'conflict_overrides',
+
+  async up(db) {
+    await addColumnIfMissing(db, 'sync_conflicts', 'overridden_at', 'DATETIME');
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_sync_conflicts_created_at ON sync_conflicts (created_at)',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP INDEX IF EXISTS idx_sync_conflicts_created_at');
+    await dropColumnIfExists(db, 'sync_conflicts', 'overridden_at');
+  },
+};
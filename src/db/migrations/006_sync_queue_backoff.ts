@@ -0,0 +1,16 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const syncQueueBackoff: Migration = {
+  version: 6,
+  name: 'sync_queue_backoff',
+
+  async up(db) {
+    // NULL means the item is due immediately
+    await addColumnIfMissing(db, 'sync_queue', 'next_attempt_at', 'DATETIME');
+  },
+
+  async down(db) {
+    await dropColumnIfExists(db, 'sync_queue', 'next_attempt_at');
+  },
+};
@@ -0,0 +1,38 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const deltaSync: Migration = {
+  version: 7,
+  name: 'delta_sync',
+
+  async up(db) {
+    // Server clock time of the last write, so clients can pull changes
+    // without relying on client-supplied updated_at values
+    await addColumnIfMissing(
+      db,
+      'server_tasks',
+      'server_modified_at',
+      'DATETIME',
+    );
+    await db.run(
+      'UPDATE server_tasks SET server_modified_at = updated_at WHERE server_modified_at IS NULL',
+    );
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_server_tasks_modified ON server_tasks (server_modified_at)',
+    );
+
+    // Client-side key/value state such as the pull watermark
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS sync_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS sync_state');
+    await db.run('DROP INDEX IF EXISTS idx_server_tasks_modified');
+    await dropColumnIfExists(db, 'server_tasks', 'server_modified_at');
+  },
+};
@@ -0,0 +1,57 @@
+import { Migration } from '../migrator';
+
+export const taskSearch: Migration = {
+  version: 8,
+  name: 'task_search',
+
+  async up(db) {
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_tasks_updated_at ON tasks (updated_at)',
+    );
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_tasks_sync_status ON tasks (sync_status)',
+    );
+
+    // Full-text index over title and description. Rows are keyed by task id
+    // rather than rowid, which VACUUM may renumber on tables without an
+    // INTEGER PRIMARY KEY.
+    await db.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts
+      USING fts5(task_id UNINDEXED, title, description)
+    `);
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_fts_insert AFTER INSERT ON tasks
+      BEGIN
+        INSERT INTO tasks_fts (task_id, title, description)
+        VALUES (new.id, new.title, new.description);
+      END
+    `);
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_fts_update
+      AFTER UPDATE OF title, description ON tasks
+      BEGIN
+        UPDATE tasks_fts SET title = new.title, description = new.description
+        WHERE task_id = old.id;
+      END
+    `);
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_fts_delete AFTER DELETE ON tasks
+      BEGIN
+        DELETE FROM tasks_fts WHERE task_id = old.id;
+      END
+    `);
+    await db.run('DELETE FROM tasks_fts');
+    await db.run(
+      'INSERT INTO tasks_fts (task_id, title, description) SELECT id, title, description FROM tasks',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP TRIGGER IF EXISTS tasks_fts_delete');
+    await db.run('DROP TRIGGER IF EXISTS tasks_fts_update');
+    await db.run('DROP TRIGGER IF EXISTS tasks_fts_insert');
+    await db.run('DROP TABLE IF EXISTS tasks_fts');
+    await db.run('DROP INDEX IF EXISTS idx_tasks_sync_status');
+    await db.run('DROP INDEX IF EXISTS idx_tasks_updated_at');
+  },
+};
@@ -0,0 +1,41 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const taskVersions: Migration = {
+  version: 9,
+  name: 'task_versions',
+
+  async up(db) {
+    // Incremented on every write, for If-Match preconditions and exact
+    // conflict detection during sync
+    await addColumnIfMissing(
+      db,
+      'tasks',
+      'version',
+      'INTEGER NOT NULL DEFAULT 1',
+    );
+    await addColumnIfMissing(
+      db,
+      'server_tasks',
+      'version',
+      'INTEGER NOT NULL DEFAULT 1',
+    );
+
+    // Task version a queued edit was made against; NULL for creates and for
+    // items queued before versions existed
+    await addColumnIfMissing(db, 'sync_queue', 'base_version', 'INTEGER');
+    await addColumnIfMissing(
+      db,
+      'dead_letter_queue',
+      'base_version',
+      'INTEGER',
+    );
+  },
+
+  async down(db) {
+    await dropColumnIfExists(db, 'dead_letter_queue', 'base_version');
+    await dropColumnIfExists(db, 'sync_queue', 'base_version');
+    await dropColumnIfExists(db, 'server_tasks', 'version');
+    await dropColumnIfExists(db, 'tasks', 'version');
+  },
+};
@@ -0,0 +1,33 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const hybridLogicalClock: Migration = {
+  version: 10,
+  name: 'hybrid_logical_clock',
+
+  async up(db) {
+    // Hybrid logical clock timestamp of the latest write to a task and of
+    // each queued change, used instead of wall-clock time for ordering and
+    // last-write-wins. NULL for rows written before clocks existed, which
+    // fall back to their updated_at or created_at.
+    for (const table of [
+      'tasks',
+      'server_tasks',
+      'sync_queue',
+      'dead_letter_queue',
+    ]) {
+      await addColumnIfMissing(db, table, 'hlc', 'TEXT');
+    }
+  },
+
+  async down(db) {
+    for (const table of [
+      'dead_letter_queue',
+      'sync_queue',
+      'server_tasks',
+      'tasks',
+    ]) {
+      await dropColumnIfExists(db, table, 'hlc');
+    }
+  },
+};
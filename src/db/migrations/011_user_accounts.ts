@@ -0,0 +1,43 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const userAccounts: Migration = {
+  version: 11,
+  name: 'user_accounts',
+
+  async up(db) {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        created_at DATETIME NOT NULL
+      )
+    `);
+
+    // Owner of each task and queued change. Rows written before accounts
+    // existed keep a NULL owner and are not visible to any user.
+    await addColumnIfMissing(db, 'tasks', 'user_id', 'TEXT');
+    await addColumnIfMissing(db, 'sync_queue', 'user_id', 'TEXT');
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_tasks_user_id ON tasks (user_id)',
+    );
+
+    // Server side: the account that pushed each task and processed item
+    await addColumnIfMissing(db, 'server_tasks', 'user_id', 'TEXT');
+    await addColumnIfMissing(db, 'server_processed_items', 'user_id', 'TEXT');
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_server_tasks_user_id ON server_tasks (user_id)',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP INDEX IF EXISTS idx_server_tasks_user_id');
+    await dropColumnIfExists(db, 'server_processed_items', 'user_id');
+    await dropColumnIfExists(db, 'server_tasks', 'user_id');
+    await db.run('DROP INDEX IF EXISTS idx_tasks_user_id');
+    await dropColumnIfExists(db, 'sync_queue', 'user_id');
+    await dropColumnIfExists(db, 'tasks', 'user_id');
+    await db.run('DROP TABLE IF EXISTS users');
+  },
+};
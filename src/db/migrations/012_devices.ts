@@ -0,0 +1,30 @@
+import { Migration } from '../migrator';
+
+export const devices: Migration = {
+  version: 12,
+  name: 'devices',
+
+  async up(db) {
+    // Server side: client installations and how far each has synced
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS devices (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        name TEXT NOT NULL,
+        created_at DATETIME NOT NULL,
+        last_seen_at DATETIME,
+        last_sync_at DATETIME,
+        cursor DATETIME,
+        revoked_at DATETIME
+      )
+    `);
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_devices_user_id ON devices (user_id)',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP INDEX IF EXISTS idx_devices_user_id');
+    await db.run('DROP TABLE IF EXISTS devices');
+  },
+};
@@ -0,0 +1,27 @@
+import { Migration } from '../migrator';
+
+export const taskEvents: Migration = {
+  version: 13,
+  name: 'task_events',
+
+  async up(db) {
+    // Recent task change events, replayed to event stream clients that
+    // reconnect with Last-Event-ID. Pruning only removes the oldest events
+    // and always keeps the newest, so new rowids keep increasing and are
+    // never reused.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS task_events (
+        id INTEGER PRIMARY KEY,
+        user_id TEXT,
+        task_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        task TEXT NOT NULL,
+        created_at DATETIME NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS task_events');
+  },
+};
@@ -0,0 +1,36 @@
+import { Migration } from '../migrator';
+
+export const syncRuns: Migration = {
+  version: 14,
+  name: 'sync_runs',
+
+  async up(db) {
+    // One row per sync run, kept as history
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS sync_runs (
+        id TEXT PRIMARY KEY,
+        trigger TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at DATETIME NOT NULL,
+        finished_at DATETIME,
+        batches INTEGER NOT NULL DEFAULT 0,
+        synced_items INTEGER NOT NULL DEFAULT 0,
+        failed_items INTEGER NOT NULL DEFAULT 0,
+        deferred_items INTEGER NOT NULL DEFAULT 0,
+        compacted_items INTEGER NOT NULL DEFAULT 0,
+        pulled_items INTEGER NOT NULL DEFAULT 0,
+        conflicts INTEGER NOT NULL DEFAULT 0,
+        bytes_sent INTEGER NOT NULL DEFAULT 0,
+        error TEXT
+      )
+    `);
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON sync_runs (started_at)',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP INDEX IF EXISTS idx_sync_runs_started_at');
+    await db.run('DROP TABLE IF EXISTS sync_runs');
+  },
+};
@@ -0,0 +1,34 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const syncLeases: Migration = {
+  version: 15,
+  name: 'sync_leases',
+
+  async up(db) {
+    // A queue item being sent is leased to one sync run until it expires.
+    // batch_key is the idempotency key of the batch it was last sent in.
+    await addColumnIfMissing(db, 'sync_queue', 'lease_id', 'TEXT');
+    await addColumnIfMissing(db, 'sync_queue', 'lease_expires_at', 'DATETIME');
+    await addColumnIfMissing(db, 'sync_queue', 'batch_key', 'TEXT');
+
+    // Server side: responses to batches that were fully processed, replayed
+    // when a client resends a batch with the same idempotency key
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS server_processed_batches (
+        idempotency_key TEXT PRIMARY KEY,
+        user_id TEXT,
+        checksum TEXT NOT NULL,
+        response TEXT NOT NULL,
+        processed_at DATETIME NOT NULL
+      )
+    `);
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS server_processed_batches');
+    await dropColumnIfExists(db, 'sync_queue', 'batch_key');
+    await dropColumnIfExists(db, 'sync_queue', 'lease_expires_at');
+    await dropColumnIfExists(db, 'sync_queue', 'lease_id');
+  },
+};
@@ -0,0 +1,29 @@
+import { Migration } from '../migrator';
+
+export const taskRevisions: Migration = {
+  version: 16,
+  name: 'task_revisions',
+
+  async up(db) {
+    // Every version a task has had, written with each local edit and each
+    // change applied by sync. `task` holds the task as stored right after
+    // the change.
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS task_revisions (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        task TEXT NOT NULL,
+        created_at DATETIME NOT NULL
+      )
+    `);
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_task_revisions_task_id ON task_revisions (task_id, created_at)',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP TABLE IF EXISTS task_revisions');
+  },
+};
@@ -0,0 +1,21 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const taskExternalIds: Migration = {
+  version: 17,
+  name: 'task_external_ids',
+
+  async up(db) {
+    // Id of an imported task in the file or tool it came from, so importing
+    // the same file again does not duplicate it
+    await addColumnIfMissing(db, 'tasks', 'external_id', 'TEXT');
+    await db.run(
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_external_id ON tasks (user_id, external_id)',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP INDEX IF EXISTS idx_tasks_external_id');
+    await dropColumnIfExists(db, 'tasks', 'external_id');
+  },
+};
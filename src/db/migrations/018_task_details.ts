@@ -0,0 +1,58 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+const TASK_COLUMNS: [string, string][] = [
+  ['due_at', 'DATETIME'],
+  ['priority', 'TEXT'],
+  // Local id of the task this one is a subtask of
+  ['parent_task_id', 'TEXT'],
+];
+
+export const taskDetails: Migration = {
+  version: 18,
+  name: 'task_details',
+
+  async up(db) {
+    for (const [column, type] of TASK_COLUMNS) {
+      await addColumnIfMissing(db, 'tasks', column, type);
+      await addColumnIfMissing(db, 'server_tasks', column, type);
+    }
+    // The server keeps a task's tags with it as a JSON array
+    await addColumnIfMissing(db, 'server_tasks', 'tags', 'TEXT');
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS task_tags (
+        task_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (task_id, tag)
+      )
+    `);
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_task_tags_tag ON task_tags (tag)',
+    );
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS task_tags_delete AFTER DELETE ON tasks
+      BEGIN
+        DELETE FROM task_tags WHERE task_id = old.id;
+      END
+    `);
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks (parent_task_id)',
+    );
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_tasks_due_at ON tasks (due_at)',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP INDEX IF EXISTS idx_tasks_due_at');
+    await db.run('DROP INDEX IF EXISTS idx_tasks_parent_task_id');
+    await db.run('DROP TRIGGER IF EXISTS task_tags_delete');
+    await db.run('DROP TABLE IF EXISTS task_tags');
+    await dropColumnIfExists(db, 'server_tasks', 'tags');
+    for (const [column] of [...TASK_COLUMNS].reverse()) {
+      await dropColumnIfExists(db, 'server_tasks', column);
+      await dropColumnIfExists(db, 'tasks', column);
+    }
+  },
+};
@@ -0,0 +1,33 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+const COLUMNS: [string, string][] = [
+  ['recurrence', 'TEXT'],
+  ['series_id', 'TEXT'],
+  ['occurrence_at', 'DATETIME'],
+  // JSON object of the fields new occurrences start with
+  ['series_template', 'TEXT'],
+];
+
+export const recurringTasks: Migration = {
+  version: 19,
+  name: 'recurring_tasks',
+
+  async up(db) {
+    for (const [column, type] of COLUMNS) {
+      await addColumnIfMissing(db, 'tasks', column, type);
+      await addColumnIfMissing(db, 'server_tasks', column, type);
+    }
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_tasks_series ON tasks (series_id, occurrence_at)',
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP INDEX IF EXISTS idx_tasks_series');
+    for (const [column] of [...COLUMNS].reverse()) {
+      await dropColumnIfExists(db, 'server_tasks', column);
+      await dropColumnIfExists(db, 'tasks', column);
+    }
+  },
+};
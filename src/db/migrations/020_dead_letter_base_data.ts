@@ -0,0 +1,17 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const deadLetterBaseData: Migration = {
+  version: 20,
+  name: 'dead_letter_base_data',
+
+  async up(db) {
+    // Task fields an edit was made against, kept so a replayed edit is
+    // merged against the same base as when it was first queued
+    await addColumnIfMissing(db, 'dead_letter_queue', 'base_data', 'TEXT');
+  },
+
+  async down(db) {
+    await dropColumnIfExists(db, 'dead_letter_queue', 'base_data');
+  },
+};
@@ -0,0 +1,16 @@
+import { Migration } from '../migrator';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const syncRunOwners: Migration = {
+  version: 21,
+  name: 'sync_run_owners',
+
+  async up(db) {
+    // Account a run was limited to; NULL for runs over every account
+    await addColumnIfMissing(db, 'sync_runs', 'user_id', 'TEXT');
+  },
+
+  async down(db) {
+    await dropColumnIfExists(db, 'sync_runs', 'user_id');
+  },
+};
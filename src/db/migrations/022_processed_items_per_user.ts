@@ -0,0 +1,51 @@
+import { Database } from '../database';
+import { Migration } from '../migrator';
+
+// Rebuilds server_processed_items with the given key, as SQLite cannot
+// change a table's primary key in place
+async function rebuild(
+  db: Database,
+  itemKey: string,
+  insert: string,
+): Promise<void> {
+  await db.run(`
+    CREATE TABLE server_processed_items_new (
+      item_id TEXT ${itemKey},
+      client_id TEXT NOT NULL,
+      user_id TEXT,
+      result TEXT NOT NULL,
+      processed_at DATETIME NOT NULL
+    )
+  `);
+  await db.run(`
+    ${insert} INTO server_processed_items_new
+      (item_id, client_id, user_id, result, processed_at)
+    SELECT item_id, client_id, user_id, result, processed_at
+    FROM server_processed_items
+  `);
+  await db.run('DROP TABLE server_processed_items');
+  await db.run(
+    'ALTER TABLE server_processed_items_new RENAME TO server_processed_items',
+  );
+}
+
+export const processedItemsPerUser: Migration = {
+  version: 22,
+  name: 'processed_items_per_user',
+
+  async up(db) {
+    // Item ids are chosen by clients, so two accounts may send the same one.
+    // Each account's results are kept apart instead of colliding.
+    await rebuild(db, 'NOT NULL', 'INSERT');
+    await db.run(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_server_processed_items_key
+       ON server_processed_items (item_id, COALESCE(user_id, ''))`,
+    );
+  },
+
+  async down(db) {
+    await db.run('DROP INDEX IF EXISTS idx_server_processed_items_key');
+    // Only one account's result per item id fits the old key
+    await rebuild(db, 'PRIMARY KEY', 'INSERT OR IGNORE');
+  },
+};
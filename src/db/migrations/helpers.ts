@@ -0,0 +1,33 @@
+import { Database } from '../database';
+
+export async function columnExists(
+  db: Database,
+  table: string,
+  column: string,
+): Promise<boolean> {
+  const columns = await db.all(`PRAGMA table_info(${table})`);
+  return columns.some((c) => c.name === column);
+}
+
+// Databases created before the migration runner existed may already have
+// some columns, so additions are made idempotent.
+export async function addColumnIfMissing(
+  db: Database,
+  table: string,
+  column: string,
+  definition: string,
+): Promise<void> {
+  if (!(await columnExists(db, table, column))) {
+    await db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export async function dropColumnIfExists(
+  db: Database,
+  table: string,
+  column: string,
+): Promise<void> {
+  if (await columnExists(db, table, column)) {
+    await db.run(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+  }
+}
@@ -0,0 +1,50 @@
+import { Migration } from '../migrator';
+import { initialSchema } from './001_initial_schema';
+import { deadLetterQueue } from './002_dead_letter_queue';
+import { serverBatchSync } from './003_server_batch_sync';
+import { conflictResolution } from './004_conflict_resolution';
+import { conflictOverrides } from './005_conflict_overrides';
+import { syncQueueBackoff } from './006_sync_queue_backoff';
+import { deltaSync } from './007_delta_sync';
+import { taskSearch } from './008_task_search';
+import { taskVersions } from './009_task_versions';
+import { hybridLogicalClock } from './010_hybrid_logical_clock';
+import { userAccounts } from './011_user_accounts';
+import { devices } from './012_devices';
+import { taskEvents } from './013_task_events';
+import { syncRuns } from './014_sync_runs';
+import { syncLeases } from './015_sync_leases';
+import { taskRevisions } from './016_task_revisions';
+import { taskExternalIds } from './017_task_external_ids';
+import { taskDetails } from './018_task_details';
+import { recurringTasks } from './019_recurring_tasks';
+import { deadLetterBaseData } from './020_dead_letter_base_data';
+import { syncRunOwners } from './021_sync_run_owners';
+import { processedItemsPerUser } from './022_processed_items_per_user';
+
+// Append new migrations here with the next version number. Never edit or
+// renumber a migration once it has been released.
+export const migrations: Migration[] = [
+  initialSchema,
+  deadLetterQueue,
+  serverBatchSync,
+  conflictResolution,
+  conflictOverrides,
+  syncQueueBackoff,
+  deltaSync,
+  taskSearch,
+  taskVersions,
+  hybridLogicalClock,
+  userAccounts,
+  devices,
+  taskEvents,
+  syncRuns,
+  syncLeases,
+  taskRevisions,
+  taskExternalIds,
+  taskDetails,
+  recurringTasks,
+  deadLetterBaseData,
+  syncRunOwners,
+  processedItemsPerUser,
+];
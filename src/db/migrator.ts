@@ -0,0 +1,117 @@
+import { Database } from './database';
+import { migrations as defaultMigrations } from './migrations';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database): Promise<void>;
+  down(db: Database): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at?: Date;
+}
+
+export class Migrator {
+  private migrations: Migration[];
+
+  constructor(
+    private db: Database,
+    migrations: Migration[] = defaultMigrations,
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  get latestVersion(): number {
+    return this.migrations.length
+      ? this.migrations[this.migrations.length - 1].version
+      : 0;
+  }
+
+  async currentVersion(): Promise<number> {
+    await this.ensureMigrationsTable();
+    const row = await this.db.get(
+      'SELECT MAX(version) AS version FROM schema_migrations',
+    );
+    return row?.version ?? 0;
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureMigrationsTable();
+    const rows = await this.db.all('SELECT * FROM schema_migrations');
+    const applied = new Map(rows.map((row) => [row.version, row]));
+
+    return this.migrations.map((migration) => {
+      const row = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied: Boolean(row),
+        applied_at: row ? new Date(row.applied_at) : undefined,
+      };
+    });
+  }
+
+  // Migrates up or down to the target version, one transaction per step.
+  // Returns the versions that were applied or reverted, in execution order.
+  async migrateTo(target: number = this.latestVersion): Promise<number[]> {
+    if (target !== 0 && !this.migrations.some((m) => m.version === target)) {
+      throw new Error(`Unknown migration version: ${target}`);
+    }
+
+    const current = await this.currentVersion();
+    const executed: number[] = [];
+
+    if (target > current) {
+      const pending = this.migrations.filter(
+        (m) => m.version > current && m.version <= target,
+      );
+      for (const migration of pending) {
+        await this.db.transaction(async () => {
+          await migration.up(this.db);
+          await this.db.run(
+            'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+            [migration.version, migration.name, new Date().toISOString()],
+          );
+        });
+        executed.push(migration.version);
+      }
+    } else if (target < current) {
+      const applied = this.migrations
+        .filter((m) => m.version > target && m.version <= current)
+        .reverse();
+      for (const migration of applied) {
+        await this.db.transaction(async () => {
+          await migration.down(this.db);
+          await this.db.run('DELETE FROM schema_migrations WHERE version = ?', [
+            migration.version,
+          ]);
+        });
+        executed.push(migration.version);
+      }
+    }
+
+    return executed;
+  }
+
+  async rollback(steps: number = 1): Promise<number[]> {
+    const current = await this.currentVersion();
+    const applied = this.migrations.filter((m) => m.version <= current);
+    const targetIndex = applied.length - steps - 1;
+    const target = targetIndex >= 0 ? applied[targetIndex].version : 0;
+    return this.migrateTo(target);
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at DATETIME NOT NULL
+      )
+    `);
+  }
+}
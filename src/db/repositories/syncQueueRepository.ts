@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SyncQueueItem, SyncOperation, Task } from '../../types';
+import { Database } from '../database';
+
+// Reads and writes the `sync_queue` table as SyncQueueItems, serializing
+// their data, base data and error history as JSON. Items are ordered by
+// clock timestamp, which keeps each task's operations in causal order.
+export class SyncQueueRepository {
+  constructor(private db: Database) {}
+
+  // Queues a change to a task on behalf of the task's owner
+  async enqueue(
+    taskId: string,
+    operation: SyncOperation,
+    data: Partial<Task>,
+    baseData?: Partial<Task>,
+    baseVersion?: number,
+  ): Promise<SyncQueueItem> {
+    const item: SyncQueueItem = {
+      id: uuidv4(),
+      task_id: taskId,
+      operation,
+      data,
+      base_data: baseData,
+      base_version: baseVersion,
+      hlc: data.hlc,
+      created_at: new Date(),
+      retry_count: 0,
+    };
+    await this.insert(item);
+    return item;
+  }
+
+  // The item's owner is taken from its task
+  async insert(item: SyncQueueItem): Promise<void> {
+    await this.db.run(
+      `INSERT INTO sync_queue (id, task_id, user_id, operation, data, base_data, base_version, hlc, created_at, retry_count)
+       VALUES (?, ?, (SELECT user_id FROM tasks WHERE id = ?), ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        item.id,
+        item.task_id,
+        item.task_id,
+        item.operation,
+        JSON.stringify(item.data),
+        item.base_data ? JSON.stringify(item.base_data) : null,
+        item.base_version ?? null,
+        item.hlc ?? null,
+        item.created_at.toISOString(),
+        item.retry_count,
+      ],
+    );
+  }
+
+  // Items ready to be sent. Tasks with a dead-lettered operation are held
+  // back until the dead letter is replayed or discarded, and tasks with an
+  // item leased to a sync run until the lease ends, preserving per-task
+  // ordering.
+  async findSendable(now: Date = new Date()): Promise<SyncQueueItem[]> {
+    const rows = await this.db.all(
+      `SELECT * FROM sync_queue
+       WHERE task_id NOT IN (SELECT task_id FROM dead_letter_queue)
+         AND task_id NOT IN (
+           SELECT task_id FROM sync_queue WHERE lease_expires_at > ?
+         )
+       ORDER BY hlc, created_at, rowid`,
+      [now.toISOString()],
+    );
+    return rows.map(SyncQueueRepository.fromRow);
+  }
+
+  async findByTask(taskId: string): Promise<SyncQueueItem[]> {
+    const rows = await this.db.all(
+      'SELECT * FROM sync_queue WHERE task_id = ? ORDER BY hlc, created_at, rowid',
+      [taskId],
+    );
+    return rows.map(SyncQueueRepository.fromRow);
+  }
+
+  async countByTask(taskId: string): Promise<number> {
+    const row = await this.db.get(
+      'SELECT COUNT(*) AS count FROM sync_queue WHERE task_id = ?',
+      [taskId],
+    );
+    return row.count;
+  }
+
+  // Without a user, counts every item
+  async count(userId?: string): Promise<number> {
+    const row =
+      userId !== undefined
+        ? await this.db.get(
+            'SELECT COUNT(*) AS count FROM sync_queue WHERE user_id = ?',
+            [userId],
+          )
+        : await this.db.get('SELECT COUNT(*) AS count FROM sync_queue');
+    return row.count;
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.db.run(
+      `DELETE FROM sync_queue WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      ids,
+    );
+  }
+
+  async deleteByTask(taskId: string): Promise<void> {
+    await this.db.run('DELETE FROM sync_queue WHERE task_id = ?', [taskId]);
+  }
+
+  // Turns the item into the merge of itself and later items, whose data it
+  // already holds
+  async updateMerged(item: SyncQueueItem): Promise<void> {
+    await this.db.run(
+      'UPDATE sync_queue SET operation = ?, base_data = ?, base_version = ? WHERE id = ?',
+      [
+        item.operation,
+        item.base_data ? JSON.stringify(item.base_data) : null,
+        item.base_version ?? null,
+        item.id,
+      ],
+    );
+  }
+
+  async recordFailure(item: SyncQueueItem): Promise<void> {
+    await this.db.run(
+      `UPDATE sync_queue
+       SET retry_count = ?, error_message = ?, error_history = ?, next_attempt_at = ?
+       WHERE id = ?`,
+      [
+        item.retry_count,
+        item.error_message ?? null,
+        JSON.stringify(item.error_history ?? []),
+        item.next_attempt_at?.toISOString() ?? null,
+        item.id,
+      ],
+    );
+  }
+
+  // Leases the item unless another lease on it is still live. Returns
+  // whether it was leased.
+  async lease(
+    id: string,
+    leaseId: string,
+    expiresAt: Date,
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    const { changes } = await this.db.run(
+      `UPDATE sync_queue SET lease_id = ?, lease_expires_at = ?
+       WHERE id = ? AND (lease_expires_at IS NULL OR lease_expires_at <= ?)`,
+      [leaseId, expiresAt.toISOString(), id, now.toISOString()],
+    );
+    return changes > 0;
+  }
+
+  async setBatchKey(leaseId: string, batchKey: string): Promise<void> {
+    await this.db.run(
+      'UPDATE sync_queue SET batch_key = ? WHERE lease_id = ?',
+      [batchKey, leaseId],
+    );
+  }
+
+  async countByBatchKey(batchKey: string): Promise<number> {
+    const row = await this.db.get(
+      'SELECT COUNT(*) AS count FROM sync_queue WHERE batch_key = ?',
+      [batchKey],
+    );
+    return row.count;
+  }
+
+  async release(leaseId: string): Promise<void> {
+    await this.db.run(
+      `UPDATE sync_queue SET lease_id = NULL, lease_expires_at = NULL
+       WHERE lease_id = ?`,
+      [leaseId],
+    );
+  }
+
+  // Ends every lease that expired; returns the number of items released
+  async releaseExpired(now: Date = new Date()): Promise<number> {
+    const { changes } = await this.db.run(
+      `UPDATE sync_queue SET lease_id = NULL, lease_expires_at = NULL
+       WHERE lease_expires_at <= ?`,
+      [now.toISOString()],
+    );
+    return changes;
+  }
+
+  // Whether any item of the task is leased to a live run
+  async isLeased(taskId: string, now: Date = new Date()): Promise<boolean> {
+    const row = await this.db.get(
+      'SELECT 1 FROM sync_queue WHERE task_id = ? AND lease_expires_at > ?',
+      [taskId, now.toISOString()],
+    );
+    return row !== undefined;
+  }
+
+  static fromRow(row: any): SyncQueueItem {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      user_id: row.user_id ?? undefined,
+      operation: row.operation,
+      data: JSON.parse(row.data),
+      base_data: row.base_data ? JSON.parse(row.base_data) : undefined,
+      base_version: row.base_version ?? undefined,
+      hlc: row.hlc ?? undefined,
+      created_at: new Date(row.created_at),
+      retry_count: row.retry_count,
+      error_message: row.error_message ?? undefined,
+      error_history: JSON.parse(row.error_history || '[]'),
+      next_attempt_at: row.next_attempt_at
+        ? new Date(row.next_attempt_at)
+        : undefined,
+      batch_key: row.batch_key ?? undefined,
+    };
+  }
+}
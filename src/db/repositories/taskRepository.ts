@@ -0,0 +1,546 @@
+import {
+  Task,
+  SyncStatus,
+  TaskQuery,
+  TaskSortField,
+  CursorPage,
+} from '../../types';
+import { Database } from '../database';
+import { ValidationError } from '../../utils/validation';
+import { CHALLENGE_CONSTRAINTS } from '../../utils/challenge-constraints';
+import { hlcFromDate } from '../../utils/hlc';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Sort expressions for each sort field. Titles sort case-insensitively.
+const SORT_COLUMNS: Record<TaskSortField, string> = {
+  created_at: 'created_at',
+  updated_at: 'updated_at',
+  title: 'title COLLATE NOCASE',
+};
+
+// Position after the last task of a page: the sort it belongs to, then the
+// sort value and id of that task
+type TaskCursor = [TaskSortField, 'asc' | 'desc', string, string];
+
+function encodeCursor(cursor: TaskCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(
+  value: string,
+  sort: TaskSortField,
+  order: 'asc' | 'desc',
+): TaskCursor {
+  let cursor: unknown;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+  } catch {
+    cursor = null;
+  }
+  if (
+    !Array.isArray(cursor) ||
+    cursor.length !== 4 ||
+    cursor[0] !== sort ||
+    cursor[1] !== order ||
+    typeof cursor[2] !== 'string' ||
+    typeof cursor[3] !== 'string'
+  ) {
+    throw new ValidationError([
+      {
+        field: 'cursor',
+        code: 'invalid_value',
+        message: 'cursor is malformed or belongs to a different sort order',
+      },
+    ]);
+  }
+  return cursor as TaskCursor;
+}
+
+// Dates arrive as Date objects or, from JSON, as strings
+function isoDate(value: Date | string | null | undefined): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+// Column values of the recurrence fields, in the order recurrence, series_id,
+// occurrence_at, series_template
+function recurrenceValues(task: Task): (string | null)[] {
+  return [
+    task.recurrence ?? null,
+    task.series_id ?? null,
+    isoDate(task.occurrence_at),
+    task.series_template ? JSON.stringify(task.series_template) : null,
+  ];
+}
+
+// Quotes each search term so FTS5 query syntax in user input is matched
+// literally; every term must match, as a prefix.
+function ftsQuery(search: string): string {
+  return search
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replace(/"/g, '""')}"*`)
+    .join(' ');
+}
+
+// Columns to select for fromRow: every column of `tasks` plus its tags as a
+// JSON array
+export const TASK_COLUMNS = `tasks.*, (
+  SELECT json_group_array(tag)
+  FROM (SELECT tag FROM task_tags WHERE task_id = tasks.id ORDER BY tag)
+) AS tags`;
+
+// Reads and writes the `tasks` table as Task objects. Given a user, every
+// query is limited to that user's tasks; without one it sees every task.
+export class TaskRepository {
+  constructor(
+    private db: Database,
+    private userId?: string,
+  ) {}
+
+  async findById(
+    id: string,
+    options: { includeDeleted?: boolean } = {},
+  ): Promise<Task | null> {
+    const owner = this.ownerFilter();
+    const deleted = options.includeDeleted ? '' : ' AND is_deleted = 0';
+    const row = await this.db.get(
+      `SELECT ${TASK_COLUMNS} FROM tasks WHERE id = ?${deleted}${owner.sql}`,
+      [id, ...owner.params],
+    );
+    return row ? TaskRepository.fromRow(row) : null;
+  }
+
+  // The task, deleted or not, together with the user it belongs to
+  async findWithOwner(
+    id: string,
+  ): Promise<{ task: Task; userId: string | null } | null> {
+    const owner = this.ownerFilter();
+    const row = await this.db.get(
+      `SELECT ${TASK_COLUMNS} FROM tasks WHERE id = ?${owner.sql}`,
+      [id, ...owner.params],
+    );
+    return row
+      ? { task: TaskRepository.fromRow(row), userId: row.user_id ?? null }
+      : null;
+  }
+
+  // The task imported under the external id, or whose own id it is, deleted
+  // or not
+  async findByExternalId(externalId: string): Promise<Task | null> {
+    const owner = this.ownerFilter();
+    const row = await this.db.get(
+      `SELECT ${TASK_COLUMNS} FROM tasks WHERE (external_id = ? OR id = ?)${owner.sql}`,
+      [externalId, externalId, ...owner.params],
+    );
+    return row ? TaskRepository.fromRow(row) : null;
+  }
+
+  // Every task in creation order, read a page at a time so large exports
+  // are not held in memory
+  async *iterate(
+    options: { includeDeleted?: boolean; pageSize?: number } = {},
+  ): AsyncGenerator<Task> {
+    const owner = this.ownerFilter();
+    const deleted = options.includeDeleted ? '' : ' AND is_deleted = 0';
+    const pageSize = options.pageSize ?? 500;
+    let after: [string, string] | null = null;
+    for (;;) {
+      const rows: any[] = await this.db.all(
+        `SELECT ${TASK_COLUMNS} FROM tasks WHERE 1 = 1${deleted}${owner.sql}
+         ${after ? 'AND (created_at, id) > (?, ?)' : ''}
+         ORDER BY created_at, id LIMIT ?`,
+        [...owner.params, ...(after ?? []), pageSize],
+      );
+      for (const row of rows) {
+        yield TaskRepository.fromRow(row);
+      }
+      if (rows.length < pageSize) {
+        return;
+      }
+      const last = rows[rows.length - 1];
+      after = [last.created_at, last.id];
+    }
+  }
+
+  async findAll(): Promise<Task[]> {
+    const owner = this.ownerFilter();
+    const rows = await this.db.all(
+      `SELECT ${TASK_COLUMNS} FROM tasks WHERE is_deleted = 0${owner.sql} ORDER BY created_at`,
+      owner.params,
+    );
+    return rows.map(TaskRepository.fromRow);
+  }
+
+  // Ids of the task's subtasks that are not deleted
+  async findSubtaskIds(parentId: string): Promise<string[]> {
+    const owner = this.ownerFilter();
+    const rows = await this.db.all(
+      `SELECT id FROM tasks WHERE parent_task_id = ? AND is_deleted = 0${owner.sql} ORDER BY created_at, id`,
+      [parentId, ...owner.params],
+    );
+    return rows.map((row) => row.id);
+  }
+
+  // Occurrences of the series after the given date that are not deleted,
+  // earliest first
+  async findLaterOccurrences(seriesId: string, after: Date): Promise<Task[]> {
+    const owner = this.ownerFilter();
+    const rows = await this.db.all(
+      `SELECT ${TASK_COLUMNS} FROM tasks
+       WHERE series_id = ? AND occurrence_at > ? AND is_deleted = 0${owner.sql}
+       ORDER BY occurrence_at, id`,
+      [seriesId, after.toISOString(), ...owner.params],
+    );
+    return rows.map(TaskRepository.fromRow);
+  }
+
+  async findNeedingSync(): Promise<Task[]> {
+    const owner = this.ownerFilter();
+    const rows = await this.db.all(
+      `SELECT ${TASK_COLUMNS} FROM tasks WHERE sync_status IN ('pending', 'error')${owner.sql} ORDER BY updated_at`,
+      owner.params,
+    );
+    return rows.map(TaskRepository.fromRow);
+  }
+
+  // Filtered, sorted page of non-deleted tasks with keyset pagination, so
+  // pages stay stable while tasks are added or edited
+  async findPage(query: TaskQuery = {}): Promise<CursorPage<Task>> {
+    const sort = query.sort ?? 'created_at';
+    const order = query.order ?? 'asc';
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    const conditions = ['is_deleted = 0'];
+    const params: any[] = [];
+    if (this.userId !== undefined) {
+      conditions.push('user_id = ?');
+      params.push(this.userId);
+    }
+    if (query.completed !== undefined) {
+      conditions.push('completed = ?');
+      params.push(query.completed ? 1 : 0);
+    }
+    if (query.sync_status) {
+      conditions.push('sync_status = ?');
+      params.push(query.sync_status);
+    }
+    if (query.updated_after) {
+      conditions.push('updated_at > ?');
+      params.push(query.updated_after.toISOString());
+    }
+    if (query.updated_before) {
+      conditions.push('updated_at < ?');
+      params.push(query.updated_before.toISOString());
+    }
+    if (query.due_after) {
+      conditions.push('due_at > ?');
+      params.push(query.due_after.toISOString());
+    }
+    if (query.due_before) {
+      conditions.push('due_at < ?');
+      params.push(query.due_before.toISOString());
+    }
+    if (query.priority) {
+      conditions.push('priority = ?');
+      params.push(query.priority);
+    }
+    if (query.tag) {
+      conditions.push('id IN (SELECT task_id FROM task_tags WHERE tag = ?)');
+      params.push(query.tag.toLowerCase());
+    }
+    if (query.parent_task_id) {
+      conditions.push('parent_task_id = ?');
+      params.push(query.parent_task_id);
+    }
+    if (query.series_id) {
+      conditions.push('series_id = ?');
+      params.push(query.series_id);
+    }
+    const search = query.search ? ftsQuery(query.search) : '';
+    if (search) {
+      conditions.push(
+        'id IN (SELECT task_id FROM tasks_fts WHERE tasks_fts MATCH ?)',
+      );
+      params.push(search);
+    }
+
+    const where = conditions.join(' AND ');
+    const { total } = await this.db.get(
+      `SELECT COUNT(*) AS total FROM tasks WHERE ${where}`,
+      params,
+    );
+
+    const column = SORT_COLUMNS[sort];
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+    const pageConditions = [...conditions];
+    const pageParams = [...params];
+    if (query.cursor) {
+      const [, , value, id] = decodeCursor(query.cursor, sort, order);
+      const op = order === 'asc' ? '>' : '<';
+      pageConditions.push(
+        `(${column} ${op} ? OR (${column} = ? AND id ${op} ?))`,
+      );
+      pageParams.push(value, value, id);
+    }
+
+    // One extra row tells whether another page follows
+    const rows = await this.db.all(
+      `SELECT ${TASK_COLUMNS} FROM tasks WHERE ${pageConditions.join(' AND ')}
+       ORDER BY ${column} ${direction}, id ${direction}
+       LIMIT ?`,
+      [...pageParams, limit + 1],
+    );
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map(TaskRepository.fromRow),
+      total,
+      limit,
+      next_cursor:
+        rows.length > limit && last
+          ? encodeCursor([sort, order, last[sort], last.id])
+          : null,
+    };
+  }
+
+  // Inserts the task for the given user, or this repository's user
+  async insert(
+    task: Task,
+    userId: string | undefined = this.userId,
+  ): Promise<void> {
+    await this.db.run(
+      `INSERT INTO tasks (id, user_id, title, description, completed, created_at, updated_at, is_deleted, version, hlc, sync_status, server_id, last_synced_at, external_id, due_at, priority, parent_task_id, recurrence, series_id, occurrence_at, series_template)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        task.id,
+        userId ?? null,
+        task.title,
+        task.description ?? null,
+        task.completed ? 1 : 0,
+        task.created_at.toISOString(),
+        task.updated_at.toISOString(),
+        task.is_deleted ? 1 : 0,
+        task.version,
+        task.hlc ?? null,
+        task.sync_status ?? 'pending',
+        task.server_id ?? null,
+        task.last_synced_at?.toISOString() ?? null,
+        task.external_id ?? null,
+        isoDate(task.due_at),
+        task.priority ?? null,
+        task.parent_task_id ?? null,
+        ...recurrenceValues(task),
+      ],
+    );
+    await this.setTags(task.id, task.tags);
+  }
+
+  // Writes the task's fields and sync status. With expectedVersion, the
+  // write only happens if the stored task still has that version. Returns
+  // whether a row was written.
+  async update(task: Task, expectedVersion?: number): Promise<boolean> {
+    const owner = this.ownerFilter();
+    const guard = expectedVersion !== undefined ? ' AND version = ?' : '';
+    const { changes } = await this.db.run(
+      `UPDATE tasks
+       SET title = ?, description = ?, completed = ?, is_deleted = ?, updated_at = ?, version = ?, hlc = ?, sync_status = ?, due_at = ?, priority = ?, parent_task_id = ?, recurrence = ?, series_id = ?, occurrence_at = ?, series_template = ?
+       WHERE id = ?${guard}${owner.sql}`,
+      [
+        task.title,
+        task.description ?? null,
+        task.completed ? 1 : 0,
+        task.is_deleted ? 1 : 0,
+        task.updated_at.toISOString(),
+        task.version,
+        task.hlc,
+        task.sync_status ?? 'pending',
+        isoDate(task.due_at),
+        task.priority ?? null,
+        task.parent_task_id ?? null,
+        ...recurrenceValues(task),
+        task.id,
+        ...(expectedVersion !== undefined ? [expectedVersion] : []),
+        ...owner.params,
+      ],
+    );
+    if (changes > 0) {
+      await this.setTags(task.id, task.tags);
+    }
+    return changes > 0;
+  }
+
+  // Writes a version that came from the server, keeping the local sync
+  // state. Its version and clock timestamp are adopted when present.
+  async applyServerVersion(id: string, serverTask: Task): Promise<boolean> {
+    const owner = this.ownerFilter();
+    const { changes } = await this.db.run(
+      `UPDATE tasks
+       SET title = ?, description = ?, completed = ?, is_deleted = ?, updated_at = ?, version = COALESCE(?, version), hlc = COALESCE(?, hlc), due_at = ?, priority = ?, parent_task_id = ?, recurrence = ?, series_id = ?, occurrence_at = ?, series_template = ?
+       WHERE id = ?${owner.sql}`,
+      [
+        serverTask.title,
+        serverTask.description ?? null,
+        serverTask.completed ? 1 : 0,
+        serverTask.is_deleted ? 1 : 0,
+        new Date(serverTask.updated_at).toISOString(),
+        serverTask.version ?? null,
+        serverTask.hlc ?? null,
+        isoDate(serverTask.due_at),
+        serverTask.priority ?? null,
+        serverTask.parent_task_id ?? null,
+        ...recurrenceValues(serverTask),
+        id,
+        ...owner.params,
+      ],
+    );
+    if (changes > 0) {
+      await this.setTags(id, serverTask.tags);
+    }
+    return changes > 0;
+  }
+
+  // Sets the sync status, and with `synced` the server id and sync time.
+  // Returns whether the status changed.
+  async setSyncStatus(
+    id: string,
+    status: SyncStatus,
+    synced?: { server_id?: string; at: Date },
+  ): Promise<boolean> {
+    const previous = await this.db.get(
+      'SELECT sync_status FROM tasks WHERE id = ?',
+      [id],
+    );
+    if (synced) {
+      await this.db.run(
+        `UPDATE tasks
+         SET sync_status = ?, server_id = COALESCE(?, server_id), last_synced_at = ?
+         WHERE id = ?`,
+        [status, synced.server_id ?? null, synced.at.toISOString(), id],
+      );
+    } else {
+      await this.db.run('UPDATE tasks SET sync_status = ? WHERE id = ?', [
+        status,
+        id,
+      ]);
+    }
+    return previous !== undefined && previous.sync_status !== status;
+  }
+
+  // Moves tasks from one sync status to another; returns the ids moved
+  async transitionSyncStatus(
+    ids: string[],
+    from: SyncStatus,
+    to: SyncStatus,
+  ): Promise<string[]> {
+    const moved: string[] = [];
+    for (const id of ids) {
+      const { changes } = await this.db.run(
+        'UPDATE tasks SET sync_status = ? WHERE id = ? AND sync_status = ?',
+        [to, id, from],
+      );
+      if (changes > 0) {
+        moved.push(id);
+      }
+    }
+    return moved;
+  }
+
+  async findIdsBySyncStatus(status: SyncStatus): Promise<string[]> {
+    const owner = this.ownerFilter();
+    const rows = await this.db.all(
+      `SELECT id FROM tasks WHERE sync_status = ?${owner.sql}`,
+      [status, ...owner.params],
+    );
+    return rows.map((row) => row.id);
+  }
+
+  // Number of tasks, deleted ones included, in each sync status
+  async countBySyncStatus(): Promise<Record<SyncStatus, number>> {
+    const owner = this.ownerFilter();
+    const rows = await this.db.all(
+      `SELECT sync_status, COUNT(*) AS count FROM tasks
+       ${owner.where} GROUP BY sync_status`,
+      owner.params,
+    );
+    const counts = Object.fromEntries(
+      CHALLENGE_CONSTRAINTS.SYNC_STATES.map((status) => [status, 0]),
+    ) as Record<SyncStatus, number>;
+    for (const row of rows) {
+      counts[row.sync_status as SyncStatus] = row.count;
+    }
+    return counts;
+  }
+
+  // Latest time any task was synced, or null if none has been
+  async lastSyncedAt(): Promise<Date | null> {
+    const owner = this.ownerFilter();
+    const row = await this.db.get(
+      `SELECT MAX(last_synced_at) AS last_synced_at FROM tasks ${owner.where}`,
+      owner.params,
+    );
+    return row.last_synced_at ? new Date(row.last_synced_at) : null;
+  }
+
+  // Converts a raw `tasks` row (INTEGER flags, DATETIME strings) into a Task
+  static fromRow(row: any): Task {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description ?? undefined,
+      completed: Boolean(row.completed),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      is_deleted: Boolean(row.is_deleted),
+      version: row.version,
+      hlc: row.hlc ?? hlcFromDate(row.updated_at),
+      sync_status: row.sync_status,
+      server_id: row.server_id ?? undefined,
+      last_synced_at: row.last_synced_at
+        ? new Date(row.last_synced_at)
+        : undefined,
+      external_id: row.external_id ?? undefined,
+      due_at: row.due_at ? new Date(row.due_at) : undefined,
+      priority: row.priority ?? undefined,
+      // Parsed already in tasks stored as JSON, e.g. revisions
+      tags: Array.isArray(row.tags)
+        ? row.tags
+        : row.tags
+          ? JSON.parse(row.tags)
+          : [],
+      parent_task_id: row.parent_task_id ?? undefined,
+      recurrence: row.recurrence ?? undefined,
+      series_id: row.series_id ?? undefined,
+      occurrence_at: row.occurrence_at
+        ? new Date(row.occurrence_at)
+        : undefined,
+      series_template:
+        typeof row.series_template === 'string'
+          ? JSON.parse(row.series_template)
+          : (row.series_template ?? undefined),
+    };
+  }
+
+  // Replaces the task's tags. Copies from peers that predate tags have none.
+  private async setTags(id: string, tags: string[] = []): Promise<void> {
+    await this.db.run('DELETE FROM task_tags WHERE task_id = ?', [id]);
+    for (const tag of new Set(tags)) {
+      await this.db.run('INSERT INTO task_tags (task_id, tag) VALUES (?, ?)', [
+        id,
+        tag,
+      ]);
+    }
+  }
+
+  // `sql` extends a WHERE clause; `where` is the whole clause
+  private ownerFilter(): { sql: string; where: string; params: string[] } {
+    return this.userId !== undefined
+      ? {
+          sql: ' AND user_id = ?',
+          where: 'WHERE user_id = ?',
+          params: [this.userId],
+        }
+      : { sql: '', where: '', params: [] };
+  }
+}
@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Page, RevisionSource, TaskRevision } from '../../types';
+import { Database } from '../database';
+import { TASK_COLUMNS, TaskRepository } from './taskRepository';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Reads and writes the `task_revisions` table. Revisions are not scoped by
+// user; callers check that the task is visible to them first.
+export class TaskRevisionRepository {
+  constructor(private db: Database) {}
+
+  // Records the task as currently stored. Call it in the transaction that
+  // wrote the change.
+  async record(
+    taskId: string,
+    source: RevisionSource,
+  ): Promise<TaskRevision | null> {
+    const row = await this.db.get(
+      `SELECT ${TASK_COLUMNS} FROM tasks WHERE id = ?`,
+      [taskId],
+    );
+    if (!row) {
+      return null;
+    }
+    const revision: TaskRevision = {
+      id: uuidv4(),
+      task_id: taskId,
+      version: row.version,
+      source,
+      task: TaskRepository.fromRow(row),
+      created_at: new Date(),
+    };
+    await this.db.run(
+      `INSERT INTO task_revisions (id, task_id, version, source, task, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        revision.id,
+        revision.task_id,
+        revision.version,
+        revision.source,
+        JSON.stringify(revision.task),
+        revision.created_at.toISOString(),
+      ],
+    );
+    return revision;
+  }
+
+  // Newest first
+  async findByTask(
+    taskId: string,
+    options: { limit?: number; offset?: number } = {},
+  ): Promise<Page<TaskRevision>> {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = options.offset ?? 0;
+    const total = await this.db.get(
+      'SELECT COUNT(*) AS count FROM task_revisions WHERE task_id = ?',
+      [taskId],
+    );
+    const rows = await this.db.all(
+      `SELECT * FROM task_revisions WHERE task_id = ?
+       ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`,
+      [taskId, limit, offset],
+    );
+    return {
+      items: rows.map(TaskRevisionRepository.fromRow),
+      total: total.count,
+      limit,
+      offset,
+    };
+  }
+
+  async findById(taskId: string, id: string): Promise<TaskRevision | null> {
+    const row = await this.db.get(
+      'SELECT * FROM task_revisions WHERE id = ? AND task_id = ?',
+      [id, taskId],
+    );
+    return row ? TaskRevisionRepository.fromRow(row) : null;
+  }
+
+  static fromRow(row: any): TaskRevision {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      version: row.version,
+      source: row.source,
+      task: TaskRepository.fromRow(JSON.parse(row.task)),
+      created_at: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AuthenticationError, signToken, verifyToken } from '../utils/jwt';
+
+export const EVENT_STREAM_SCOPE = 'events';
+export const EVENT_STREAM_TOKEN_TTL_SECONDS = 60;
+
+export class ForbiddenError extends Error {
+  public statusCode = 403;
+  public code = 'FORBIDDEN' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// Requires an `Authorization: Bearer <token>` header and stores the
+// authenticated user's id in res.locals.userId. Tokens limited to a single
+// endpoint are refused. Failures are passed on to errorHandler as a 401.
+export function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const [scheme, token] = (req.get('Authorization') ?? '').split(' ');
+  authenticate(res, next, scheme === 'Bearer' ? token : undefined, undefined);
+}
+
+// Like requireAuth, for the task event stream. Browsers' EventSource cannot
+// set headers, so without one the stream token from POST /tasks/events/token
+// is taken from the `access_token` query parameter instead. Only that
+// short-lived token is accepted there, as URLs end up in server logs.
+export function requireEventStreamAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const token = req.query.access_token;
+  if (req.get('Authorization') !== undefined || typeof token !== 'string') {
+    return requireAuth(req, res, next);
+  }
+  authenticate(res, next, token, EVENT_STREAM_SCOPE);
+}
+
+export function signEventStreamToken(userId: string): string {
+  return signToken(userId, EVENT_STREAM_TOKEN_TTL_SECONDS, EVENT_STREAM_SCOPE);
+}
+
+function authenticate(
+  res: Response,
+  next: NextFunction,
+  token: string | undefined,
+  scope: string | undefined,
+): void {
+  try {
+    if (!token) {
+      throw new AuthenticationError();
+    }
+    const claims = verifyToken(token);
+    if (claims.scope !== scope) {
+      throw new AuthenticationError('Token is not valid for this endpoint');
+    }
+    res.locals.userId = claims.sub;
+    next();
+  } catch (error) {
+    res.set('WWW-Authenticate', 'Bearer');
+    next(error);
+  }
+}
+
+// Requires the operator credential configured in ADMIN_TOKEN, sent in an
+// `X-Admin-Token` header. Guards endpoints that act on every account's data,
+// which a user's bearer token must not reach. Without ADMIN_TOKEN they are
+// disabled. Failures are passed on to errorHandler as a 403.
+export function requireAdminToken(
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+): void {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    return next(new ForbiddenError('Maintenance endpoints are disabled'));
+  }
+  // Hashed so the comparison takes the same time whatever the length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (
+    !timingSafeEqual(digest(req.get('X-Admin-Token') ?? ''), digest(expected))
+  ) {
+    return next(new ForbiddenError('A valid admin token is required'));
+  }
+  next();
+}
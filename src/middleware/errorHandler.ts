@@ -1,23 +1,36 @@
 import { Request, Response, NextFunction } from 'express';
+import { ErrorCode, ErrorResponse, FieldError } from '../types';
 
 export interface AppError extends Error {
   statusCode?: number;
+  code?: ErrorCode;
+  details?: FieldError[];
 }
 
 export function errorHandler(
   err: AppError,
   req: Request,
   res: Response,
-  next: NextFunction
+  _next: NextFunction,
 ): void {
   console.error('Error:', err);
 
   const statusCode = err.statusCode || 500;
-  const message = err.message || 'Internal Server Error';
+  const body: ErrorResponse = {
+    error: err.message || 'Internal Server Error',
+    // Only AppErrors set statusCode; other errors, such as malformed JSON
+    // rejected by express.json() or driver errors, are classified by status
+    code:
+      (err.statusCode && err.code) ||
+      (statusCode >= 500 ? 'INTERNAL_ERROR' : 'VALIDATION_ERROR'),
+  };
+  if (err.details) {
+    body.details = err.details;
+  }
 
   res.status(statusCode).json({
-    error: message,
+    ...body,
     timestamp: new Date().toISOString(),
     path: req.path,
   });
-}
\ No newline at end of file
+}
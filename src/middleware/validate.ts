@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  FieldSchema,
+  ObjectSchema,
+  validateBody,
+  validateQuery,
+} from '../utils/validation';
+
+// Replaces req.body with the validated body. Failures are passed on to
+// errorHandler as a ValidationError.
+export function validateRequestBody(schema: ObjectSchema): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      req.body = validateBody(schema, req.body);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Stores the parsed query in res.locals.query, since req.query is read-only
+export function validateRequestQuery(
+  fields: Record<string, FieldSchema>,
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.locals.query = validateQuery(fields, req.query);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
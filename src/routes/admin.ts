@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express';
+import { RetentionService } from '../services/retentionService';
+import { UserService } from '../services/userService';
+import { Database } from '../db/database';
+import { requireAdminToken } from '../middleware/auth';
+import { validateRequestBody } from '../middleware/validate';
+
+// Maintenance of the local database, which every account on this device
+// shares, so only the operator holding ADMIN_TOKEN may use it
+export function createAdminRouter(
+  db: Database,
+  retention: RetentionService = new RetentionService(db),
+): Router {
+  const router = Router();
+  router.use(requireAdminToken);
+
+  // What a retention run would purge now, and the last run's result
+  router.get('/retention', async (_req: Request, res: Response) => {
+    try {
+      return res.json({
+        preview: await retention.preview(),
+        last_run: retention.getLastRun(),
+      });
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Failed to preview retention',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Purge now and reclaim the space with VACUUM
+  router.post('/retention/purge', async (_req: Request, res: Response) => {
+    try {
+      return res.json(await retention.purge());
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to run retention', code: 'INTERNAL_ERROR' });
+    }
+  });
+
+  // Hand the tasks written before accounts existed to an account
+  router.post(
+    '/ownerless/adopt',
+    validateRequestBody({
+      fields: { email: { type: 'string', required: true } },
+    }),
+    async (req: Request, res: Response) => {
+      const users = new UserService(db);
+      try {
+        const user = await users.getUserByEmail(req.body.email);
+        if (!user) {
+          return res
+            .status(404)
+            .json({ error: 'User not found', code: 'NOT_FOUND' });
+        }
+        return res.json(await users.adoptOwnerlessRows(user.id));
+      } catch (error) {
+        return res.status(500).json({
+          error: 'Failed to adopt ownerless tasks',
+          code: 'INTERNAL_ERROR',
+        });
+      }
+    },
+  );
+
+  return router;
+}
@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import { UserService, AccountExistsError } from '../services/userService';
+import { Database } from '../db/database';
+import { AuthResponse, User } from '../types';
+import { ObjectSchema } from '../utils/validation';
+import { signToken } from '../utils/jwt';
+import { validateRequestBody } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const registerSchema: ObjectSchema = {
+  fields: {
+    email: {
+      type: 'string',
+      required: true,
+      maxLength: 254,
+      pattern: /^[^\s@]+@[^\s@]+$/,
+    },
+    password: {
+      type: 'string',
+      required: true,
+      minLength: PASSWORD_MIN_LENGTH,
+      maxLength: 256,
+    },
+  },
+};
+
+// Login does not re-check registration rules, so a wrong guess is always a
+// plain 401
+const loginSchema: ObjectSchema = {
+  fields: {
+    email: { type: 'string', required: true },
+    password: { type: 'string', required: true },
+  },
+};
+
+type Credentials = { email: string; password: string };
+
+function authResponse(user: User): AuthResponse {
+  return { token: signToken(user.id), user };
+}
+
+export function createAuthRouter(db: Database): Router {
+  const router = Router();
+  const userService = new UserService(db);
+
+  // Create an account and sign in
+  router.post(
+    '/register',
+    validateRequestBody(registerSchema),
+    async (req: Request, res: Response) => {
+      const { email, password } = req.body as Credentials;
+      try {
+        const user = await userService.register(email, password);
+        return res.status(201).json(authResponse(user));
+      } catch (error) {
+        if (error instanceof AccountExistsError) {
+          return res
+            .status(error.statusCode)
+            .json({ error: error.message, code: error.code });
+        }
+        return res
+          .status(500)
+          .json({ error: 'Failed to register', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
+
+  // Exchange credentials for a token
+  router.post(
+    '/login',
+    validateRequestBody(loginSchema),
+    async (req: Request, res: Response) => {
+      const { email, password } = req.body as Credentials;
+      try {
+        const user = await userService.authenticate(email, password);
+        if (!user) {
+          return res.status(401).json({
+            error: 'Invalid email or password',
+            code: 'UNAUTHORIZED',
+          });
+        }
+        return res.json(authResponse(user));
+      } catch (error) {
+        return res
+          .status(500)
+          .json({ error: 'Failed to log in', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
+
+  // The authenticated user
+  router.get('/me', requireAuth, async (_req: Request, res: Response) => {
+    try {
+      const user = await userService.getUser(res.locals.userId);
+      if (!user) {
+        return res
+          .status(404)
+          .json({ error: 'User not found', code: 'NOT_FOUND' });
+      }
+      return res.json(user);
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to fetch user', code: 'INTERNAL_ERROR' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,86 @@
+import { Router, Request, Response } from 'express';
+import {
+  ConflictLogService,
+  ConflictOverrideError,
+} from '../services/conflictLogService';
+import { Database } from '../db/database';
+import { ConflictLogFilter } from '../types';
+import { validateRequestQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+
+const MAX_PAGE_SIZE = 200;
+
+export function createConflictRouter(db: Database): Router {
+  const router = Router();
+  router.use(requireAuth);
+  const conflictsFor = (res: Response) =>
+    new ConflictLogService(db, res.locals.userId);
+
+  // List conflict resolutions, newest first
+  router.get(
+    '/',
+    validateRequestQuery({
+      task_id: { type: 'string' },
+      from: { type: 'date' },
+      to: { type: 'date' },
+      limit: { type: 'integer', min: 0, max: MAX_PAGE_SIZE },
+      offset: { type: 'integer', min: 0 },
+    }),
+    async (_req: Request, res: Response) => {
+      const filter = res.locals.query as ConflictLogFilter;
+      try {
+        const page = await conflictsFor(res).list({
+          limit: 50,
+          offset: 0,
+          ...filter,
+        });
+        return res.json(page);
+      } catch (error) {
+        return res
+          .status(500)
+          .json({ error: 'Failed to fetch conflicts', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
+
+  // Inspect a single conflict resolution
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const entry = await conflictsFor(res).get(req.params.id);
+      if (!entry) {
+        return res
+          .status(404)
+          .json({ error: 'Conflict not found', code: 'NOT_FOUND' });
+      }
+      return res.json(entry);
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to fetch conflict', code: 'INTERNAL_ERROR' });
+    }
+  });
+
+  // Reverse an automatic decision and re-enqueue the losing version
+  router.post('/:id/override', async (req: Request, res: Response) => {
+    try {
+      const entry = await conflictsFor(res).override(req.params.id);
+      if (!entry) {
+        return res
+          .status(404)
+          .json({ error: 'Conflict not found', code: 'NOT_FOUND' });
+      }
+      return res.json(entry);
+    } catch (error) {
+      if (error instanceof ConflictOverrideError) {
+        return res
+          .status(error.statusCode)
+          .json({ error: error.message, code: 'CONFLICT' });
+      }
+      return res
+        .status(500)
+        .json({ error: 'Failed to override conflict', code: 'INTERNAL_ERROR' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { DeadLetterService } from '../services/deadLetterService';
+import { Database } from '../db/database';
+import { SyncOperation } from '../types';
+import { validateRequestQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+
+const OPERATIONS: SyncOperation[] = ['create', 'update', 'delete'];
+
+export function createDeadLetterRouter(db: Database): Router {
+  const router = Router();
+  router.use(requireAuth);
+  const deadLettersFor = (res: Response) =>
+    new DeadLetterService(db, res.locals.userId);
+
+  // List dead letters, optionally filtered by task or operation
+  router.get(
+    '/',
+    validateRequestQuery({
+      task_id: { type: 'string' },
+      operation: { type: 'string', enum: OPERATIONS },
+    }),
+    async (_req: Request, res: Response) => {
+      try {
+        const items = await deadLettersFor(res).list(
+          res.locals.query as { task_id?: string; operation?: SyncOperation },
+        );
+        return res.json(items);
+      } catch (error) {
+        return res.status(500).json({
+          error: 'Failed to fetch dead letters',
+          code: 'INTERNAL_ERROR',
+        });
+      }
+    },
+  );
+
+  // Inspect a single dead letter
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const item = await deadLettersFor(res).get(req.params.id);
+      if (!item) {
+        return res
+          .status(404)
+          .json({ error: 'Dead letter not found', code: 'NOT_FOUND' });
+      }
+      return res.json(item);
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to fetch dead letter', code: 'INTERNAL_ERROR' });
+    }
+  });
+
+  // Re-enqueue a dead letter with its retry count reset
+  router.post('/:id/replay', async (req: Request, res: Response) => {
+    try {
+      const item = await deadLettersFor(res).replay(req.params.id);
+      if (!item) {
+        return res
+          .status(404)
+          .json({ error: 'Dead letter not found', code: 'NOT_FOUND' });
+      }
+      return res.json(item);
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Failed to replay dead letter',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Permanently discard a dead letter
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const discarded = await deadLettersFor(res).discard(req.params.id);
+      if (!discarded) {
+        return res
+          .status(404)
+          .json({ error: 'Dead letter not found', code: 'NOT_FOUND' });
+      }
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({
+        error: 'Failed to discard dead letter',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  return router;
+}
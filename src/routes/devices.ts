@@ -0,0 +1,65 @@
+import { Router, Request, Response } from 'express';
+import { DeviceService } from '../services/deviceService';
+import { Database } from '../db/database';
+import { ObjectSchema } from '../utils/validation';
+import { validateRequestBody } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+
+const registerDeviceSchema: ObjectSchema = {
+  fields: {
+    name: { type: 'string', required: true, maxLength: 100 },
+  },
+};
+
+export function createDeviceRouter(db: Database): Router {
+  const router = Router();
+  router.use(requireAuth);
+  const devicesFor = (res: Response) =>
+    new DeviceService(db, res.locals.userId);
+
+  // Register a device; its id is sent with every batch it pushes
+  router.post(
+    '/',
+    validateRequestBody(registerDeviceSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const device = await devicesFor(res).register(req.body.name);
+        return res.status(201).json(device);
+      } catch (error) {
+        return res
+          .status(500)
+          .json({ error: 'Failed to register device', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
+
+  // List the authenticated user's devices with their sync state
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      return res.json(await devicesFor(res).list());
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to fetch devices', code: 'INTERNAL_ERROR' });
+    }
+  });
+
+  // Revoke a device so the server rejects its batches from now on
+  router.post('/:id/revoke', async (req: Request, res: Response) => {
+    try {
+      const device = await devicesFor(res).revoke(req.params.id);
+      if (!device) {
+        return res
+          .status(404)
+          .json({ error: 'Device not found', code: 'NOT_FOUND' });
+      }
+      return res.json(device);
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to revoke device', code: 'INTERNAL_ERROR' });
+    }
+  });
+
+  return router;
+}
@@ -1,44 +1,176 @@
 import { Router, Request, Response } from 'express';
 import { SyncService } from '../services/syncService';
 import { TaskService } from '../services/taskService';
+import { BatchSyncService, BatchSyncError } from '../services/batchSyncService';
+import { conflictStrategyNames } from '../services/conflictStrategies';
+import { SyncScheduler } from '../services/syncScheduler';
+import { DeviceService } from '../services/deviceService';
+import { SyncRunService } from '../services/syncRunService';
 import { Database } from '../db/database';
+import { ConflictStrategyName } from '../types';
+import { TaskRepository } from '../db/repositories/taskRepository';
+import { SyncQueueRepository } from '../db/repositories/syncQueueRepository';
+import { validateRequestQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
 
-export function createSyncRouter(db: Database): Router {
+const MAX_PAGE_SIZE = 200;
+
+export function createSyncRouter(
+  db: Database,
+  scheduler?: SyncScheduler,
+): Router {
   const router = Router();
   const taskService = new TaskService(db);
   const syncService = new SyncService(db, taskService);
+  // Scoped to the authenticated user, whose token the client sends
+  const batchSyncFor = (res: Response) =>
+    new BatchSyncService(db, res.locals.userId);
 
-  // Trigger manual sync
-  router.post('/sync', async (req: Request, res: Response) => {
-    // TODO: Implement sync endpoint
-    // 1. Check connectivity first
-    // 2. Call syncService.sync()
-    // 3. Return sync result
-    res.status(501).json({ error: 'Not implemented' });
-  });
+  // Trigger manual sync of the authenticated user's queued changes
+  router.post(
+    '/sync',
+    requireAuth,
+    validateRequestQuery({
+      strategy: { type: 'string', enum: conflictStrategyNames() },
+    }),
+    async (_req: Request, res: Response) => {
+      const { strategy } = res.locals.query as {
+        strategy?: ConflictStrategyName;
+      };
+
+      try {
+        const isOnline = await syncService.checkConnectivity();
+        if (!isOnline) {
+          return res.status(503).json({
+            error: 'Server is unreachable',
+            code: 'SERVICE_UNAVAILABLE',
+          });
+        }
+
+        const result = await syncService.sync({
+          strategy,
+          userId: res.locals.userId,
+        });
+        return res.json(result);
+      } catch (error) {
+        return res
+          .status(500)
+          .json({ error: 'Failed to sync', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
 
-  // Check sync status
-  router.get('/status', async (req: Request, res: Response) => {
-    // TODO: Implement sync status endpoint
-    // 1. Get pending sync count
-    // 2. Get last sync timestamp
-    // 3. Check connectivity
-    // 4. Return status summary
-    res.status(501).json({ error: 'Not implemented' });
+  // Check sync status of the authenticated user's tasks
+  router.get('/status', requireAuth, async (_req: Request, res: Response) => {
+    const { userId } = res.locals;
+    try {
+      const tasks = new TaskRepository(db, userId);
+      const statusCounts = await tasks.countBySyncStatus();
+      const queued = await new SyncQueueRepository(db).count(userId);
+      const deadLetters = await db.get(
+        `SELECT COUNT(*) AS count FROM dead_letter_queue
+         WHERE task_id IN (SELECT id FROM tasks WHERE user_id = ?)`,
+        [userId],
+      );
+      const devices = await new DeviceService(db, userId).list();
+      const syncRuns = new SyncRunService(db, userId);
+      const isOnline = await syncService.checkConnectivity();
+
+      return res.json({
+        pending_sync_count: statusCounts.pending + statusCounts.error,
+        sync_status_counts: statusCounts,
+        last_sync_timestamp: await tasks.lastSyncedAt(),
+        last_successful_run: await syncRuns.getLastSuccessful(),
+        current_run: await syncRuns.getCurrent(),
+        is_online: isOnline,
+        sync_queue_size: queued,
+        dead_letter_count: deadLetters.count,
+        devices,
+        // The scheduler's last result covers every account
+        scheduler: scheduler
+          ? { ...scheduler.getStatus(), last_result: undefined }
+          : null,
+      });
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ error: 'Failed to fetch sync status', code: 'INTERNAL_ERROR' });
+    }
   });
 
+  // Past sync runs of the authenticated user, newest first
+  router.get(
+    '/sync/history',
+    requireAuth,
+    validateRequestQuery({
+      limit: { type: 'integer', min: 0, max: MAX_PAGE_SIZE },
+      offset: { type: 'integer', min: 0 },
+    }),
+    async (_req: Request, res: Response) => {
+      try {
+        const page = await new SyncRunService(db, res.locals.userId).list(
+          res.locals.query as { limit?: number; offset?: number },
+        );
+        return res.json(page);
+      } catch (error) {
+        return res.status(500).json({
+          error: 'Failed to fetch sync history',
+          code: 'INTERNAL_ERROR',
+        });
+      }
+    },
+  );
+
   // Batch sync endpoint (for server-side)
-  router.post('/batch', async (req: Request, res: Response) => {
-    // TODO: Implement batch sync endpoint
-    // This would be implemented on the server side
-    // to handle batch sync requests from clients
-    res.status(501).json({ error: 'Not implemented' });
+  router.post('/batch', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const response = await batchSyncFor(res).processBatch(req.body);
+      return res.json(response);
+    } catch (error) {
+      if (error instanceof BatchSyncError) {
+        return res
+          .status(error.statusCode)
+          .json({ error: error.message, code: error.code });
+      }
+      return res
+        .status(500)
+        .json({ error: 'Failed to process batch', code: 'INTERNAL_ERROR' });
+    }
   });
 
+  // Change feed for pull-based sync (for server-side)
+  router.get(
+    '/changes',
+    requireAuth,
+    validateRequestQuery({
+      since: { type: 'date' },
+      device_id: { type: 'string' },
+    }),
+    async (_req: Request, res: Response) => {
+      const { since, device_id } = res.locals.query as {
+        since?: Date;
+        device_id?: string;
+      };
+      try {
+        const response = await batchSyncFor(res).getChanges(since, device_id);
+        return res.json(response);
+      } catch (error) {
+        if (error instanceof BatchSyncError) {
+          return res
+            .status(error.statusCode)
+            .json({ error: error.message, code: error.code });
+        }
+        return res
+          .status(500)
+          .json({ error: 'Failed to fetch changes', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
+
   // Health check endpoint
-  router.get('/health', async (req: Request, res: Response) => {
-    res.json({ status: 'ok', timestamp: new Date() });
+  router.get('/health', async (_req: Request, res: Response) => {
+    return res.json({ status: 'ok', timestamp: new Date() });
   });
 
   return router;
-}
\ No newline at end of file
+}
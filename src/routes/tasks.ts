@@ -1,63 +1,770 @@
-import { Router, Request, Response } from 'express';
-import { TaskService } from '../services/taskService';
-import { SyncService } from '../services/syncService';
+import express, { Router, Request, Response } from 'express';
+import {
+  TaskService,
+  PreconditionFailedError,
+  RestoreError,
+} from '../services/taskService';
+import { TaskEventService } from '../services/taskEventService';
 import { Database } from '../db/database';
+import {
+  Task,
+  TaskEvent,
+  TaskQuery,
+  BulkOperation,
+  BulkMode,
+  FieldError,
+  ImportRow,
+  ImportRowResult,
+  ImportResult,
+  TaskFormat,
+  TaskPriority,
+  RecurrenceScope,
+} from '../types';
+import {
+  FieldSchema,
+  ObjectSchema,
+  ValidationError,
+  validateBody,
+} from '../utils/validation';
+import {
+  validateRequestBody,
+  validateRequestQuery,
+} from '../middleware/validate';
+import { CHALLENGE_CONSTRAINTS } from '../utils/challenge-constraints';
+import { taskETag, parseIfMatch } from '../utils/etag';
+import {
+  TASK_FORMATS,
+  CONTENT_TYPES,
+  parseTasks,
+  serializeTasks,
+} from '../utils/taskFormats';
+import {
+  EVENT_STREAM_TOKEN_TTL_SECONDS,
+  requireAuth,
+  requireEventStreamAuth,
+  signEventStreamToken,
+} from '../middleware/auth';
+
+export const TITLE_MAX_LENGTH = 200;
+export const DESCRIPTION_MAX_LENGTH = 2000;
+export const TAG_MAX_LENGTH = 50;
+export const MAX_TAGS = 20;
+export const RECURRENCE_MAX_LENGTH = 200;
+
+const RECURRENCE_SCOPES: readonly RecurrenceScope[] = ['this', 'future'];
+
+export const TASK_PRIORITIES: readonly TaskPriority[] = [
+  'low',
+  'medium',
+  'high',
+];
+
+// Tags cannot contain commas or semicolons, which separate them in CSV and
+// iCalendar files
+const tagSchema: FieldSchema = {
+  type: 'string',
+  required: true,
+  maxLength: TAG_MAX_LENGTH,
+  pattern: /^[^,;]+$/,
+};
+
+// Set by the server or the sync engine, never by clients
+const SERVER_OWNED_FIELDS = [
+  'id',
+  'created_at',
+  'updated_at',
+  'is_deleted',
+  'version',
+  'hlc',
+  'sync_status',
+  'server_id',
+  'last_synced_at',
+  'external_id',
+  'series_id',
+  'occurrence_at',
+  'series_template',
+] as const;
+
+export const createTaskSchema: ObjectSchema = {
+  fields: {
+    title: { type: 'string', required: true, maxLength: TITLE_MAX_LENGTH },
+    description: { type: 'string', maxLength: DESCRIPTION_MAX_LENGTH },
+    completed: { type: 'boolean' },
+    due_at: { type: 'date' },
+    priority: { type: 'string', enum: TASK_PRIORITIES },
+    tags: { type: 'array', items: tagSchema, maxItems: MAX_TAGS },
+    parent_task_id: { type: 'string', minLength: 1 },
+    // An RRULE such as FREQ=WEEKLY;BYDAY=MO, checked by the task service
+    recurrence: {
+      type: 'string',
+      minLength: 1,
+      maxLength: RECURRENCE_MAX_LENGTH,
+    },
+  },
+  readOnly: SERVER_OWNED_FIELDS,
+};
+
+// Every field is optional; null clears description, due_at, priority,
+// parent_task_id and recurrence
+export const updateTaskSchema: ObjectSchema = {
+  fields: {
+    title: { type: 'string', minLength: 1, maxLength: TITLE_MAX_LENGTH },
+    description: {
+      type: 'string',
+      nullable: true,
+      maxLength: DESCRIPTION_MAX_LENGTH,
+    },
+    completed: { type: 'boolean' },
+    due_at: { type: 'date', nullable: true },
+    priority: { type: 'string', nullable: true, enum: TASK_PRIORITIES },
+    tags: { type: 'array', items: tagSchema, maxItems: MAX_TAGS },
+    parent_task_id: { type: 'string', nullable: true, minLength: 1 },
+    recurrence: {
+      type: 'string',
+      nullable: true,
+      minLength: 1,
+      maxLength: RECURRENCE_MAX_LENGTH,
+    },
+  },
+  readOnly: SERVER_OWNED_FIELDS,
+};
+
+const MAX_PAGE_SIZE = 200;
+
+export const listTasksQuery: Record<keyof TaskQuery, FieldSchema> = {
+  completed: { type: 'boolean' },
+  sync_status: { type: 'string', enum: CHALLENGE_CONSTRAINTS.SYNC_STATES },
+  updated_after: { type: 'date' },
+  updated_before: { type: 'date' },
+  due_after: { type: 'date' },
+  due_before: { type: 'date' },
+  priority: { type: 'string', enum: TASK_PRIORITIES },
+  tag: { type: 'string', maxLength: TAG_MAX_LENGTH },
+  parent_task_id: { type: 'string' },
+  series_id: { type: 'string' },
+  search: { type: 'string', maxLength: TITLE_MAX_LENGTH },
+  sort: { type: 'string', enum: ['created_at', 'updated_at', 'title'] },
+  order: { type: 'string', enum: ['asc', 'desc'] },
+  limit: { type: 'integer', min: 1, max: MAX_PAGE_SIZE },
+  cursor: { type: 'string' },
+};
+
+type TaskInput = Pick<
+  Task,
+  | 'title'
+  | 'description'
+  | 'completed'
+  | 'due_at'
+  | 'priority'
+  | 'tags'
+  | 'parent_task_id'
+>;
+
+// Without a revision, a deleted task is undeleted
+const restoreTaskSchema: ObjectSchema = {
+  fields: {
+    revision_id: { type: 'string', minLength: 1 },
+  },
+};
+
+// Largest CSV or iCalendar file accepted for import
+const IMPORT_MAX_SIZE = '5mb';
+
+// Splits imported rows into those to create, validated like the body of a
+// create request, and those reported without creating anything
+export function validateImportRows(rows: ImportRow[]): {
+  valid: { row: number; external_id: string; data: TaskInput }[];
+  rejected: ImportRowResult[];
+} {
+  const valid: { row: number; external_id: string; data: TaskInput }[] = [];
+  const rejected: ImportRowResult[] = [];
+  for (const { row, external_id, data, is_deleted } of rows) {
+    if (is_deleted) {
+      rejected.push({ row, external_id, status: 'skipped' });
+      continue;
+    }
+    try {
+      valid.push({
+        row,
+        external_id,
+        data: validateBody<TaskInput>(createTaskSchema, data),
+      });
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      rejected.push({ row, status: 'invalid', errors: error.details });
+    }
+  }
+  return { valid, rejected };
+}
+
+export const BULK_MAX_OPERATIONS = 500;
+
+const bulkRequestSchema: ObjectSchema = {
+  fields: {
+    mode: { type: 'string', enum: ['atomic', 'best-effort'] },
+  },
+};
+
+// Fields of an operation besides its data
+const bulkOperationSchema: ObjectSchema = {
+  fields: {
+    op: {
+      type: 'string',
+      required: true,
+      enum: ['create', 'update', 'delete'],
+    },
+    id: { type: 'string', minLength: 1 },
+    version: { type: 'integer', min: 1 },
+    scope: { type: 'string', enum: RECURRENCE_SCOPES },
+  },
+};
+
+// Runs a validation, collecting its field errors under the given prefix
+function collect<T>(
+  errors: FieldError[],
+  prefix: string,
+  validate: () => T,
+): T | undefined {
+  try {
+    return validate();
+  } catch (error) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
+    }
+    errors.push(
+      ...error.details.map((detail) => ({
+        ...detail,
+        field: `${prefix}.${detail.field}`,
+      })),
+    );
+    return undefined;
+  }
+}
+
+// Validates a bulk request. Each operation's data is checked like the body
+// of the matching single-task request, and every problem is reported at
+// once with its position, e.g. operations[2].data.title.
+export function validateBulkRequest(body: unknown): {
+  mode: BulkMode;
+  operations: BulkOperation[];
+} {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const { operations: rawOperations, ...rest } =
+    typeof input === 'object' && !Array.isArray(input) ? input : {};
+  const errors: FieldError[] = [];
+  const { mode } = validateBody<{ mode?: BulkMode }>(bulkRequestSchema, rest);
+
+  if (!Array.isArray(rawOperations) || rawOperations.length === 0) {
+    throw new ValidationError([
+      {
+        field: 'operations',
+        code: 'required',
+        message: 'operations must be a non-empty array',
+      },
+    ]);
+  }
+  if (rawOperations.length > BULK_MAX_OPERATIONS) {
+    throw new ValidationError([
+      {
+        field: 'operations',
+        code: 'too_long',
+        message: `operations must contain at most ${BULK_MAX_OPERATIONS} items`,
+      },
+    ]);
+  }
+
+  const operations: BulkOperation[] = [];
+  rawOperations.forEach((raw: unknown, index) => {
+    const prefix = `operations[${index}]`;
+    const { data, ...fields } =
+      raw && typeof raw === 'object' && !Array.isArray(raw)
+        ? (raw as Record<string, unknown>)
+        : { data: undefined };
+    const operation = collect(errors, prefix, () =>
+      validateBody<{
+        op: BulkOperation['op'];
+        id?: string;
+        version?: number;
+        scope?: RecurrenceScope;
+      }>(bulkOperationSchema, fields),
+    );
+    if (!operation) {
+      return;
+    }
+
+    const { op, id, version, scope } = operation;
+    if (op !== 'update' && scope !== undefined) {
+      errors.push({
+        field: `${prefix}.scope`,
+        code: 'invalid_value',
+        message: 'only update operations take a scope',
+      });
+      return;
+    }
+    if (op === 'create' && (id !== undefined || version !== undefined)) {
+      errors.push({
+        field: `${prefix}.id`,
+        code: 'invalid_value',
+        message: 'create operations cannot name an id or version',
+      });
+      return;
+    }
+    if (op !== 'create' && id === undefined) {
+      errors.push({
+        field: `${prefix}.id`,
+        code: 'required',
+        message: `${op} operations must name the task id`,
+      });
+      return;
+    }
+    if (op === 'delete') {
+      if (data !== undefined) {
+        errors.push({
+          field: `${prefix}.data`,
+          code: 'unknown_field',
+          message: 'delete operations take no data',
+        });
+        return;
+      }
+      operations.push({ op, id: id as string, version });
+      return;
+    }
+
+    const validated = collect(errors, `${prefix}.data`, () =>
+      validateBody<Partial<Task>>(
+        op === 'create' ? createTaskSchema : updateTaskSchema,
+        data,
+      ),
+    );
+    if (validated) {
+      operations.push(
+        op === 'create'
+          ? { op, data: validated }
+          : { op, id: id as string, data: validated, version, scope },
+      );
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return { mode: mode ?? 'atomic', operations };
+}
+
+// Interval of the comments sent on idle event streams, so proxies do not
+// close them
+const EVENT_STREAM_HEARTBEAT_MS = 15000;
+
+function parseLastEventId(header: string | undefined): number | undefined {
+  if (header === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(header.trim())) {
+    throw new ValidationError([
+      {
+        field: 'Last-Event-ID',
+        code: 'invalid_value',
+        message: 'Last-Event-ID must be an event id from this stream',
+      },
+    ]);
+  }
+  return Number(header);
+}
+
+function writeEvent(res: Response, event: TaskEvent): void {
+  res.write(
+    `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+  );
+}
+
+// 412 carrying the task's current representation so the client can retry
+// against it
+function preconditionFailed(res: Response, error: PreconditionFailedError) {
+  return res
+    .status(error.statusCode)
+    .set('ETag', taskETag(error.current))
+    .json({
+      error: error.message,
+      code: error.code,
+      current: error.current,
+    });
+}
 
 export function createTaskRouter(db: Database): Router {
   const router = Router();
-  const taskService = new TaskService(db);
-  const syncService = new SyncService(db, taskService);
+  // EventSource cannot send headers, so the event stream also takes a
+  // stream token in the query string
+  router.use((req, res, next) =>
+    req.method === 'GET' && req.path === '/events'
+      ? requireEventStreamAuth(req, res, next)
+      : requireAuth(req, res, next),
+  );
+  // Scoped to the authenticated user, so other users' tasks are not found
+  const tasksFor = (res: Response) => new TaskService(db, res.locals.userId);
+
+  // List tasks with filters, search, sorting and cursor pagination
+  router.get(
+    '/',
+    validateRequestQuery(listTasksQuery),
+    async (_req: Request, res: Response) => {
+      try {
+        const page = await tasksFor(res).listTasks(
+          res.locals.query as TaskQuery,
+        );
+        return res.json(page);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw error;
+        }
+        return res
+          .status(500)
+          .json({ error: 'Failed to fetch tasks', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
+
+  // Stream task changes as Server-Sent Events. A client reconnecting with
+  // Last-Event-ID first receives the events it missed, or a `reset` event
+  // when they are no longer in the log and it has to reload its tasks.
+  router.get('/events', async (req: Request, res: Response) => {
+    const lastEventId = parseLastEventId(req.get('Last-Event-ID'));
+    const events = new TaskEventService(db, res.locals.userId);
+
+    // Events published while missed ones are loaded are held back until
+    // those have been sent; ids filter out events that appear in both
+    let sentId = lastEventId ?? 0;
+    let heldBack: TaskEvent[] | null = [];
+    const send = (event: TaskEvent) => {
+      if (event.id > sentId) {
+        sentId = event.id;
+        writeEvent(res, event);
+      }
+    };
+    const unsubscribe = events.subscribe((event) =>
+      heldBack ? heldBack.push(event) : send(event),
+    );
+    const heartbeat = setInterval(
+      () => res.write(': heartbeat\n\n'),
+      EVENT_STREAM_HEARTBEAT_MS,
+    );
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    res
+      .status(200)
+      .set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      })
+      .flushHeaders();
 
-  // Get all tasks
-  router.get('/', async (req: Request, res: Response) => {
     try {
-      const tasks = await taskService.getAllTasks();
-      res.json(tasks);
+      if (lastEventId !== undefined) {
+        const missed = await events.since(lastEventId);
+        if (missed) {
+          missed.forEach(send);
+        } else {
+          sentId = await events.latestId();
+          res.write(`id: ${sentId}\nevent: reset\ndata: {}\n\n`);
+        }
+      }
     } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch tasks' });
+      // Headers are already sent; the client reconnects and tries again
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+      return;
     }
+    heldBack.forEach(send);
+    heldBack = null;
+  });
+
+  // Short-lived token for opening the event stream without an Authorization
+  // header, as browsers' EventSource has to
+  router.post('/events/token', (_req: Request, res: Response) => {
+    res.json({
+      token: signEventStreamToken(res.locals.userId),
+      expires_in: EVENT_STREAM_TOKEN_TTL_SECONDS,
+    });
   });
 
+  // Download every task as JSON, CSV or iCalendar, streamed a page at a time
+  router.get(
+    '/export',
+    validateRequestQuery({
+      format: { type: 'string', enum: TASK_FORMATS },
+      include_deleted: { type: 'boolean' },
+    }),
+    async (_req: Request, res: Response) => {
+      const { format = 'json', include_deleted } = res.locals.query as {
+        format?: TaskFormat;
+        include_deleted?: boolean;
+      };
+      const chunks = serializeTasks(
+        format,
+        tasksFor(res).exportTasks({ includeDeleted: include_deleted }),
+      );
+      try {
+        // Read the first chunk before sending headers, so a failure can
+        // still be reported as an error response
+        let chunk = await chunks.next();
+        res.status(200).set({
+          'Content-Type': `${CONTENT_TYPES[format]}; charset=utf-8`,
+          'Content-Disposition': `attachment; filename="tasks.${format}"`,
+        });
+        while (!chunk.done) {
+          res.write(chunk.value);
+          chunk = await chunks.next();
+        }
+        return res.end();
+      } catch (error) {
+        if (res.headersSent) {
+          return res.end();
+        }
+        return res
+          .status(500)
+          .json({ error: 'Failed to export tasks', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
+
+  // Import a JSON, CSV or iCalendar file. The format is taken from the
+  // query, else from Content-Type. Invalid rows are reported and the rest
+  // are created; rows already imported are recognised by their external id.
+  router.post(
+    '/import',
+    express.text({
+      type: ['text/csv', 'text/calendar', 'text/plain'],
+      limit: IMPORT_MAX_SIZE,
+    }),
+    validateRequestQuery({
+      format: { type: 'string', enum: TASK_FORMATS },
+    }),
+    async (req: Request, res: Response) => {
+      const { format: requested } = res.locals.query as {
+        format?: TaskFormat;
+      };
+      const format =
+        requested ??
+        (req.is('text/csv') ? 'csv' : req.is('text/calendar') ? 'ics' : 'json');
+      try {
+        const { valid, rejected } = validateImportRows(
+          parseTasks(format, req.body),
+        );
+        const created = await tasksFor(res).importTasks(valid);
+        const results = [...created, ...rejected].sort((a, b) => a.row - b.row);
+        const count = (status: ImportRowResult['status']) =>
+          results.filter((r) => r.status === status).length;
+        const result: ImportResult = {
+          format,
+          created: count('created'),
+          duplicates: count('duplicate'),
+          skipped: count('skipped'),
+          invalid: count('invalid'),
+          results,
+        };
+        return res.json(result);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw error;
+        }
+        return res
+          .status(500)
+          .json({ error: 'Failed to import tasks', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
+
   // Get single task
   router.get('/:id', async (req: Request, res: Response) => {
     try {
-      const task = await taskService.getTask(req.params.id);
+      const task = await tasksFor(res).getTask(req.params.id);
       if (!task) {
-        return res.status(404).json({ error: 'Task not found' });
+        return res
+          .status(404)
+          .json({ error: 'Task not found', code: 'NOT_FOUND' });
       }
-      res.json(task);
+      // Express answers If-None-Match with 304 once the ETag is set
+      return res.set('ETag', taskETag(task)).json(task);
     } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch task' });
+      return res
+        .status(500)
+        .json({ error: 'Failed to fetch task', code: 'INTERNAL_ERROR' });
     }
   });
 
   // Create task
-  router.post('/', async (req: Request, res: Response) => {
-    // TODO: Implement task creation endpoint
-    // 1. Validate request body
-    // 2. Call taskService.createTask()
-    // 3. Return created task
-    res.status(501).json({ error: 'Not implemented' });
-  });
+  router.post(
+    '/',
+    validateRequestBody(createTaskSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const task = await tasksFor(res).createTask(req.body as TaskInput);
+        return res.status(201).set('ETag', taskETag(task)).json(task);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw error;
+        }
+        return res
+          .status(500)
+          .json({ error: 'Failed to create task', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
 
-  // Update task
-  router.put('/:id', async (req: Request, res: Response) => {
-    // TODO: Implement task update endpoint
-    // 1. Validate request body
-    // 2. Call taskService.updateTask()
-    // 3. Handle not found case
-    // 4. Return updated task
-    res.status(501).json({ error: 'Not implemented' });
+  // Apply a list of create, update and delete operations in one transaction
+  router.post('/bulk', async (req: Request, res: Response) => {
+    try {
+      const { mode, operations } = validateBulkRequest(req.body);
+      const result = await tasksFor(res).bulk(operations, mode);
+      if (mode === 'atomic' && !result.success) {
+        return res.status(422).json({
+          error: 'Bulk request rolled back because an operation failed',
+          code: 'BULK_FAILED',
+          ...result,
+        });
+      }
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      return res.status(500).json({
+        error: 'Failed to apply bulk request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
   });
 
-  // Delete task
+  // Update task, honouring If-Match; scope applies to recurring tasks
+  router.put(
+    '/:id',
+    validateRequestBody(updateTaskSchema),
+    validateRequestQuery({
+      scope: { type: 'string', enum: RECURRENCE_SCOPES },
+    }),
+    async (req: Request, res: Response) => {
+      try {
+        const { scope } = res.locals.query as { scope?: RecurrenceScope };
+        const task = await tasksFor(res).updateTask(
+          req.params.id,
+          req.body as Partial<TaskInput>,
+          parseIfMatch(req.get('If-Match')),
+          scope,
+        );
+        if (!task) {
+          return res
+            .status(404)
+            .json({ error: 'Task not found', code: 'NOT_FOUND' });
+        }
+        return res.set('ETag', taskETag(task)).json(task);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw error;
+        }
+        if (error instanceof PreconditionFailedError) {
+          return preconditionFailed(res, error);
+        }
+        return res
+          .status(500)
+          .json({ error: 'Failed to update task', code: 'INTERNAL_ERROR' });
+      }
+    },
+  );
+
+  // Delete task, honouring If-Match
   router.delete('/:id', async (req: Request, res: Response) => {
-    // TODO: Implement task deletion endpoint
-    // 1. Call taskService.deleteTask()
-    // 2. Handle not found case
-    // 3. Return success response
-    res.status(501).json({ error: 'Not implemented' });
+    try {
+      const deleted = await tasksFor(res).deleteTask(
+        req.params.id,
+        parseIfMatch(req.get('If-Match')),
+      );
+      if (!deleted) {
+        return res
+          .status(404)
+          .json({ error: 'Task not found', code: 'NOT_FOUND' });
+      }
+      return res.status(204).send();
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        return preconditionFailed(res, error);
+      }
+      return res
+        .status(500)
+        .json({ error: 'Failed to delete task', code: 'INTERNAL_ERROR' });
+    }
+  });
+
+  // Revisions of a task, newest first; deleted tasks keep their history
+  router.get(
+    '/:id/history',
+    validateRequestQuery({
+      limit: { type: 'integer', min: 0, max: MAX_PAGE_SIZE },
+      offset: { type: 'integer', min: 0 },
+    }),
+    async (req: Request, res: Response) => {
+      try {
+        const page = await tasksFor(res).getHistory(
+          req.params.id,
+          res.locals.query as { limit?: number; offset?: number },
+        );
+        if (!page) {
+          return res
+            .status(404)
+            .json({ error: 'Task not found', code: 'NOT_FOUND' });
+        }
+        return res.json(page);
+      } catch (error) {
+        return res.status(500).json({
+          error: 'Failed to fetch task history',
+          code: 'INTERNAL_ERROR',
+        });
+      }
+    },
+  );
+
+  // Restore a revision, or undelete, as a new edit; honours If-Match. The
+  // body is optional, so it is validated here rather than by middleware.
+  router.post('/:id/restore', async (req: Request, res: Response) => {
+    try {
+      const { revision_id } = validateBody<{ revision_id?: string }>(
+        restoreTaskSchema,
+        req.body ?? {},
+      );
+      const task = await tasksFor(res).restoreRevision(
+        req.params.id,
+        revision_id,
+        parseIfMatch(req.get('If-Match')),
+      );
+      if (!task) {
+        return res
+          .status(404)
+          .json({ error: 'Task not found', code: 'NOT_FOUND' });
+      }
+      return res.set('ETag', taskETag(task)).json(task);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      if (error instanceof PreconditionFailedError) {
+        return preconditionFailed(res, error);
+      }
+      if (error instanceof RestoreError) {
+        return res.status(error.statusCode).json({
+          error: error.message,
+          code: error.statusCode === 404 ? 'NOT_FOUND' : 'CONFLICT',
+        });
+      }
+      return res
+        .status(500)
+        .json({ error: 'Failed to restore task', code: 'INTERNAL_ERROR' });
+    }
   });
 
   return router;
-}
\ No newline at end of file
+}
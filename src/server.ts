@@ -4,7 +4,16 @@ import dotenv from 'dotenv';
 import { Database } from './db/database';
 import { createTaskRouter } from './routes/tasks';
 import { createSyncRouter } from './routes/sync';
+import { createDeadLetterRouter } from './routes/deadLetters';
+import { createConflictRouter } from './routes/conflicts';
+import { createAuthRouter } from './routes/auth';
+import { createDeviceRouter } from './routes/devices';
+import { createAdminRouter } from './routes/admin';
 import { errorHandler } from './middleware/errorHandler';
+import { TaskService } from './services/taskService';
+import { SyncService } from './services/syncService';
+import { SyncScheduler } from './services/syncScheduler';
+import { RetentionService } from './services/retentionService';
 
 dotenv.config();
 
@@ -18,9 +27,20 @@ app.use(express.json());
 // Initialize database
 const db = new Database(process.env.DATABASE_URL || './data/tasks.sqlite3');
 
-// Routes
+// Background sync
+const syncService = new SyncService(db, new TaskService(db));
+const scheduler = new SyncScheduler(syncService, db);
+const retention = new RetentionService(db);
+
+// Routes. Everything except /api/auth and /api/health requires a bearer
+// token.
+app.use('/api/auth', createAuthRouter(db));
 app.use('/api/tasks', createTaskRouter(db));
-app.use('/api', createSyncRouter(db));
+app.use('/api/devices', createDeviceRouter(db));
+app.use('/api/sync/dead-letters', createDeadLetterRouter(db));
+app.use('/api/sync/conflicts', createConflictRouter(db));
+app.use('/api/admin', createAdminRouter(db, retention));
+app.use('/api', createSyncRouter(db, scheduler));
 
 // Error handling
 app.use(errorHandler);
@@ -30,9 +50,18 @@ async function start() {
   try {
     await db.initialize();
     console.log('Database initialized');
-    
+    // Queue items claimed by a sync run that was cut short by a crash
+    const recovered = await syncService.recoverExpiredLeases();
+    if (recovered > 0) {
+      console.log(
+        `Recovered ${recovered} sync queue items from expired leases`,
+      );
+    }
+
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
+      scheduler.start();
+      retention.start();
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -45,6 +74,8 @@ start();
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  await scheduler.stop();
+  retention.stop();
   await db.close();
   process.exit(0);
-});
\ No newline at end of file
+});
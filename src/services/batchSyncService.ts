@@ -0,0 +1,574 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Task,
+  SyncQueueItem,
+  BatchSyncRequest,
+  BatchSyncResponse,
+  ProcessedSyncItem,
+  ChangesResponse,
+  TaskPriority,
+} from '../types';
+import { Database } from '../db/database';
+import { computeBatchChecksum } from '../utils/checksum';
+import { CHALLENGE_CONSTRAINTS } from '../utils/challenge-constraints';
+import { compareHlc, hlcFromDate, isHlc } from '../utils/hlc';
+import { ClockService } from './clockService';
+import { DeviceService } from './deviceService';
+
+export class BatchSyncError extends Error {
+  constructor(
+    public code:
+      | 'INVALID_BATCH'
+      | 'CHECKSUM_MISMATCH'
+      | 'UNKNOWN_DEVICE'
+      | 'DEVICE_REVOKED',
+    message: string,
+    public statusCode: number = 400,
+  ) {
+    super(message);
+    this.name = 'BatchSyncError';
+  }
+}
+
+interface ServerTaskRow {
+  id: string;
+  client_id: string;
+  user_id: string | null;
+  title: string;
+  description: string | null;
+  completed: number;
+  created_at: string;
+  updated_at: string;
+  is_deleted: number;
+  last_operation: SyncQueueItem['operation'];
+  server_modified_at: string;
+  version: number;
+  hlc: string | null;
+  due_at: string | null;
+  priority: TaskPriority | null;
+  // JSON array
+  tags: string | null;
+  parent_task_id: string | null;
+  recurrence: string | null;
+  series_id: string | null;
+  occurrence_at: string | null;
+  // JSON object
+  series_template: string | null;
+}
+
+function isoDate(value: Date | string | null | undefined): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+// Clock timestamp of a change; items from clients that predate clocks fall
+// back to their wall-clock time
+function itemClock(item: SyncQueueItem): string {
+  return item.hlc ?? hlcFromDate(item.data.updated_at ?? item.created_at);
+}
+
+// Server side of the sync protocol: applies batches sent by
+// SyncService.processBatch to the server_tasks table and serves the change
+// feed that SyncService pulls from. Given a user, only that user's tasks can
+// be read or written; other users' tasks behave as if they did not exist.
+// Batches must come from one of the user's registered, unrevoked devices.
+export class BatchSyncService {
+  private clock: ClockService;
+  private devices: DeviceService;
+
+  constructor(
+    private db: Database,
+    private userId?: string,
+  ) {
+    this.clock = new ClockService(db);
+    this.devices = new DeviceService(db, userId);
+  }
+
+  async processBatch(request: BatchSyncRequest): Promise<BatchSyncResponse> {
+    if (!request || !Array.isArray(request.items)) {
+      throw new BatchSyncError('INVALID_BATCH', 'Batch must contain items');
+    }
+    if (typeof request.device_id !== 'string' || !request.device_id) {
+      throw new BatchSyncError(
+        'INVALID_BATCH',
+        'Batch must include a device_id',
+      );
+    }
+    await this.authorizeDevice(request.device_id);
+    if (request.checksum !== computeBatchChecksum(request.items)) {
+      throw new BatchSyncError(
+        'CHECKSUM_MISMATCH',
+        'Batch checksum does not match the included items',
+      );
+    }
+    const stamps = [request.hlc, ...request.items.map((item) => item.hlc)];
+    if (stamps.some((hlc) => hlc !== undefined && !isHlc(hlc))) {
+      throw new BatchSyncError(
+        'INVALID_BATCH',
+        'Batch contains a malformed HLC timestamp',
+      );
+    }
+    if (
+      request.idempotency_key !== undefined &&
+      (typeof request.idempotency_key !== 'string' || !request.idempotency_key)
+    ) {
+      throw new BatchSyncError(
+        'INVALID_BATCH',
+        'idempotency_key must be a non-empty string',
+      );
+    }
+    // Stamps are stored with the changes and decide last-write-wins, so a
+    // client whose clock runs far ahead would win every comparison
+    for (const hlc of stamps) {
+      if (hlc !== undefined && (await this.clock.runsAhead(hlc))) {
+        throw new BatchSyncError(
+          'INVALID_BATCH',
+          'Batch contains an HLC timestamp too far ahead of the server clock',
+        );
+      }
+    }
+    for (const hlc of stamps) {
+      await this.clock.receive(hlc);
+    }
+
+    const replayed = await this.processedBatch(request);
+    if (replayed) {
+      await this.devices.recordSync(request.device_id);
+      return { processed_items: replayed, hlc: await this.clock.now() };
+    }
+
+    // Stable sort keeps operations for the same task in causal order
+    const ordered = request.items
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => compareHlc(itemClock(a.item), itemClock(b.item)));
+
+    const results = await this.db.transaction(() =>
+      this.applyItems(request, ordered),
+    );
+    await this.devices.recordSync(request.device_id);
+    return { processed_items: results, hlc: await this.clock.now() };
+  }
+
+  // Applies the batch's items and, when every item was accepted, records the
+  // results under its idempotency key, all in one transaction
+  private async applyItems(
+    request: BatchSyncRequest,
+    ordered: { item: SyncQueueItem; index: number }[],
+  ): Promise<ProcessedSyncItem[]> {
+    const results: ProcessedSyncItem[] = new Array(request.items.length);
+    const failedTasks = new Set<string>();
+    // Later operations for a conflicting task were made on top of the losing
+    // edit, so they are reported as conflicts too instead of being applied
+    const conflictedTasks = new Map<string, ProcessedSyncItem>();
+
+    for (const { item, index } of ordered) {
+      if (failedTasks.has(item.task_id)) {
+        results[index] = {
+          client_id: item.task_id,
+          server_id: '',
+          status: 'error',
+          error: 'Skipped: an earlier operation for this task failed',
+        };
+        continue;
+      }
+      const conflict = conflictedTasks.get(item.task_id);
+      if (conflict) {
+        results[index] = conflict;
+        continue;
+      }
+
+      results[index] = await this.processItem(item);
+      if (results[index].status === 'error') {
+        failedTasks.add(item.task_id);
+      } else if (results[index].status === 'conflict') {
+        conflictedTasks.set(item.task_id, results[index]);
+      }
+    }
+
+    // A batch with rejected items is not recorded; resending it retries them
+    if (
+      request.idempotency_key &&
+      results.every((result) => result.status !== 'error')
+    ) {
+      await this.db.run(
+        `INSERT INTO server_processed_batches
+           (idempotency_key, user_id, checksum, response, processed_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(idempotency_key) DO UPDATE SET
+           user_id = excluded.user_id,
+           checksum = excluded.checksum,
+           response = excluded.response,
+           processed_at = excluded.processed_at
+         WHERE server_processed_batches.user_id IS excluded.user_id`,
+        [
+          request.idempotency_key,
+          this.userId ?? null,
+          request.checksum,
+          JSON.stringify(results),
+          new Date().toISOString(),
+        ],
+      );
+    }
+    return results;
+  }
+
+  // Results recorded for a batch resent with the same idempotency key and
+  // items, e.g. by a client that crashed before it handled the response.
+  // Replaying them keeps the batch from being applied twice.
+  private async processedBatch(
+    request: BatchSyncRequest,
+  ): Promise<ProcessedSyncItem[] | null> {
+    if (!request.idempotency_key) {
+      return null;
+    }
+    const row = await this.db.get(
+      `SELECT response FROM server_processed_batches
+       WHERE idempotency_key = ? AND user_id IS ? AND checksum = ?`,
+      [request.idempotency_key, this.userId ?? null, request.checksum],
+    );
+    return row ? JSON.parse(row.response) : null;
+  }
+
+  // Tasks written at or after `since`, oldest first. The boundary is
+  // inclusive because writes can share a millisecond with the watermark;
+  // clients apply changes idempotently, so a repeated change is harmless.
+  // Given a device, the response's server_timestamp is stored as its cursor.
+  async getChanges(since?: Date, deviceId?: string): Promise<ChangesResponse> {
+    if (deviceId !== undefined) {
+      await this.authorizeDevice(deviceId);
+    }
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (since) {
+      conditions.push('server_modified_at >= ?');
+      params.push(since.toISOString());
+    }
+    if (this.userId !== undefined) {
+      conditions.push('user_id = ?');
+      params.push(this.userId);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows: ServerTaskRow[] = await this.db.all(
+      `SELECT * FROM server_tasks ${where} ORDER BY server_modified_at, id`,
+      params,
+    );
+
+    const last = rows[rows.length - 1];
+    const response: ChangesResponse = {
+      changes: rows.map((row) => ({
+        client_id: row.client_id,
+        server_id: row.id,
+        task: BatchSyncService.toTask(row),
+        server_modified_at: new Date(row.server_modified_at),
+      })),
+      server_timestamp: last
+        ? new Date(last.server_modified_at)
+        : (since ?? new Date(0)),
+    };
+    if (deviceId !== undefined) {
+      await this.devices.recordPull(deviceId, response.server_timestamp);
+    }
+    return response;
+  }
+
+  // Other users' devices are reported as unknown, like their tasks
+  private async authorizeDevice(deviceId: string): Promise<void> {
+    const device = await this.devices.get(deviceId);
+    if (!device) {
+      throw new BatchSyncError('UNKNOWN_DEVICE', 'Device is not registered');
+    }
+    if (device.revoked_at) {
+      throw new BatchSyncError(
+        'DEVICE_REVOKED',
+        'Device has been revoked',
+        403,
+      );
+    }
+  }
+
+  private async processItem(item: SyncQueueItem): Promise<ProcessedSyncItem> {
+    // Item ids are chosen by clients, so results are kept per account
+    const processed = await this.db.get(
+      'SELECT result FROM server_processed_items WHERE item_id = ? AND user_id IS ?',
+      [item.id, this.userId ?? null],
+    );
+    if (processed) {
+      return JSON.parse(processed.result);
+    }
+
+    let result: ProcessedSyncItem;
+    try {
+      result = await this.applyItem(item);
+    } catch (error) {
+      // Errors are not recorded so the item can be retried
+      return {
+        client_id: item.task_id,
+        server_id: '',
+        status: 'error',
+        error: (error as Error).message,
+      };
+    }
+
+    await this.db.run(
+      `INSERT INTO server_processed_items (item_id, client_id, user_id, result, processed_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        item.id,
+        item.task_id,
+        this.userId ?? null,
+        JSON.stringify(result),
+        new Date().toISOString(),
+      ],
+    );
+    return result;
+  }
+
+  private async applyItem(item: SyncQueueItem): Promise<ProcessedSyncItem> {
+    const existing: ServerTaskRow | undefined = await this.db.get(
+      'SELECT * FROM server_tasks WHERE client_id = ?',
+      [item.task_id],
+    );
+    if (
+      existing &&
+      this.userId !== undefined &&
+      existing.user_id !== this.userId
+    ) {
+      // Reported like a missing task so ids of other users' tasks are not
+      // revealed
+      throw new Error('Task not found on server');
+    }
+
+    if (!existing) {
+      if (!item.data.title) {
+        throw new Error('Task not found on server and no title to create it');
+      }
+      const created = await this.insertTask(item);
+      return this.success(created);
+    }
+
+    if (this.serverVersionWins(existing, item)) {
+      return {
+        client_id: item.task_id,
+        server_id: existing.id,
+        status: 'conflict',
+        resolved_data: BatchSyncService.toTask(existing),
+      };
+    }
+
+    const updated = await this.updateTask(existing, item);
+    return this.success(updated);
+  }
+
+  // A change made against an older version than the server holds conflicts.
+  // Items without a base version fall back to clock timestamps: the change
+  // loses when the server copy is newer, or when the timestamps tie and the
+  // server's last operation has a higher priority.
+  private serverVersionWins(
+    existing: ServerTaskRow,
+    item: SyncQueueItem,
+  ): boolean {
+    if (item.base_version !== undefined && item.base_version !== null) {
+      return existing.version !== item.base_version;
+    }
+
+    const order = compareHlc(
+      existing.hlc ?? hlcFromDate(existing.updated_at),
+      itemClock(item),
+    );
+    if (order !== 0) {
+      return order > 0;
+    }
+
+    const priority = CHALLENGE_CONSTRAINTS.CONFLICT_PRIORITY;
+    return priority[existing.last_operation] > priority[item.operation];
+  }
+
+  private async insertTask(item: SyncQueueItem): Promise<ServerTaskRow> {
+    const now = new Date().toISOString();
+    const row: ServerTaskRow = {
+      id: `srv_${uuidv4()}`,
+      client_id: item.task_id,
+      user_id: this.userId ?? null,
+      title: item.data.title as string,
+      description: item.data.description ?? null,
+      completed: item.data.completed ? 1 : 0,
+      created_at: item.data.created_at
+        ? new Date(item.data.created_at).toISOString()
+        : now,
+      updated_at: item.data.updated_at
+        ? new Date(item.data.updated_at).toISOString()
+        : now,
+      is_deleted: item.operation === 'delete' || item.data.is_deleted ? 1 : 0,
+      last_operation: item.operation,
+      server_modified_at: now,
+      version: item.data.version ?? 1,
+      hlc: itemClock(item),
+      due_at: isoDate(item.data.due_at),
+      priority: item.data.priority ?? null,
+      tags: JSON.stringify(item.data.tags ?? []),
+      parent_task_id: item.data.parent_task_id ?? null,
+      recurrence: item.data.recurrence ?? null,
+      series_id: item.data.series_id ?? null,
+      occurrence_at: isoDate(item.data.occurrence_at),
+      series_template: item.data.series_template
+        ? JSON.stringify(item.data.series_template)
+        : null,
+    };
+
+    await this.db.run(
+      `INSERT INTO server_tasks (id, client_id, user_id, title, description, completed, created_at, updated_at, is_deleted, last_operation, server_modified_at, version, hlc, due_at, priority, tags, parent_task_id, recurrence, series_id, occurrence_at, series_template)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        row.id,
+        row.client_id,
+        row.user_id,
+        row.title,
+        row.description,
+        row.completed,
+        row.created_at,
+        row.updated_at,
+        row.is_deleted,
+        row.last_operation,
+        row.server_modified_at,
+        row.version,
+        row.hlc,
+        row.due_at,
+        row.priority,
+        row.tags,
+        row.parent_task_id,
+        row.recurrence,
+        row.series_id,
+        row.occurrence_at,
+        row.series_template,
+      ],
+    );
+    return row;
+  }
+
+  private async updateTask(
+    existing: ServerTaskRow,
+    item: SyncQueueItem,
+  ): Promise<ServerTaskRow> {
+    const row: ServerTaskRow = {
+      ...existing,
+      title: item.data.title ?? existing.title,
+      description:
+        item.data.description !== undefined
+          ? item.data.description
+          : existing.description,
+      completed:
+        item.data.completed !== undefined
+          ? Number(item.data.completed)
+          : existing.completed,
+      due_at:
+        item.data.due_at !== undefined
+          ? isoDate(item.data.due_at)
+          : existing.due_at,
+      priority:
+        item.data.priority !== undefined
+          ? (item.data.priority ?? null)
+          : existing.priority,
+      tags:
+        item.data.tags !== undefined
+          ? JSON.stringify(item.data.tags ?? [])
+          : existing.tags,
+      parent_task_id:
+        item.data.parent_task_id !== undefined
+          ? (item.data.parent_task_id ?? null)
+          : existing.parent_task_id,
+      recurrence:
+        item.data.recurrence !== undefined
+          ? (item.data.recurrence ?? null)
+          : existing.recurrence,
+      series_id:
+        item.data.series_id !== undefined
+          ? (item.data.series_id ?? null)
+          : existing.series_id,
+      occurrence_at:
+        item.data.occurrence_at !== undefined
+          ? isoDate(item.data.occurrence_at)
+          : existing.occurrence_at,
+      series_template:
+        item.data.series_template !== undefined
+          ? JSON.stringify(item.data.series_template)
+          : existing.series_template,
+      updated_at: item.data.updated_at
+        ? new Date(item.data.updated_at).toISOString()
+        : new Date().toISOString(),
+      // An update carrying is_deleted = false restores a deleted task
+      is_deleted:
+        item.operation === 'delete'
+          ? 1
+          : item.data.is_deleted !== undefined
+            ? Number(item.data.is_deleted)
+            : existing.is_deleted,
+      last_operation: item.operation,
+      server_modified_at: new Date().toISOString(),
+      // Clients number their edits on top of the base version; compacted
+      // edits may skip numbers, but versions only ever increase
+      version: Math.max(existing.version + 1, item.data.version ?? 0),
+      hlc: itemClock(item),
+    };
+
+    await this.db.run(
+      `UPDATE server_tasks
+       SET title = ?, description = ?, completed = ?, updated_at = ?, is_deleted = ?, last_operation = ?, server_modified_at = ?, version = ?, hlc = ?, due_at = ?, priority = ?, tags = ?, parent_task_id = ?, recurrence = ?, series_id = ?, occurrence_at = ?, series_template = ?
+       WHERE id = ?`,
+      [
+        row.title,
+        row.description,
+        row.completed,
+        row.updated_at,
+        row.is_deleted,
+        row.last_operation,
+        row.server_modified_at,
+        row.version,
+        row.hlc,
+        row.due_at,
+        row.priority,
+        row.tags,
+        row.parent_task_id,
+        row.recurrence,
+        row.series_id,
+        row.occurrence_at,
+        row.series_template,
+        row.id,
+      ],
+    );
+    return row;
+  }
+
+  private success(row: ServerTaskRow): ProcessedSyncItem {
+    return {
+      client_id: row.client_id,
+      server_id: row.id,
+      status: 'success',
+      resolved_data: BatchSyncService.toTask(row),
+    };
+  }
+
+  static toTask(row: ServerTaskRow): Task {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description ?? undefined,
+      completed: Boolean(row.completed),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      is_deleted: Boolean(row.is_deleted),
+      version: row.version,
+      hlc: row.hlc ?? hlcFromDate(row.updated_at),
+      due_at: row.due_at ? new Date(row.due_at) : undefined,
+      priority: row.priority ?? undefined,
+      tags: row.tags ? JSON.parse(row.tags) : [],
+      parent_task_id: row.parent_task_id ?? undefined,
+      recurrence: row.recurrence ?? undefined,
+      series_id: row.series_id ?? undefined,
+      occurrence_at: row.occurrence_at
+        ? new Date(row.occurrence_at)
+        : undefined,
+      series_template: row.series_template
+        ? JSON.parse(row.series_template)
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../db/database';
+import { HybridLogicalClock } from '../utils/hlc';
+import { envNumber } from '../utils/env';
+
+// sync_state keys holding this database's node id and the last timestamp
+// its clock issued
+const NODE_KEY = 'hlc_node';
+const LAST_KEY = 'hlc_last';
+
+// How far ahead of this node's wall clock a received timestamp may be
+const MAX_DRIFT_MS = envNumber('HLC_MAX_DRIFT_MS', 24 * 60 * 60 * 1000);
+
+// One clock per database, shared by every service using it
+const clocks = new WeakMap<Database, Promise<HybridLogicalClock>>();
+
+// Hybrid logical clock of a database. The last issued timestamp is
+// persisted, so the clock never runs backwards across restarts even when the
+// device's wall clock does.
+export class ClockService {
+  constructor(private db: Database) {}
+
+  async now(): Promise<string> {
+    const clock = await this.load();
+    return this.persist(clock.now());
+  }
+
+  // Whether the timestamp is further ahead of the wall clock than
+  // HLC_MAX_DRIFT_MS allows
+  async runsAhead(remote: string): Promise<boolean> {
+    const clock = await this.load();
+    return clock.runsAhead(remote);
+  }
+
+  // Advances the clock past a timestamp received from another node, at most
+  // HLC_MAX_DRIFT_MS ahead of the wall clock
+  async receive(remote: string | undefined | null): Promise<void> {
+    if (!remote) {
+      return;
+    }
+    const clock = await this.load();
+    await this.persist(clock.receive(remote));
+  }
+
+  private load(): Promise<HybridLogicalClock> {
+    let clock = clocks.get(this.db);
+    if (!clock) {
+      clock = this.restore();
+      clocks.set(this.db, clock);
+    }
+    return clock;
+  }
+
+  private async restore(): Promise<HybridLogicalClock> {
+    let node = (
+      await this.db.get('SELECT value FROM sync_state WHERE key = ?', [
+        NODE_KEY,
+      ])
+    )?.value;
+    if (!node) {
+      node = uuidv4();
+      await this.db.run('INSERT INTO sync_state (key, value) VALUES (?, ?)', [
+        NODE_KEY,
+        node,
+      ]);
+    }
+    const last = await this.db.get(
+      'SELECT value FROM sync_state WHERE key = ?',
+      [LAST_KEY],
+    );
+    return new HybridLogicalClock(
+      node,
+      last?.value,
+      () => Date.now(),
+      MAX_DRIFT_MS,
+    );
+  }
+
+  // Timestamps compare as strings, so MAX keeps the latest one even when
+  // writes land out of order
+  private async persist(timestamp: string): Promise<string> {
+    await this.db.run(
+      `INSERT INTO sync_state (key, value) VALUES (?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = MAX(value, excluded.value)`,
+      [LAST_KEY, timestamp],
+    );
+    return timestamp;
+  }
+}
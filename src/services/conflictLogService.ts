@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Task,
+  ConflictLogEntry,
+  ConflictLogFilter,
+  ConflictResolution,
+  Page,
+} from '../types';
+import { Database } from '../db/database';
+import { TaskRepository } from '../db/repositories/taskRepository';
+import { TaskService } from './taskService';
+
+export class ConflictOverrideError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 409,
+  ) {
+    super(message);
+    this.name = 'ConflictOverrideError';
+  }
+}
+
+// Given a user, only conflicts on that user's tasks are visible
+export class ConflictLogService {
+  private taskService: TaskService;
+
+  constructor(
+    private db: Database,
+    private userId?: string,
+  ) {
+    this.taskService = new TaskService(db, userId);
+  }
+
+  async record(
+    taskId: string,
+    local: Task,
+    server: Task,
+    resolution: ConflictResolution,
+  ): Promise<ConflictLogEntry> {
+    const entry: ConflictLogEntry = {
+      id: uuidv4(),
+      task_id: taskId,
+      strategy: resolution.strategy,
+      winner: resolution.winner,
+      reason: resolution.reason,
+      local_data: local,
+      server_data: server,
+      resolved_data: resolution.resolved_task,
+      created_at: new Date(),
+    };
+
+    await this.db.run(
+      `INSERT INTO sync_conflicts (id, task_id, strategy, winner, reason, local_data, server_data, resolved_data, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        entry.task_id,
+        entry.strategy,
+        entry.winner,
+        entry.reason,
+        JSON.stringify(entry.local_data),
+        JSON.stringify(entry.server_data),
+        JSON.stringify(entry.resolved_data),
+        entry.created_at.toISOString(),
+      ],
+    );
+
+    return entry;
+  }
+
+  async list(filter: ConflictLogFilter = {}): Promise<Page<ConflictLogEntry>> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (this.userId !== undefined) {
+      conditions.push('task_id IN (SELECT id FROM tasks WHERE user_id = ?)');
+      params.push(this.userId);
+    }
+    if (filter.task_id) {
+      conditions.push('task_id = ?');
+      params.push(filter.task_id);
+    }
+    if (filter.strategy) {
+      conditions.push('strategy = ?');
+      params.push(filter.strategy);
+    }
+    if (filter.from) {
+      conditions.push('created_at >= ?');
+      params.push(filter.from.toISOString());
+    }
+    if (filter.to) {
+      conditions.push('created_at <= ?');
+      params.push(filter.to.toISOString());
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ?? 50;
+    const offset = filter.offset ?? 0;
+    const total = await this.db.get(
+      `SELECT COUNT(*) AS count FROM sync_conflicts ${where}`,
+      params,
+    );
+    const rows = await this.db.all(
+      `SELECT * FROM sync_conflicts ${where} ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset],
+    );
+
+    return {
+      items: rows.map(ConflictLogService.fromRow),
+      total: total.count,
+      limit,
+      offset,
+    };
+  }
+
+  async get(id: string): Promise<ConflictLogEntry | null> {
+    const row = await this.db.get(
+      this.userId !== undefined
+        ? `SELECT * FROM sync_conflicts
+           WHERE id = ? AND task_id IN (SELECT id FROM tasks WHERE user_id = ?)`
+        : 'SELECT * FROM sync_conflicts WHERE id = ?',
+      this.userId !== undefined ? [id, this.userId] : [id],
+    );
+    return row ? ConflictLogService.fromRow(row) : null;
+  }
+
+  // Reverses an automatic decision: the version that lost is written back as
+  // a new local edit, which queues it for the next sync. Runs in one
+  // transaction, so concurrent overrides of a conflict restore it only once.
+  async override(id: string): Promise<ConflictLogEntry | null> {
+    return this.db.transaction(async () => {
+      const entry = await this.get(id);
+      if (!entry) {
+        return null;
+      }
+      if (entry.overridden_at) {
+        throw new ConflictOverrideError('Conflict has already been overridden');
+      }
+
+      const losing =
+        entry.winner === 'server' ? entry.local_data : entry.server_data;
+      const restored = await this.taskService.restoreTask(
+        entry.task_id,
+        losing,
+      );
+      if (!restored) {
+        throw new ConflictOverrideError('Task no longer exists', 404);
+      }
+
+      const overriddenAt = new Date();
+      const { changes } = await this.db.run(
+        `UPDATE sync_conflicts SET overridden_at = ?
+         WHERE id = ? AND overridden_at IS NULL`,
+        [overriddenAt.toISOString(), id],
+      );
+      if (changes === 0) {
+        throw new ConflictOverrideError('Conflict has already been overridden');
+      }
+      return { ...entry, overridden_at: overriddenAt };
+    });
+  }
+
+  static fromRow(row: any): ConflictLogEntry {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      strategy: row.strategy,
+      winner: row.winner,
+      reason: row.reason,
+      local_data: TaskRepository.fromRow(JSON.parse(row.local_data)),
+      server_data: TaskRepository.fromRow(JSON.parse(row.server_data)),
+      resolved_data: TaskRepository.fromRow(JSON.parse(row.resolved_data)),
+      created_at: new Date(row.created_at),
+      overridden_at: row.overridden_at
+        ? new Date(row.overridden_at)
+        : undefined,
+    };
+  }
+}
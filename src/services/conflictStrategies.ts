@@ -0,0 +1,212 @@
+import { Task, ConflictResolution, ConflictStrategyName } from '../types';
+import { compareHlc } from '../utils/hlc';
+
+export interface ConflictContext {
+  local: Task;
+  server: Task;
+  // The queued change that conflicted and the values it was made against.
+  // Without a base, field-level merging falls back to last-write-wins.
+  change?: Partial<Task>;
+  base?: Partial<Task>;
+}
+
+export interface ConflictStrategy {
+  name: ConflictStrategyName;
+  resolve(context: ConflictContext): ConflictResolution;
+}
+
+const MERGEABLE_FIELDS = [
+  'title',
+  'description',
+  'completed',
+  'due_at',
+  'priority',
+  'tags',
+  'parent_task_id',
+  'recurrence',
+  'occurrence_at',
+  'series_template',
+] as const;
+
+// Values of the mergeable fields before an edit, queued with it as its
+// base_data
+export function baseData(task: Task): Partial<Task> {
+  const base: Partial<Task> = { updated_at: task.updated_at };
+  for (const field of MERGEABLE_FIELDS) {
+    Object.assign(base, { [field]: task[field] });
+  }
+  return base;
+}
+
+function time(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+// Orders the two sides of a conflict by their hybrid logical clock
+// timestamps, which respect causality where device clocks disagree. Copies
+// from peers that predate clocks are compared by updated_at.
+function compareChanges(
+  local: Task,
+  server: Task,
+): { order: number; by: string } {
+  if (local.hlc && server.hlc) {
+    return { order: compareHlc(local.hlc, server.hlc), by: 'HLC timestamp' };
+  }
+  return {
+    order: time(local.updated_at) - time(server.updated_at),
+    by: 'updated_at',
+  };
+}
+
+// Compared as JSON, since queued values have been through JSON: dates are
+// strings and tags are arrays
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export const lastWriteWins: ConflictStrategy = {
+  name: 'last-write-wins',
+  resolve({ local, server }) {
+    const { order, by } = compareChanges(local, server);
+
+    if (order === 0) {
+      // A delete always wins over an update when timestamps are equal
+      const localWins = local.is_deleted && !server.is_deleted;
+      return {
+        strategy: 'last-write-wins',
+        winner: localWins ? 'local' : 'server',
+        resolved_task: localWins ? local : server,
+        reason: localWins
+          ? 'Timestamp tie broken by CONFLICT_PRIORITY: local delete outranks server update'
+          : server.is_deleted && !local.is_deleted
+            ? 'Timestamp tie broken by CONFLICT_PRIORITY: server delete outranks local update'
+            : 'Timestamp tie with equal CONFLICT_PRIORITY; server version kept',
+      };
+    }
+
+    const localWins = order > 0;
+    return {
+      strategy: 'last-write-wins',
+      winner: localWins ? 'local' : 'server',
+      resolved_task: localWins ? local : server,
+      reason: `${localWins ? 'Local' : 'Server'} version has the more recent ${by}`,
+    };
+  },
+};
+
+export const clientWins: ConflictStrategy = {
+  name: 'client-wins',
+  resolve({ local }) {
+    return {
+      strategy: 'client-wins',
+      winner: 'local',
+      resolved_task: local,
+      reason: 'Client version always wins',
+    };
+  },
+};
+
+export const serverWins: ConflictStrategy = {
+  name: 'server-wins',
+  resolve({ server }) {
+    return {
+      strategy: 'server-wins',
+      winner: 'server',
+      resolved_task: server,
+      reason: 'Server version always wins',
+    };
+  },
+};
+
+// Three-way merge against the values the local edit was based on: a field
+// edited on only one side keeps that side's value, and a field edited on
+// both sides falls back to last-write-wins for that field alone.
+export const fieldMerge: ConflictStrategy = {
+  name: 'field-merge',
+  resolve(context) {
+    const { local, server, change, base } = context;
+    if (!change || !base || local.is_deleted || server.is_deleted) {
+      return {
+        ...lastWriteWins.resolve(context),
+        strategy: 'field-merge',
+      };
+    }
+
+    const localNewer = compareChanges(local, server).order > 0;
+    const merged: Task = { ...server };
+    const fromLocal: string[] = [];
+    const overlapping: string[] = [];
+
+    for (const field of MERGEABLE_FIELDS) {
+      if (!(field in change) || sameValue(change[field], base[field])) {
+        continue;
+      }
+      const serverEdited = !sameValue(server[field], base[field]);
+      if (serverEdited) {
+        overlapping.push(field);
+      }
+      if (!serverEdited || localNewer) {
+        Object.assign(merged, { [field]: change[field] });
+        fromLocal.push(field);
+      }
+    }
+
+    const winner =
+      fromLocal.length === 0
+        ? 'server'
+        : MERGEABLE_FIELDS.every((f) => sameValue(merged[f], local[f]))
+          ? 'local'
+          : 'merged';
+
+    const reasons = [
+      fromLocal.length
+        ? `kept local ${fromLocal.join(', ')}`
+        : 'no local-only edits',
+    ];
+    if (overlapping.length) {
+      reasons.push(
+        `${overlapping.join(', ')} edited on both sides, ${localNewer ? 'local' : 'server'} is newer`,
+      );
+    }
+
+    return {
+      strategy: 'field-merge',
+      winner,
+      resolved_task: merged,
+      reason: `Field-level merge: ${reasons.join('; ')}`,
+    };
+  },
+};
+
+const registry = new Map<ConflictStrategyName, ConflictStrategy>();
+
+export function registerConflictStrategy(strategy: ConflictStrategy): void {
+  registry.set(strategy.name, strategy);
+}
+
+[lastWriteWins, clientWins, serverWins, fieldMerge].forEach(
+  registerConflictStrategy,
+);
+
+export function conflictStrategyNames(): ConflictStrategyName[] {
+  return [...registry.keys()];
+}
+
+export function isConflictStrategyName(
+  value: unknown,
+): value is ConflictStrategyName {
+  return (
+    typeof value === 'string' && registry.has(value as ConflictStrategyName)
+  );
+}
+
+// Looks up a strategy by name, defaulting to CONFLICT_STRATEGY from the
+// environment and then to last-write-wins.
+export function getConflictStrategy(name?: string): ConflictStrategy {
+  const resolved = name || process.env.CONFLICT_STRATEGY || 'last-write-wins';
+  const strategy = registry.get(resolved as ConflictStrategyName);
+  if (!strategy) {
+    throw new Error(`Unknown conflict strategy: ${resolved}`);
+  }
+  return strategy;
+}
@@ -0,0 +1,163 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DeadLetterItem, DeadLetterFilter, SyncQueueItem } from '../types';
+import { Database } from '../db/database';
+import { TaskRepository } from '../db/repositories/taskRepository';
+import { SyncQueueRepository } from '../db/repositories/syncQueueRepository';
+import { TaskService } from './taskService';
+
+// Given a user, only dead letters for that user's tasks are visible
+export class DeadLetterService {
+  private tasks: TaskRepository;
+  private queue: SyncQueueRepository;
+  private taskService: TaskService;
+
+  constructor(
+    private db: Database,
+    private userId?: string,
+  ) {
+    this.tasks = new TaskRepository(db);
+    this.queue = new SyncQueueRepository(db);
+    this.taskService = new TaskService(db);
+  }
+
+  async add(item: SyncQueueItem): Promise<DeadLetterItem> {
+    const entry: DeadLetterItem = {
+      id: uuidv4(),
+      task_id: item.task_id,
+      operation: item.operation,
+      data: item.data,
+      base_data: item.base_data,
+      base_version: item.base_version,
+      hlc: item.hlc,
+      created_at: item.created_at,
+      failed_at: new Date(),
+      retry_count: item.retry_count,
+      error_history: item.error_history ?? [],
+    };
+
+    const changed = await this.db.transaction(async () => {
+      await this.db.run(
+        `INSERT INTO dead_letter_queue (id, task_id, operation, data, base_data, base_version, hlc, created_at, failed_at, retry_count, error_history)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.id,
+          entry.task_id,
+          entry.operation,
+          JSON.stringify(entry.data),
+          entry.base_data ? JSON.stringify(entry.base_data) : null,
+          entry.base_version ?? null,
+          entry.hlc ?? null,
+          entry.created_at.toISOString(),
+          entry.failed_at.toISOString(),
+          entry.retry_count,
+          JSON.stringify(entry.error_history),
+        ],
+      );
+      await this.queue.delete([item.id]);
+      return this.tasks.setSyncStatus(item.task_id, 'failed');
+    });
+    if (changed) {
+      await this.taskService.publishEvent('sync-status-changed', item.task_id);
+    }
+
+    return entry;
+  }
+
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetterItem[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (this.userId !== undefined) {
+      conditions.push('task_id IN (SELECT id FROM tasks WHERE user_id = ?)');
+      params.push(this.userId);
+    }
+    if (filter.task_id) {
+      conditions.push('task_id = ?');
+      params.push(filter.task_id);
+    }
+    if (filter.operation) {
+      conditions.push('operation = ?');
+      params.push(filter.operation);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.db.all(
+      `SELECT * FROM dead_letter_queue ${where} ORDER BY failed_at, created_at`,
+      params,
+    );
+    return rows.map(DeadLetterService.fromRow);
+  }
+
+  async get(id: string): Promise<DeadLetterItem | null> {
+    const row = await this.db.get(
+      this.userId !== undefined
+        ? `SELECT * FROM dead_letter_queue
+           WHERE id = ? AND task_id IN (SELECT id FROM tasks WHERE user_id = ?)`
+        : 'SELECT * FROM dead_letter_queue WHERE id = ?',
+      this.userId !== undefined ? [id, this.userId] : [id],
+    );
+    return row ? DeadLetterService.fromRow(row) : null;
+  }
+
+  // Moves the entry back onto the sync queue with a fresh retry budget. The
+  // original clock timestamp and created_at are kept so it is still applied
+  // before any later operations queued for the same task, and its base so
+  // conflicts are still detected against what the edit was made on.
+  async replay(id: string): Promise<SyncQueueItem | null> {
+    const entry = await this.get(id);
+    if (!entry) {
+      return null;
+    }
+
+    const item: SyncQueueItem = {
+      id: uuidv4(),
+      task_id: entry.task_id,
+      operation: entry.operation,
+      data: entry.data,
+      base_data: entry.base_data,
+      base_version: entry.base_version,
+      hlc: entry.hlc,
+      created_at: entry.created_at,
+      retry_count: 0,
+    };
+
+    const changed = await this.db.transaction(async () => {
+      await this.queue.insert(item);
+      await this.db.run('DELETE FROM dead_letter_queue WHERE id = ?', [id]);
+      return this.tasks.setSyncStatus(entry.task_id, 'pending');
+    });
+    if (changed) {
+      await this.taskService.publishEvent('sync-status-changed', entry.task_id);
+    }
+
+    return item;
+  }
+
+  async discard(id: string): Promise<boolean> {
+    const entry = await this.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    await this.db.run('DELETE FROM dead_letter_queue WHERE id = ?', [id]);
+    return true;
+  }
+
+  static fromRow(row: any): DeadLetterItem {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      operation: row.operation,
+      data: JSON.parse(row.data),
+      base_data: row.base_data ? JSON.parse(row.base_data) : undefined,
+      base_version: row.base_version ?? undefined,
+      hlc: row.hlc ?? undefined,
+      created_at: new Date(row.created_at),
+      failed_at: new Date(row.failed_at),
+      retry_count: row.retry_count,
+      error_history: JSON.parse(row.error_history || '[]').map(
+        (entry: any) => ({ ...entry, timestamp: new Date(entry.timestamp) }),
+      ),
+    };
+  }
+}
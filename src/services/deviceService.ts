@@ -0,0 +1,92 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Device } from '../types';
+import { Database } from '../db/database';
+
+// Server side registry of the devices syncing each account. Given a user,
+// only that user's devices are visible.
+export class DeviceService {
+  constructor(
+    private db: Database,
+    private userId?: string,
+  ) {}
+
+  async register(name: string): Promise<Device> {
+    const device: Device = { id: uuidv4(), name, created_at: new Date() };
+    await this.db.run(
+      `INSERT INTO devices (id, user_id, name, created_at)
+       VALUES (?, ?, ?, ?)`,
+      [
+        device.id,
+        this.userId ?? null,
+        device.name,
+        device.created_at.toISOString(),
+      ],
+    );
+    return device;
+  }
+
+  async list(): Promise<Device[]> {
+    const rows =
+      this.userId !== undefined
+        ? await this.db.all(
+            'SELECT * FROM devices WHERE user_id = ? ORDER BY created_at, rowid',
+            [this.userId],
+          )
+        : await this.db.all('SELECT * FROM devices ORDER BY created_at, rowid');
+    return rows.map(DeviceService.fromRow);
+  }
+
+  async get(id: string): Promise<Device | null> {
+    const row =
+      this.userId !== undefined
+        ? await this.db.get(
+            'SELECT * FROM devices WHERE id = ? AND user_id = ?',
+            [id, this.userId],
+          )
+        : await this.db.get('SELECT * FROM devices WHERE id = ?', [id]);
+    return row ? DeviceService.fromRow(row) : null;
+  }
+
+  // Revoking is permanent; a device that is revoked again keeps its
+  // original revocation time
+  async revoke(id: string): Promise<Device | null> {
+    const device = await this.get(id);
+    if (!device) {
+      return null;
+    }
+    await this.db.run(
+      'UPDATE devices SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ?',
+      [new Date().toISOString(), id],
+    );
+    return this.get(id);
+  }
+
+  // Called after the server processes a batch from the device
+  async recordSync(id: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.run(
+      'UPDATE devices SET last_seen_at = ?, last_sync_at = ? WHERE id = ?',
+      [now, now, id],
+    );
+  }
+
+  // Called after the server sends the device a page of the change feed
+  async recordPull(id: string, cursor: Date): Promise<void> {
+    await this.db.run(
+      'UPDATE devices SET last_seen_at = ?, cursor = ? WHERE id = ?',
+      [new Date().toISOString(), cursor.toISOString(), id],
+    );
+  }
+
+  static fromRow(row: any): Device {
+    return {
+      id: row.id,
+      name: row.name,
+      created_at: new Date(row.created_at),
+      last_seen_at: row.last_seen_at ? new Date(row.last_seen_at) : undefined,
+      last_sync_at: row.last_sync_at ? new Date(row.last_sync_at) : undefined,
+      cursor: row.cursor ? new Date(row.cursor) : undefined,
+      revoked_at: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    };
+  }
+}
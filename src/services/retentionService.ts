@@ -0,0 +1,190 @@
+import { Database } from '../db/database';
+import { RetentionReport } from '../types';
+import { envNumber } from '../utils/env';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionOptions {
+  enabled: boolean;
+  intervalMs: number;
+  tombstoneTtlDays: number;
+  syncRunTtlDays: number;
+  conflictTtlDays: number;
+  revisionTtlDays: number;
+  // Batch sync results kept to answer retried items and batches
+  processedItemTtlDays: number;
+  eventTtlDays: number;
+}
+
+export function retentionOptionsFromEnv(): RetentionOptions {
+  return {
+    enabled: process.env.RETENTION_ENABLED !== 'false',
+    intervalMs: envNumber('RETENTION_INTERVAL_MS', DAY_MS),
+    tombstoneTtlDays: envNumber('TOMBSTONE_TTL_DAYS', 30),
+    syncRunTtlDays: envNumber('SYNC_RUN_TTL_DAYS', 30),
+    conflictTtlDays: envNumber('CONFLICT_TTL_DAYS', 90),
+    revisionTtlDays: envNumber('REVISION_TTL_DAYS', 90),
+    processedItemTtlDays: envNumber('PROCESSED_ITEM_TTL_DAYS', 30),
+    eventTtlDays: envNumber('EVENT_TTL_DAYS', 7),
+  };
+}
+
+// Tombstones deleted before the cutoff whose deletion the server has
+// confirmed: synced after it was made, with nothing left to send or replay.
+// A task that never reached the server, whose queued items the compactor
+// dropped, is marked synced without a server_id and needs no confirmation.
+// Once purged, a tombstone pulled again is ignored as one for an unknown task.
+const PURGEABLE_TOMBSTONES = `
+  SELECT id FROM tasks
+  WHERE is_deleted = 1
+    AND (
+      (server_id IS NOT NULL AND last_synced_at > updated_at)
+      OR (server_id IS NULL AND sync_status = 'synced')
+    )
+    AND updated_at <= ?
+    AND id NOT IN (SELECT task_id FROM sync_queue)
+    AND id NOT IN (SELECT task_id FROM dead_letter_queue)`;
+
+// Keeps the local database from growing without bound by purging confirmed
+// tombstones and old sync runs, conflicts, revisions, task events and batch
+// sync results, then running VACUUM. Runs every intervalMs once started; a
+// dry run reports what would be purged without changing anything.
+export class RetentionService {
+  private timer: NodeJS.Timeout | null = null;
+  private lastRun?: RetentionReport;
+
+  constructor(
+    private db: Database,
+    private options: RetentionOptions = retentionOptionsFromEnv(),
+  ) {}
+
+  start(): void {
+    if (!this.options.enabled || this.timer) {
+      return;
+    }
+    this.timer = setInterval(async () => {
+      try {
+        await this.purge();
+      } catch (error) {
+        console.error('Retention run failed:', error);
+      }
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async preview(now: Date = new Date()): Promise<RetentionReport> {
+    return this.apply(true, now);
+  }
+
+  async purge(now: Date = new Date()): Promise<RetentionReport> {
+    const report = await this.apply(false, now);
+    await this.db.vacuum();
+    this.lastRun = report;
+    return report;
+  }
+
+  getLastRun(): RetentionReport | null {
+    return this.lastRun ?? null;
+  }
+
+  private apply(dryRun: boolean, now: Date): Promise<RetentionReport> {
+    const cutoff = (days: number) =>
+      new Date(now.getTime() - days * DAY_MS).toISOString();
+    const tombstoneCutoff = cutoff(this.options.tombstoneTtlDays);
+
+    return this.db.transaction(async () => {
+      // Records of purged tasks go with them
+      const conflicts = await this.remove(
+        dryRun,
+        'sync_conflicts',
+        `created_at <= ? OR task_id IN (${PURGEABLE_TOMBSTONES})`,
+        [cutoff(this.options.conflictTtlDays), tombstoneCutoff],
+      );
+      // Each task keeps its latest revision however old it is
+      const revisions = await this.remove(
+        dryRun,
+        'task_revisions',
+        `(created_at <= ? AND EXISTS (
+           SELECT 1 FROM task_revisions newer
+           WHERE newer.task_id = task_revisions.task_id
+             AND newer.created_at > task_revisions.created_at
+         )) OR task_id IN (${PURGEABLE_TOMBSTONES})`,
+        [cutoff(this.options.revisionTtlDays), tombstoneCutoff],
+      );
+      const syncRuns = await this.remove(
+        dryRun,
+        'sync_runs',
+        "status != 'running' AND started_at <= ?",
+        [cutoff(this.options.syncRunTtlDays)],
+      );
+      const processedCutoff = cutoff(this.options.processedItemTtlDays);
+      const processedItems = await this.remove(
+        dryRun,
+        'server_processed_items',
+        'processed_at <= ?',
+        [processedCutoff],
+      );
+      const processedBatches = await this.remove(
+        dryRun,
+        'server_processed_batches',
+        'processed_at <= ?',
+        [processedCutoff],
+      );
+      // The newest event is kept however old it is. An empty table would
+      // hand out ids from 1 again, which clients resuming from a later
+      // Last-Event-ID would never receive.
+      const events = await this.remove(
+        dryRun,
+        'task_events',
+        'created_at <= ? AND id < (SELECT MAX(id) FROM task_events)',
+        [cutoff(this.options.eventTtlDays)],
+      );
+      const tombstones = await this.remove(
+        dryRun,
+        'tasks',
+        `id IN (${PURGEABLE_TOMBSTONES})`,
+        [tombstoneCutoff],
+      );
+
+      return {
+        dry_run: dryRun,
+        tombstones,
+        sync_runs: syncRuns,
+        conflicts,
+        revisions,
+        processed_items: processedItems,
+        processed_batches: processedBatches,
+        events,
+        ran_at: now,
+      };
+    });
+  }
+
+  // Deletes the matching rows, or in a dry run only counts them
+  private async remove(
+    dryRun: boolean,
+    table: string,
+    where: string,
+    params: unknown[],
+  ): Promise<number> {
+    if (dryRun) {
+      const row = await this.db.get(
+        `SELECT COUNT(*) AS count FROM ${table} WHERE ${where}`,
+        params,
+      );
+      return row.count;
+    }
+    const { changes } = await this.db.run(
+      `DELETE FROM ${table} WHERE ${where}`,
+      params,
+    );
+    return changes;
+  }
+}
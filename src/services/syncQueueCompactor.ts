@@ -0,0 +1,151 @@
+import { SyncQueueItem } from '../types';
+import { Database } from '../db/database';
+import { TaskRepository } from '../db/repositories/taskRepository';
+import { SyncQueueRepository } from '../db/repositories/syncQueueRepository';
+import { TaskService } from './taskService';
+
+export interface CompactionResult {
+  items: SyncQueueItem[];
+  removed: number;
+}
+
+function attempted(item: SyncQueueItem): boolean {
+  return (
+    item.retry_count > 0 ||
+    (item.batch_key !== undefined && item.batch_key !== null)
+  );
+}
+
+// Collapses redundant operations per task before they are batched:
+//  - create, updates..., delete for a task the server has never seen is
+//    dropped entirely
+//  - a create followed by updates becomes a single create
+//  - consecutive updates become a single update
+// Only items that were never attempted are merged, since an attempted item
+// may already have been applied by the server. That includes items with a
+// batch key, which were sent even if the run stopped before recording a
+// failure. Each task keeps its operations in their original order.
+export class SyncQueueCompactor {
+  private tasks: TaskRepository;
+  private queue: SyncQueueRepository;
+  private taskService: TaskService;
+
+  constructor(private db: Database) {
+    this.tasks = new TaskRepository(db);
+    this.queue = new SyncQueueRepository(db);
+    this.taskService = new TaskService(db);
+  }
+
+  async compact(items: SyncQueueItem[]): Promise<CompactionResult> {
+    const byTask = new Map<string, SyncQueueItem[]>();
+    for (const item of items) {
+      const sequence = byTask.get(item.task_id) ?? [];
+      sequence.push(item);
+      byTask.set(item.task_id, sequence);
+    }
+
+    const removedIds = new Set<string>();
+    const merged = new Map<string, SyncQueueItem>();
+    for (const [taskId, sequence] of byTask) {
+      if (await this.isLocalOnlyDelete(taskId, sequence)) {
+        await this.dropTask(taskId, sequence);
+        sequence.forEach((item) => removedIds.add(item.id));
+        continue;
+      }
+
+      for (const run of this.mergeableRuns(sequence)) {
+        const item = await this.mergeRun(run);
+        merged.set(item.id, item);
+        run.slice(0, -1).forEach((item) => removedIds.add(item.id));
+      }
+    }
+
+    return {
+      items: items
+        .filter((item) => !removedIds.has(item.id))
+        .map((item) => merged.get(item.id) ?? item),
+      removed: removedIds.size,
+    };
+  }
+
+  private async isLocalOnlyDelete(
+    taskId: string,
+    sequence: SyncQueueItem[],
+  ): Promise<boolean> {
+    const first = sequence[0];
+    const last = sequence[sequence.length - 1];
+    if (
+      sequence.length < 2 ||
+      first.operation !== 'create' ||
+      attempted(first) ||
+      last.operation !== 'delete'
+    ) {
+      return false;
+    }
+
+    const task = await this.tasks.findById(taskId, { includeDeleted: true });
+    return !task?.server_id;
+  }
+
+  private async dropTask(
+    taskId: string,
+    sequence: SyncQueueItem[],
+  ): Promise<void> {
+    const changed = await this.db.transaction(async () => {
+      await this.queue.delete(sequence.map((item) => item.id));
+      // Nothing is left to send for a task that never reached the server
+      return this.tasks.setSyncStatus(taskId, 'synced');
+    });
+    if (changed) {
+      await this.taskService.publishEvent('sync-status-changed', taskId);
+    }
+  }
+
+  // Runs of two or more never-attempted items made of an optional create
+  // followed by updates
+  private mergeableRuns(sequence: SyncQueueItem[]): SyncQueueItem[][] {
+    const runs: SyncQueueItem[][] = [];
+    let current: SyncQueueItem[] = [];
+
+    const flush = () => {
+      if (current.length > 1) {
+        runs.push(current);
+      }
+      current = [];
+    };
+
+    for (const item of sequence) {
+      const fresh = !attempted(item);
+      if (fresh && item.operation === 'update' && current.length > 0) {
+        current.push(item);
+      } else {
+        flush();
+        if (fresh && item.operation !== 'delete') {
+          current.push(item);
+        }
+      }
+    }
+    flush();
+
+    return runs;
+  }
+
+  // Keeps the last item of the run, which holds the latest task snapshot,
+  // and folds the others into it
+  private async mergeRun(run: SyncQueueItem[]): Promise<SyncQueueItem> {
+    const first = run[0];
+    const last = run[run.length - 1];
+    const merged: SyncQueueItem = {
+      ...last,
+      operation: first.operation,
+      base_data: first.base_data,
+      base_version: first.base_version,
+    };
+
+    await this.db.transaction(async () => {
+      await this.queue.updateMerged(merged);
+      await this.queue.delete(run.slice(0, -1).map((item) => item.id));
+    });
+    return merged;
+  }
+}
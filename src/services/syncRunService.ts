@@ -0,0 +1,139 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Page, SyncResult, SyncRun, SyncTrigger } from '../types';
+import { Database } from '../db/database';
+
+// History of sync runs. A run covers every account on this installation
+// unless it was limited to one. Given a user, only runs limited to that user
+// are visible, as the others carry every account's results.
+export class SyncRunService {
+  constructor(
+    private db: Database,
+    private userId?: string,
+  ) {}
+
+  // Only one sync runs per database at a time, so a run still marked as
+  // running when another starts was cut short
+  async start(trigger: SyncTrigger, userId?: string): Promise<SyncRun> {
+    const now = new Date().toISOString();
+    await this.db.run(
+      `UPDATE sync_runs SET status = 'interrupted', finished_at = ?
+       WHERE status = 'running'`,
+      [now],
+    );
+
+    const id = uuidv4();
+    await this.db.run(
+      `INSERT INTO sync_runs (id, trigger, user_id, status, started_at)
+       VALUES (?, ?, ?, 'running', ?)`,
+      [id, trigger, userId ?? null, now],
+    );
+    return (await this.get(id)) as SyncRun;
+  }
+
+  async finish(id: string, result: SyncResult): Promise<void> {
+    await this.db.run(
+      `UPDATE sync_runs
+       SET status = ?, finished_at = ?, batches = ?, synced_items = ?, failed_items = ?, deferred_items = ?,
+           compacted_items = ?, pulled_items = ?, conflicts = ?, bytes_sent = ?
+       WHERE id = ?`,
+      [
+        result.success ? 'succeeded' : 'failed',
+        new Date().toISOString(),
+        result.batches,
+        result.synced_items,
+        result.failed_items,
+        result.deferred_items,
+        result.compacted_items,
+        result.pulled_items,
+        result.conflicts,
+        result.bytes_sent,
+        id,
+      ],
+    );
+  }
+
+  async fail(id: string, error: Error): Promise<void> {
+    await this.db.run(
+      `UPDATE sync_runs SET status = 'failed', finished_at = ?, error = ?
+       WHERE id = ?`,
+      [new Date().toISOString(), error.message, id],
+    );
+  }
+
+  async get(id: string): Promise<SyncRun | null> {
+    const row = await this.db.get(
+      `SELECT * FROM sync_runs WHERE id = ? AND ${this.scope()}`,
+      [id, ...this.scopeParams()],
+    );
+    return row ? SyncRunService.fromRow(row) : null;
+  }
+
+  async getCurrent(): Promise<SyncRun | null> {
+    const row = await this.db.get(
+      `SELECT * FROM sync_runs WHERE status = 'running' AND ${this.scope()}
+       ORDER BY started_at DESC, rowid DESC LIMIT 1`,
+      this.scopeParams(),
+    );
+    return row ? SyncRunService.fromRow(row) : null;
+  }
+
+  async getLastSuccessful(): Promise<SyncRun | null> {
+    const row = await this.db.get(
+      `SELECT * FROM sync_runs WHERE status = 'succeeded' AND ${this.scope()}
+       ORDER BY started_at DESC, rowid DESC LIMIT 1`,
+      this.scopeParams(),
+    );
+    return row ? SyncRunService.fromRow(row) : null;
+  }
+
+  // Newest first
+  async list(
+    options: { limit?: number; offset?: number } = {},
+  ): Promise<Page<SyncRun>> {
+    const limit = options.limit ?? 50;
+    const offset = options.offset ?? 0;
+    const total = await this.db.get(
+      `SELECT COUNT(*) AS count FROM sync_runs WHERE ${this.scope()}`,
+      this.scopeParams(),
+    );
+    const rows = await this.db.all(
+      `SELECT * FROM sync_runs WHERE ${this.scope()}
+       ORDER BY started_at DESC, rowid DESC LIMIT ? OFFSET ?`,
+      [...this.scopeParams(), limit, offset],
+    );
+
+    return {
+      items: rows.map(SyncRunService.fromRow),
+      total: total.count,
+      limit,
+      offset,
+    };
+  }
+
+  private scope(): string {
+    return this.userId !== undefined ? 'user_id = ?' : '1 = 1';
+  }
+
+  private scopeParams(): string[] {
+    return this.userId !== undefined ? [this.userId] : [];
+  }
+
+  static fromRow(row: any): SyncRun {
+    return {
+      id: row.id,
+      trigger: row.trigger,
+      status: row.status,
+      started_at: new Date(row.started_at),
+      finished_at: row.finished_at ? new Date(row.finished_at) : undefined,
+      batches: row.batches,
+      synced_items: row.synced_items,
+      failed_items: row.failed_items,
+      deferred_items: row.deferred_items,
+      compacted_items: row.compacted_items,
+      pulled_items: row.pulled_items,
+      conflicts: row.conflicts,
+      bytes_sent: row.bytes_sent,
+      error: row.error ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import { Database } from '../db/database';
+import { SyncQueueRepository } from '../db/repositories/syncQueueRepository';
+import { SyncService } from './syncService';
+import { SchedulerStatus, SyncResult } from '../types';
+import { envNumber } from '../utils/env';
+
+export interface SyncSchedulerOptions {
+  enabled: boolean;
+  intervalMs: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  queueThreshold: number;
+}
+
+export function schedulerOptionsFromEnv(): SyncSchedulerOptions {
+  return {
+    enabled: process.env.SYNC_SCHEDULER_ENABLED !== 'false',
+    intervalMs: envNumber('SYNC_INTERVAL_MS', 30000),
+    backoffBaseMs: envNumber('SYNC_BACKOFF_BASE_MS', 5000),
+    backoffMaxMs: envNumber('SYNC_BACKOFF_MAX_MS', 300000),
+    queueThreshold: envNumber('SYNC_QUEUE_THRESHOLD', 10),
+  };
+}
+
+// Polls connectivity in the background and runs sync() when the device
+// comes back online or the queue grows past the threshold. While offline the
+// polling interval backs off exponentially up to backoffMaxMs.
+export class SyncScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private checking: Promise<void> | null = null;
+  private isOnline: boolean | null = null;
+  private offlineChecks = 0;
+  private lastCheckAt?: Date;
+  private nextCheckAt?: Date;
+  private lastSyncAt?: Date;
+  private lastResult?: SyncResult;
+  private lastError?: string;
+
+  constructor(
+    private syncService: SyncService,
+    private db: Database,
+    private options: SyncSchedulerOptions = schedulerOptionsFromEnv(),
+  ) {}
+
+  start(): void {
+    if (!this.options.enabled || this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+  }
+
+  // Stops polling and waits for an in-flight check (and its sync) to finish
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.nextCheckAt = undefined;
+    await this.checking;
+  }
+
+  async checkNow(): Promise<void> {
+    if (this.checking) {
+      return this.checking;
+    }
+    this.checking = this.check().finally(() => {
+      this.checking = null;
+    });
+    return this.checking;
+  }
+
+  getStatus(): SchedulerStatus {
+    return {
+      enabled: this.options.enabled,
+      running: this.running,
+      is_online: this.isOnline,
+      syncing: this.syncService.isSyncing(),
+      current_interval_ms: this.currentInterval(),
+      consecutive_offline_checks: this.offlineChecks,
+      last_check_at: this.lastCheckAt,
+      next_check_at: this.nextCheckAt,
+      last_sync_at: this.lastSyncAt,
+      last_result: this.lastResult,
+      last_error: this.lastError,
+    };
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.nextCheckAt = new Date(Date.now() + delayMs);
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      await this.checkNow();
+      this.schedule(this.currentInterval());
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private currentInterval(): number {
+    if (this.isOnline !== false) {
+      return this.options.intervalMs;
+    }
+    const backoff = this.options.backoffBaseMs * 2 ** (this.offlineChecks - 1);
+    return Math.min(backoff, this.options.backoffMaxMs);
+  }
+
+  private async check(): Promise<void> {
+    const wasOnline = this.isOnline;
+    this.lastCheckAt = new Date();
+    this.isOnline = await this.syncService.checkConnectivity();
+
+    if (!this.isOnline) {
+      this.offlineChecks++;
+      return;
+    }
+    this.offlineChecks = 0;
+
+    const queued = await new SyncQueueRepository(this.db).count();
+    const reconnected = wasOnline !== true && queued > 0;
+    const overThreshold = queued >= this.options.queueThreshold;
+    if (!reconnected && !overThreshold) {
+      return;
+    }
+
+    try {
+      this.lastResult = await this.syncService.sync({
+        trigger: 'scheduled',
+      });
+      this.lastSyncAt = new Date();
+      this.lastError = undefined;
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      console.error('Scheduled sync failed:', error);
+    }
+  }
+}
@@ -1,76 +1,618 @@
 import axios from 'axios';
-import { Task, SyncQueueItem, SyncResult, BatchSyncRequest, BatchSyncResponse } from '../types';
+import { hostname } from 'os';
+import {
+  Task,
+  SyncQueueItem,
+  SyncResult,
+  SyncOperation,
+  BatchSyncRequest,
+  BatchSyncResponse,
+  ConflictResolution,
+  SyncOptions,
+  TaskChange,
+  ChangesResponse,
+  Device,
+} from '../types';
 import { Database } from '../db/database';
+import { TaskRepository } from '../db/repositories/taskRepository';
+import { SyncQueueRepository } from '../db/repositories/syncQueueRepository';
 import { TaskService } from './taskService';
+import { DeadLetterService } from './deadLetterService';
+import { ConflictLogService } from './conflictLogService';
+import { SyncQueueCompactor } from './syncQueueCompactor';
+import { ClockService } from './clockService';
+import { UserService } from './userService';
+import { SyncRunService } from './syncRunService';
+import {
+  ConflictStrategy,
+  baseData,
+  getConflictStrategy,
+} from './conflictStrategies';
+import { computeBatchChecksum } from '../utils/checksum';
+import { signToken } from '../utils/jwt';
+import {
+  SyncItemError,
+  classifySyncError,
+  getRetryPolicy,
+  retryDelay,
+} from '../utils/retryPolicy';
+import { v4 as uuidv4 } from 'uuid';
+
+const activeSyncs = new WeakMap<
+  Database,
+  { userId?: string; result: Promise<SyncResult> }
+>();
+
+// sync_state key holding the server_timestamp of the last completed pull,
+// suffixed with the user id for each account
+const PULL_WATERMARK_KEY = 'last_synced_at';
+
+// sync_state key holding the device id this installation registered with the
+// server, suffixed with the user id for each account
+const DEVICE_KEY = 'device_id';
+const deviceKey = (userId?: string) =>
+  userId ? `${DEVICE_KEY}:${userId}` : DEVICE_KEY;
+
+// Lifetime of the tokens the sync engine signs to act for a task's owner
+const SYNC_TOKEN_TTL_SECONDS = 5 * 60;
+
+// Queue items claimed by a sync run. Other runs leave them alone until the
+// lease is released or expires.
+interface QueueLease {
+  id: string;
+  items: SyncQueueItem[];
+}
 
 export class SyncService {
   private apiUrl: string;
-  
+  private deadLetters: DeadLetterService;
+  private conflictLog: ConflictLogService;
+  private compactor: SyncQueueCompactor;
+  private clock: ClockService;
+  private users: UserService;
+  private runs: SyncRunService;
+  private tasks: TaskRepository;
+  private queue: SyncQueueRepository;
+
   constructor(
     private db: Database,
     private taskService: TaskService,
-    apiUrl: string = process.env.API_BASE_URL || 'http://localhost:3000/api'
+    apiUrl: string = process.env.API_BASE_URL || 'http://localhost:3000/api',
   ) {
     this.apiUrl = apiUrl;
+    this.deadLetters = new DeadLetterService(db);
+    this.conflictLog = new ConflictLogService(db);
+    this.compactor = new SyncQueueCompactor(db);
+    this.clock = new ClockService(db);
+    this.users = new UserService(db);
+    this.runs = new SyncRunService(db);
+    this.tasks = new TaskRepository(db);
+    this.queue = new SyncQueueRepository(db);
+  }
+
+  // A call made while another sync of the same accounts is in flight joins
+  // that run instead of starting a second one. A call for other accounts
+  // waits for it to finish, so its result only covers its own accounts.
+  async sync(options: SyncOptions = {}): Promise<SyncResult> {
+    const active = activeSyncs.get(this.db);
+    if (active) {
+      if (active.userId === options.userId) {
+        return active.result;
+      }
+      await active.result.catch(() => undefined);
+      return this.sync(options);
+    }
+
+    const result = this.recordRun(options).finally(() =>
+      activeSyncs.delete(this.db),
+    );
+    activeSyncs.set(this.db, { userId: options.userId, result });
+    return result;
+  }
+
+  isSyncing(): boolean {
+    return activeSyncs.has(this.db);
+  }
+
+  // Records the run in the sync history
+  private async recordRun(options: SyncOptions): Promise<SyncResult> {
+    const run = await this.runs.start(
+      options.trigger ?? 'manual',
+      options.userId,
+    );
+    try {
+      const result = await this.runSync(options);
+      await this.runs.finish(run.id, result);
+      return result;
+    } catch (error) {
+      await this.runs.fail(run.id, error as Error);
+      throw error;
+    }
+  }
+
+  private async runSync(options: SyncOptions): Promise<SyncResult> {
+    const strategy = getConflictStrategy(options.strategy);
+    const result: SyncResult = {
+      success: true,
+      synced_items: 0,
+      failed_items: 0,
+      deferred_items: 0,
+      compacted_items: 0,
+      pulled_items: 0,
+      batches: 0,
+      bytes_sent: 0,
+      conflicts: 0,
+      errors: [],
+    };
+
+    const sendable = (await this.queue.findSendable()).filter(
+      (item) => options.userId === undefined || item.user_id === options.userId,
+    );
+    const compaction = await this.compactor.compact(sendable);
+    result.compacted_items = compaction.removed;
+    const items = this.filterDueItems(compaction.items, result);
+    const batchSize = parseInt(process.env.SYNC_BATCH_SIZE || '50', 10);
+    // Tasks with a failed operation in this run; their later operations are
+    // held back so they are never applied out of order.
+    const blockedTasks = new Set<string>();
+    // Tasks whose conflict was resolved in this run. The resolution covers
+    // every pending edit for the task, so their later operations are dropped.
+    const resolvedTasks = new Set<string>();
+
+    for (const chunk of this.toBatches(items, batchSize)) {
+      const batch = chunk.filter(
+        (item) =>
+          !blockedTasks.has(item.task_id) && !resolvedTasks.has(item.task_id),
+      );
+      if (batch.length === 0) {
+        continue;
+      }
+
+      const lease = await this.claim(batch);
+      const claimed = lease.items;
+      // Items leased to another run are left to it, together with later
+      // operations for their tasks
+      const claimedIds = new Set(claimed.map((item) => item.id));
+      for (const item of batch) {
+        if (!claimedIds.has(item.id)) {
+          blockedTasks.add(item.task_id);
+          result.deferred_items++;
+        }
+      }
+      if (claimed.length === 0) {
+        continue;
+      }
+
+      try {
+        let response: BatchSyncResponse;
+        try {
+          response = await this.processBatch(claimed, result);
+        } catch (error) {
+          for (const item of claimed) {
+            await this.recordFailure(item, error as Error, result);
+            blockedTasks.add(item.task_id);
+          }
+          continue;
+        }
+
+        const outcomes = [...response.processed_items];
+        for (const item of claimed) {
+          const index = outcomes.findIndex((o) => o.client_id === item.task_id);
+          const outcome = index >= 0 ? outcomes.splice(index, 1)[0] : undefined;
+
+          if (
+            blockedTasks.has(item.task_id) ||
+            resolvedTasks.has(item.task_id)
+          ) {
+            continue;
+          }
+          if (!outcome || outcome.status === 'error') {
+            const error = outcome
+              ? new SyncItemError(
+                  outcome.error || 'Rejected by server',
+                  'validation',
+                )
+              : new SyncItemError('No result returned for item', 'server');
+            await this.recordFailure(item, error, result);
+            blockedTasks.add(item.task_id);
+            continue;
+          }
+
+          // A crash part-way through leaves the item queued, to be resent
+          // under the batch's idempotency key
+          await this.db.transaction(async () => {
+            await this.queue.delete([item.id]);
+            if (outcome.status === 'conflict' && outcome.resolved_data) {
+              await this.applyConflict(
+                item,
+                outcome.resolved_data,
+                strategy,
+                result,
+              );
+            }
+            await this.updateSyncStatus(item.task_id, 'synced', {
+              server_id: outcome.server_id,
+            });
+          });
+          if (outcome.status === 'conflict' && outcome.resolved_data) {
+            resolvedTasks.add(item.task_id);
+          }
+          result.synced_items++;
+        }
+      } finally {
+        await this.releaseLease(lease);
+      }
+    }
+
+    result.success = result.failed_items === 0;
+    // Without accounts, changes are pulled once without a token
+    const owners =
+      options.userId !== undefined
+        ? [options.userId]
+        : await this.users.listUserIds();
+    for (const userId of owners.length > 0 ? owners : [undefined]) {
+      await this.pullChanges(strategy, result, userId);
+    }
+    return result;
+  }
+
+  // Pull phase: applies changes the server received since the last pull,
+  // such as edits made on the user's other devices. Runs after the push so
+  // local edits reach the server first. The watermark only advances once
+  // every change in the response has been applied, and not past a change
+  // held back for a dead letter.
+  private async pullChanges(
+    strategy: ConflictStrategy,
+    result: SyncResult,
+    userId?: string,
+  ): Promise<void> {
+    const watermarkKey = userId
+      ? `${PULL_WATERMARK_KEY}:${userId}`
+      : PULL_WATERMARK_KEY;
+    const since = await this.getSyncState(watermarkKey);
+
+    let response: ChangesResponse;
+    try {
+      const { data } = await this.withDevice(userId, (deviceId) =>
+        axios.get(`${this.apiUrl}/changes`, {
+          params: since
+            ? { since, device_id: deviceId }
+            : { device_id: deviceId },
+          headers: this.authHeaders(userId),
+          timeout: 30000,
+        }),
+      );
+      response = data as ChangesResponse;
+    } catch (error) {
+      result.success = false;
+      result.errors.push({
+        task_id: '',
+        operation: 'pull',
+        error: (error as Error).message,
+        timestamp: new Date(),
+      });
+      return;
+    }
+
+    let held: TaskChange | undefined;
+    for (const change of response.changes) {
+      const outcome = await this.applyChange(change, strategy, result, userId);
+      if (outcome === 'applied') {
+        result.pulled_items++;
+      } else if (outcome === 'held') {
+        held ??= change;
+      }
+    }
+    // Changes come oldest first, so stopping at the first held one has the
+    // next pull fetch it again. A server that does not report when a change
+    // was written leaves the watermark where it was.
+    const watermark = held
+      ? (held.server_modified_at ?? since)
+      : response.server_timestamp;
+    if (watermark) {
+      await this.setSyncState(watermarkKey, new Date(watermark).toISOString());
+    }
+  }
+
+  // 'unchanged' when the change was already reflected locally, 'held' when
+  // it waits for the task's dead letter to be replayed or discarded
+  private async applyChange(
+    change: TaskChange,
+    strategy: ConflictStrategy,
+    result: SyncResult,
+    userId?: string,
+  ): Promise<'applied' | 'unchanged' | 'held'> {
+    const taskId = change.client_id;
+    const serverTask = change.task;
+    await this.clock.receive(serverTask.hlc);
+    const localTask = await this.tasks.findById(taskId, {
+      includeDeleted: true,
+    });
+
+    if (!localTask) {
+      // A tombstone for a task this device never saw has nothing to remove
+      if (serverTask.is_deleted) {
+        return 'unchanged';
+      }
+      await this.taskService.insertServerVersion(
+        taskId,
+        serverTask,
+        change.server_id,
+        userId,
+      );
+      return 'applied';
+    }
+
+    const pending = await this.queue.findByTask(taskId);
+
+    if (pending.length === 0) {
+      // A dead-lettered edit conflicts with this change once it is replayed
+      const deadLetter = await this.db.get(
+        'SELECT id FROM dead_letter_queue WHERE task_id = ?',
+        [taskId],
+      );
+      if (deadLetter) {
+        return 'held';
+      }
+      const unchanged =
+        localTask.version === serverTask.version &&
+        sameTime(localTask.updated_at, serverTask.updated_at);
+      if (!unchanged) {
+        await this.taskService.applyServerVersion(taskId, serverTask);
+      }
+      await this.updateSyncStatus(taskId, 'synced', {
+        server_id: change.server_id,
+      });
+      return unchanged ? 'unchanged' : 'applied';
+    }
+
+    // Pending edits made on top of this server version, or the echo of one
+    // of them, do not conflict with it. Version numbers alone cannot tell
+    // an echo from another device's edit, so echoes also need a matching
+    // timestamp. Items queued before versions existed compare timestamps.
+    const known = pending.some((item) =>
+      item.base_version !== undefined
+        ? item.base_version === serverTask.version ||
+          (item.data.version === serverTask.version &&
+            item.data.updated_at !== undefined &&
+            sameTime(item.data.updated_at, serverTask.updated_at))
+        : (item.base_data?.updated_at !== undefined &&
+            sameTime(item.base_data.updated_at, serverTask.updated_at)) ||
+          (item.data.updated_at !== undefined &&
+            sameTime(item.data.updated_at, serverTask.updated_at)),
+    );
+    if (known) {
+      return 'unchanged';
+    }
+
+    // The pending edits are resolved as one change against the base of the
+    // earliest of them, then replaced by whatever the resolution requires
+    const resolution = await this.resolveConflict(
+      localTask,
+      serverTask,
+      strategy,
+      result,
+      { ...pending[0], data: localTask },
+    );
+    await this.queue.deleteByTask(taskId);
+    await this.applyResolution(localTask, serverTask, resolution);
+    await this.updateSyncStatus(taskId, 'synced', {
+      server_id: change.server_id,
+    });
+    return 'applied';
+  }
+
+  async addToSyncQueue(
+    taskId: string,
+    operation: SyncOperation,
+    data: Partial<Task>,
+    baseData?: Partial<Task>,
+    baseVersion?: number,
+  ): Promise<void> {
+    await this.queue.enqueue(taskId, operation, data, baseData, baseVersion);
+  }
+
+  private async processBatch(
+    items: SyncQueueItem[],
+    result: SyncResult,
+  ): Promise<BatchSyncResponse> {
+    const userId = items[0]?.user_id;
+    const response = await this.withDevice(userId, async (deviceId) => {
+      const request: BatchSyncRequest = {
+        device_id: deviceId,
+        items,
+        client_timestamp: new Date(),
+        hlc: await this.clock.now(),
+        checksum: computeBatchChecksum(items),
+        idempotency_key: items[0]?.batch_key,
+      };
+
+      result.batches++;
+      result.bytes_sent += Buffer.byteLength(JSON.stringify(request));
+      return axios.post(`${this.apiUrl}/batch`, request, {
+        headers: this.authHeaders(userId),
+        timeout: 30000,
+      });
+    });
+    const data = response.data as BatchSyncResponse;
+    await this.clock.receive(data.hlc);
+    return data;
   }
 
-  async sync(): Promise<SyncResult> {
-    // TODO: Main sync orchestration method
-    // 1. Get all items from sync queue
-    // 2. Group items by batch (use SYNC_BATCH_SIZE from env)
-    // 3. Process each batch
-    // 4. Handle success/failure for each item
-    // 5. Update sync status in database
-    // 6. Return sync result summary
-    throw new Error('Not implemented');
+  // Leases the items to this run and marks their tasks in progress, leaving
+  // out items still leased to another run. A batch resending exactly the
+  // items of an earlier batch that got no answer, e.g. because the process
+  // crashed, keeps that batch's idempotency key so the server can recognise
+  // it.
+  private async claim(items: SyncQueueItem[]): Promise<QueueLease> {
+    const leaseId = uuidv4();
+    const now = new Date();
+    const leaseMs = parseInt(process.env.SYNC_LEASE_MS || '300000', 10);
+    const expiresAt = new Date(now.getTime() + leaseMs);
+
+    const { claimed, started } = await this.db.transaction(async () => {
+      const claimed: SyncQueueItem[] = [];
+      for (const item of items) {
+        if (await this.queue.lease(item.id, leaseId, expiresAt, now)) {
+          claimed.push(item);
+        }
+      }
+      if (claimed.length === 0) {
+        return { claimed, started: [] };
+      }
+
+      const batchKey = await this.batchKey(claimed);
+      await this.queue.setBatchKey(leaseId, batchKey);
+      const started: string[] = [];
+      for (const taskId of new Set(claimed.map((item) => item.task_id))) {
+        if (await this.tasks.setSyncStatus(taskId, 'in-progress')) {
+          started.push(taskId);
+        }
+      }
+      return {
+        claimed: claimed.map((item) => ({ ...item, batch_key: batchKey })),
+        started,
+      };
+    });
+
+    for (const taskId of started) {
+      await this.taskService.publishEvent('sync-status-changed', taskId);
+    }
+    return { id: leaseId, items: claimed };
   }
 
-  async addToSyncQueue(taskId: string, operation: 'create' | 'update' | 'delete', data: Partial<Task>): Promise<void> {
-    // TODO: Add operation to sync queue
-    // 1. Create sync queue item
-    // 2. Store serialized task data
-    // 3. Insert into sync_queue table
-    throw new Error('Not implemented');
+  private async batchKey(items: SyncQueueItem[]): Promise<string> {
+    const key = items[0].batch_key;
+    if (key === undefined || items.some((item) => item.batch_key !== key)) {
+      return uuidv4();
+    }
+    const sent = await this.queue.countByBatchKey(key);
+    return sent === items.length ? key : uuidv4();
   }
 
-  private async processBatch(items: SyncQueueItem[]): Promise<BatchSyncResponse> {
-    // TODO: Process a batch of sync items
-    // 1. Prepare batch request
-    // 2. Send to server
-    // 3. Handle response
-    // 4. Apply conflict resolution if needed
-    throw new Error('Not implemented');
+  // Tasks whose items were neither acknowledged nor failed, e.g. because an
+  // earlier operation for the task failed, go back to pending
+  private async releaseLease(lease: QueueLease): Promise<void> {
+    const taskIds = [...new Set(lease.items.map((item) => item.task_id))];
+    const released = await this.db.transaction(async () => {
+      await this.queue.release(lease.id);
+      return this.tasks.transitionSyncStatus(taskIds, 'in-progress', 'pending');
+    });
+
+    for (const taskId of released) {
+      await this.taskService.publishEvent('sync-status-changed', taskId);
+    }
   }
 
-  private async resolveConflict(localTask: Task, serverTask: Task): Promise<Task> {
-    // TODO: Implement last-write-wins conflict resolution
-    // 1. Compare updated_at timestamps
-    // 2. Return the more recent version
-    // 3. Log conflict resolution decision
-    throw new Error('Not implemented');
+  // Returns items whose lease expired to the queue, for runs that stopped
+  // mid-batch because the process crashed or was killed. Tasks left in
+  // progress go back to pending, or to synced if the run finished their
+  // items. Returns the number of items recovered.
+  async recoverExpiredLeases(): Promise<number> {
+    const now = new Date();
+    const { recovered, tasks } = await this.db.transaction(async () => {
+      const recovered = await this.queue.releaseExpired(now);
+      const tasks: string[] = [];
+      for (const taskId of await this.tasks.findIdsBySyncStatus(
+        'in-progress',
+      )) {
+        if (await this.queue.isLeased(taskId, now)) {
+          continue;
+        }
+        const remaining = await this.queue.countByTask(taskId);
+        await this.tasks.setSyncStatus(
+          taskId,
+          remaining > 0 ? 'pending' : 'synced',
+        );
+        tasks.push(taskId);
+      }
+      return { recovered, tasks };
+    });
+
+    for (const taskId of tasks) {
+      await this.taskService.publishEvent('sync-status-changed', taskId);
+    }
+    return recovered;
+  }
+
+  private async resolveConflict(
+    localTask: Task,
+    serverTask: Task,
+    strategy: ConflictStrategy,
+    result: SyncResult,
+    item?: SyncQueueItem,
+  ): Promise<ConflictResolution> {
+    const resolution = strategy.resolve({
+      local: localTask,
+      server: serverTask,
+      change: item?.data,
+      base: item?.base_data,
+    });
+    await this.conflictLog.record(
+      localTask.id,
+      localTask,
+      serverTask,
+      resolution,
+    );
+    result.conflicts++;
+    return resolution;
   }
 
-  private async updateSyncStatus(taskId: string, status: 'synced' | 'error', serverData?: Partial<Task>): Promise<void> {
-    // TODO: Update task sync status
-    // 1. Update sync_status field
-    // 2. Update server_id if provided
-    // 3. Update last_synced_at timestamp
-    // 4. Remove from sync queue if successful
-    throw new Error('Not implemented');
+  private async updateSyncStatus(
+    taskId: string,
+    status: 'synced' | 'error',
+    serverData?: Partial<Task>,
+  ): Promise<void> {
+    // Tasks with further queued operations stay pending until those sync too
+    const remaining = await this.queue.countByTask(taskId);
+    const nextStatus =
+      status === 'synced' && remaining > 0 ? 'pending' : status;
+
+    const changed = await this.tasks.setSyncStatus(
+      taskId,
+      nextStatus,
+      status === 'synced'
+        ? { server_id: serverData?.server_id, at: new Date() }
+        : undefined,
+    );
+    if (changed) {
+      await this.taskService.publishEvent('sync-status-changed', taskId);
+    }
   }
 
-  private async handleSyncError(item: SyncQueueItem, error: Error): Promise<void> {
-    // TODO: Handle sync errors
-    // 1. Increment retry count
-    // 2. Store error message
-    // 3. If retry count exceeds limit, mark as permanent failure
-    throw new Error('Not implemented');
+  private async handleSyncError(
+    item: SyncQueueItem,
+    error: Error,
+  ): Promise<void> {
+    const kind = classifySyncError(error);
+    const policy = getRetryPolicy(kind);
+    const retryCount = item.retry_count + 1;
+    const errorHistory = [
+      ...(item.error_history ?? []),
+      { error: error.message, kind, timestamp: new Date() },
+    ];
+
+    if (retryCount >= policy.maxAttempts) {
+      await this.deadLetters.add({
+        ...item,
+        retry_count: retryCount,
+        error_message: error.message,
+        error_history: errorHistory,
+      });
+      return;
+    }
+
+    await this.queue.recordFailure({
+      ...item,
+      retry_count: retryCount,
+      error_message: error.message,
+      error_history: errorHistory,
+      next_attempt_at: new Date(Date.now() + retryDelay(policy, retryCount)),
+    });
+    await this.updateSyncStatus(item.task_id, 'error');
   }
 
   async checkConnectivity(): Promise<boolean> {
-    // TODO: Check if server is reachable
-    // 1. Make a simple health check request
-    // 2. Return true if successful, false otherwise
     try {
       await axios.get(`${this.apiUrl}/health`, { timeout: 5000 });
       return true;
@@ -78,4 +620,220 @@ export class SyncService {
       return false;
     }
   }
-}
\ No newline at end of file
+
+  private async recordFailure(
+    item: SyncQueueItem,
+    error: Error,
+    result: SyncResult,
+  ): Promise<void> {
+    await this.handleSyncError(item, error);
+    result.failed_items++;
+    result.errors.push({
+      task_id: item.task_id,
+      operation: item.operation,
+      error: error.message,
+      timestamp: new Date(),
+    });
+  }
+
+  private async applyConflict(
+    item: SyncQueueItem,
+    serverTask: Task,
+    strategy: ConflictStrategy,
+    result: SyncResult,
+  ): Promise<void> {
+    // The local task reflects this edit and any later pending ones, which
+    // the resolution replaces
+    const localTask = await this.tasks.findById(item.task_id, {
+      includeDeleted: true,
+    });
+    if (!localTask) {
+      return;
+    }
+
+    const resolution = await this.resolveConflict(
+      localTask,
+      serverTask,
+      strategy,
+      result,
+      { ...item, data: localTask },
+    );
+    await this.queue.deleteByTask(item.task_id);
+    await this.applyResolution(localTask, serverTask, resolution);
+  }
+
+  private async applyResolution(
+    localTask: Task,
+    serverTask: Task,
+    resolution: ConflictResolution,
+  ): Promise<void> {
+    if (resolution.winner === 'server') {
+      await this.taskService.applyServerVersion(
+        localTask.id,
+        serverTask,
+        'conflict-resolution',
+      );
+      return;
+    }
+
+    // The resolved version differs from what the server holds, so it is
+    // stamped as a new edit on top of the server version and pushed on the
+    // next sync. The clock has already received the server's timestamp, so
+    // the new stamp orders after it.
+    const resolved: Task = {
+      ...resolution.resolved_task,
+      updated_at: new Date(),
+      version: serverTask.version + 1,
+      hlc: await this.clock.now(),
+    };
+    await this.taskService.applyServerVersion(
+      localTask.id,
+      resolved,
+      'conflict-resolution',
+    );
+    await this.addToSyncQueue(
+      localTask.id,
+      'update',
+      resolved,
+      baseData(serverTask),
+      serverTask.version,
+    );
+  }
+
+  // Registers this installation with the server on first use. Devices belong
+  // to a user, so each account registers separately.
+  private async deviceId(userId?: string): Promise<string> {
+    const key = deviceKey(userId);
+    const stored = await this.getSyncState(key);
+    if (stored) {
+      return stored;
+    }
+
+    const { data } = await axios.post(
+      `${this.apiUrl}/devices`,
+      { name: process.env.DEVICE_NAME || hostname() },
+      { headers: this.authHeaders(userId), timeout: 30000 },
+    );
+    const device = data as Device;
+    await this.setSyncState(key, device.id);
+    return device.id;
+  }
+
+  // Sends a request naming this installation's device. A server that no
+  // longer knows the stored device, e.g. because it was reset, answers
+  // UNKNOWN_DEVICE; the device is then registered again and the request
+  // sent once more.
+  private async withDevice<T>(
+    userId: string | undefined,
+    request: (deviceId: string) => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await request(await this.deviceId(userId));
+    } catch (error) {
+      const code = (error as { response?: { data?: { code?: string } } })
+        ?.response?.data?.code;
+      if (code !== 'UNKNOWN_DEVICE') {
+        throw error;
+      }
+      await this.db.run('DELETE FROM sync_state WHERE key = ?', [
+        deviceKey(userId),
+      ]);
+      return request(await this.deviceId(userId));
+    }
+  }
+
+  // Batches are sent with the owner's token, so each batch holds a single
+  // user's items
+  private toBatches(
+    items: SyncQueueItem[],
+    batchSize: number,
+  ): SyncQueueItem[][] {
+    const byOwner = new Map<string | undefined, SyncQueueItem[]>();
+    for (const item of items) {
+      const group = byOwner.get(item.user_id) ?? [];
+      group.push(item);
+      byOwner.set(item.user_id, group);
+    }
+
+    const batches: SyncQueueItem[][] = [];
+    const chunk = (group: SyncQueueItem[]) => {
+      for (let i = 0; i < group.length; i += batchSize) {
+        batches.push(group.slice(i, i + batchSize));
+      }
+    };
+    for (const group of byOwner.values()) {
+      // Items sent together before are resent together, ahead of new items,
+      // so the batch can keep its idempotency key
+      const resent = new Map<string, SyncQueueItem[]>();
+      const fresh: SyncQueueItem[] = [];
+      for (const item of group) {
+        if (item.batch_key === undefined) {
+          fresh.push(item);
+        } else {
+          resent.set(item.batch_key, [
+            ...(resent.get(item.batch_key) ?? []),
+            item,
+          ]);
+        }
+      }
+      resent.forEach(chunk);
+      chunk(fresh);
+    }
+    return batches;
+  }
+
+  // The engine acts for each task's owner with a short-lived token signed
+  // with JWT_SECRET, which the sync server must share
+  private authHeaders(userId?: string): Record<string, string> {
+    return userId
+      ? {
+          Authorization: `Bearer ${signToken(userId, SYNC_TOKEN_TTL_SECONDS)}`,
+        }
+      : {};
+  }
+
+  // Items whose next attempt is not due are skipped together with every
+  // later item for the same task, so per-task order is kept.
+  private filterDueItems(
+    items: SyncQueueItem[],
+    result: SyncResult,
+  ): SyncQueueItem[] {
+    const now = Date.now();
+    const waitingTasks = new Set<string>();
+    const due: SyncQueueItem[] = [];
+
+    for (const item of items) {
+      const notDue =
+        item.next_attempt_at !== undefined &&
+        item.next_attempt_at.getTime() > now;
+      if (notDue || waitingTasks.has(item.task_id)) {
+        waitingTasks.add(item.task_id);
+        result.deferred_items++;
+        continue;
+      }
+      due.push(item);
+    }
+
+    return due;
+  }
+
+  private async getSyncState(key: string): Promise<string | undefined> {
+    const row = await this.db.get(
+      'SELECT value FROM sync_state WHERE key = ?',
+      [key],
+    );
+    return row?.value;
+  }
+
+  private async setSyncState(key: string, value: string): Promise<void> {
+    await this.db.run(
+      `INSERT INTO sync_state (key, value) VALUES (?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+      [key, value],
+    );
+  }
+}
+
+function sameTime(a: Date | string, b: Date | string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
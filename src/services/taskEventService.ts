@@ -0,0 +1,124 @@
+import { EventEmitter } from 'events';
+import { Task, TaskEvent, TaskEventType } from '../types';
+import { Database } from '../db/database';
+
+interface PublishedEvent {
+  event: TaskEvent;
+  userId: string | null;
+}
+
+// One emitter per database, shared by every service using it, so events
+// published by the sync engine reach streams opened through the routes
+const emitters = new WeakMap<Database, EventEmitter>();
+
+function emitterFor(db: Database): EventEmitter {
+  let emitter = emitters.get(db);
+  if (!emitter) {
+    emitter = new EventEmitter();
+    // One listener per open stream
+    emitter.setMaxListeners(0);
+    emitters.set(db, emitter);
+  }
+  return emitter;
+}
+
+// Publishes task changes to live subscribers and keeps the most recent
+// TASK_EVENT_LOG_SIZE of them, so a client that reconnects can catch up on
+// what it missed. Given a user, only events for that user's tasks are
+// replayed or delivered.
+export class TaskEventService {
+  constructor(
+    private db: Database,
+    private userId?: string,
+  ) {}
+
+  async publish(
+    type: TaskEventType,
+    task: Task,
+    userId: string | null = null,
+  ): Promise<TaskEvent> {
+    const createdAt = new Date();
+    const { lastID } = await this.db.run(
+      `INSERT INTO task_events (user_id, task_id, type, task, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [userId, task.id, type, JSON.stringify(task), createdAt.toISOString()],
+    );
+
+    const logSize = parseInt(process.env.TASK_EVENT_LOG_SIZE || '1000', 10);
+    await this.db.run('DELETE FROM task_events WHERE id <= ?', [
+      lastID - Math.max(1, logSize),
+    ]);
+
+    const event: TaskEvent = {
+      id: lastID,
+      type,
+      task_id: task.id,
+      task,
+      created_at: createdAt,
+    };
+    const published: PublishedEvent = { event, userId };
+    emitterFor(this.db).emit('event', published);
+    return event;
+  }
+
+  // Events published after lastEventId, oldest first. Returns null when some
+  // of them have already been pruned from the log, in which case the client
+  // has to reload its tasks instead.
+  async since(lastEventId: number): Promise<TaskEvent[] | null> {
+    const oldest = await this.db.get('SELECT MIN(id) AS id FROM task_events');
+    if (oldest.id !== null && oldest.id > lastEventId + 1) {
+      return null;
+    }
+
+    const rows =
+      this.userId !== undefined
+        ? await this.db.all(
+            'SELECT * FROM task_events WHERE id > ? AND user_id = ? ORDER BY id',
+            [lastEventId, this.userId],
+          )
+        : await this.db.all(
+            'SELECT * FROM task_events WHERE id > ? ORDER BY id',
+            [lastEventId],
+          );
+    return rows.map(TaskEventService.fromRow);
+  }
+
+  // Id of the newest event in the log, or 0 when it is empty
+  async latestId(): Promise<number> {
+    const row = await this.db.get('SELECT MAX(id) AS id FROM task_events');
+    return row.id ?? 0;
+  }
+
+  // Calls the listener for every event published from now on. Returns a
+  // function that unsubscribes.
+  subscribe(listener: (event: TaskEvent) => void): () => void {
+    const emitter = emitterFor(this.db);
+    const handler = ({ event, userId }: PublishedEvent) => {
+      if (this.userId === undefined || userId === this.userId) {
+        listener(event);
+      }
+    };
+    emitter.on('event', handler);
+    return () => {
+      emitter.off('event', handler);
+    };
+  }
+
+  static fromRow(row: any): TaskEvent {
+    const task = JSON.parse(row.task);
+    return {
+      id: row.id,
+      type: row.type,
+      task_id: row.task_id,
+      task: {
+        ...task,
+        created_at: new Date(task.created_at),
+        updated_at: new Date(task.updated_at),
+        last_synced_at: task.last_synced_at
+          ? new Date(task.last_synced_at)
+          : undefined,
+      },
+      created_at: new Date(row.created_at),
+    };
+  }
+}
@@ -1,56 +1,828 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Task } from '../types';
+import {
+  Task,
+  TaskQuery,
+  CursorPage,
+  TaskEventType,
+  BulkOperation,
+  BulkOperationResult,
+  BulkMode,
+  BulkResult,
+  Page,
+  RevisionSource,
+  TaskRevision,
+  ImportRowResult,
+  RecurrenceScope,
+  SeriesTemplate,
+} from '../types';
 import { Database } from '../db/database';
+import { TaskRepository } from '../db/repositories/taskRepository';
+import { SyncQueueRepository } from '../db/repositories/syncQueueRepository';
+import { TaskRevisionRepository } from '../db/repositories/taskRevisionRepository';
+import { ValidationError } from '../utils/validation';
+import {
+  formatRecurrence,
+  nextOccurrence,
+  occurrenceId,
+  parseRecurrence,
+} from '../utils/recurrence';
+import { ClockService } from './clockService';
+import { TaskEventService } from './taskEventService';
+import { baseData } from './conflictStrategies';
 
+// Raised when a write names expected versions (If-Match) that do not
+// include the task's current one
+export class PreconditionFailedError extends Error {
+  public statusCode = 412;
+  public code = 'PRECONDITION_FAILED' as const;
+
+  constructor(public current: Task) {
+    super('Task has been modified since the given version');
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+// Raised when a restore names a revision the task does not have, or asks to
+// undelete a task that is not deleted
+export class RestoreError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 409,
+  ) {
+    super(message);
+    this.name = 'RestoreError';
+  }
+}
+
+// Given a user, every query is limited to that user's tasks and other
+// users' tasks behave as if they did not exist. Without one the service sees
+// every task, which is how the sync engine uses it. Each change is written
+// together with its sync queue item and a revision in one transaction, then
+// published to the task event stream.
 export class TaskService {
-  constructor(private db: Database) {}
+  private clock: ClockService;
+  private events: TaskEventService;
+  private tasks: TaskRepository;
+  private queue: SyncQueueRepository;
+  private revisions: TaskRevisionRepository;
+  // Events of a bulk request or import in progress, published once it
+  // commits
+  private deferredEvents: [TaskEventType, string][] | null = null;
 
+  constructor(
+    private db: Database,
+    private userId?: string,
+  ) {
+    this.clock = new ClockService(db);
+    this.events = new TaskEventService(db);
+    this.tasks = new TaskRepository(db, userId);
+    this.queue = new SyncQueueRepository(db);
+    this.revisions = new TaskRevisionRepository(db);
+  }
+
+  // A parent_task_id must name an existing task; a ValidationError is thrown
+  // otherwise. A task with a recurrence starts a series, with its due_at as
+  // the first occurrence.
   async createTask(taskData: Partial<Task>): Promise<Task> {
-    // TODO: Implement task creation
-    // 1. Generate UUID for the task
-    // 2. Set default values (completed: false, is_deleted: false)
-    // 3. Set sync_status to 'pending'
-    // 4. Insert into database
-    // 5. Add to sync queue
-    throw new Error('Not implemented');
-  }
-
-  async updateTask(id: string, updates: Partial<Task>): Promise<Task | null> {
-    // TODO: Implement task update
-    // 1. Check if task exists
-    // 2. Update task in database
-    // 3. Update updated_at timestamp
-    // 4. Set sync_status to 'pending'
-    // 5. Add to sync queue
-    throw new Error('Not implemented');
-  }
-
-  async deleteTask(id: string): Promise<boolean> {
-    // TODO: Implement soft delete
-    // 1. Check if task exists
-    // 2. Set is_deleted to true
-    // 3. Update updated_at timestamp
-    // 4. Set sync_status to 'pending'
-    // 5. Add to sync queue
-    throw new Error('Not implemented');
+    const task = await this.db.transaction(async () => {
+      if (taskData.parent_task_id) {
+        await this.checkParent(taskData.parent_task_id);
+      }
+      const now = new Date();
+      const task: Task = {
+        id: uuidv4(),
+        title: taskData.title as string,
+        description: taskData.description,
+        completed: taskData.completed ?? false,
+        created_at: now,
+        updated_at: now,
+        is_deleted: false,
+        version: 1,
+        hlc: await this.clock.now(),
+        sync_status: 'pending',
+        external_id: taskData.external_id,
+        due_at: taskData.due_at,
+        priority: taskData.priority,
+        tags: normalizeTags(taskData.tags ?? []),
+        parent_task_id: taskData.parent_task_id,
+      };
+      if (taskData.recurrence) {
+        Object.assign(task, startSeries(task, taskData.recurrence));
+      }
+      await this.insertTask(task);
+      return task;
+    });
+    await this.notify('created', task.id);
+
+    return task;
+  }
+
+  // expectedVersions, when given, must include the current version or a
+  // PreconditionFailedError is thrown. Null clears description, due_at,
+  // priority, parent_task_id and recurrence.
+  //
+  // For an occurrence of a recurring task, scope 'this' changes only this
+  // occurrence. Scope 'future' also changes the series, so that occurrences
+  // created from now on get the new title, description, priority, tags and
+  // recurrence, and applies those changes to the later occurrences already
+  // created. The recurrence can only be changed with scope 'future'.
+  async updateTask(
+    id: string,
+    updates: Partial<Task>,
+    expectedVersions?: number[],
+    scope: RecurrenceScope = 'this',
+  ): Promise<Task | null> {
+    const events: [TaskEventType, string][] = [];
+    const task = await this.db.transaction(() =>
+      this.applyUpdate(id, updates, expectedVersions, scope, events),
+    );
+    for (const [type, taskId] of events) {
+      await this.notify(type, taskId);
+    }
+
+    return task;
+  }
+
+  // Completing an occurrence creates the next one. cascade is false when
+  // applying a 'future' change to the later occurrences themselves.
+  private async applyUpdate(
+    id: string,
+    updates: Partial<Task>,
+    expectedVersions: number[] | undefined,
+    scope: RecurrenceScope,
+    events: [TaskEventType, string][],
+    cascade = true,
+  ): Promise<Task | null> {
+    const existing = await this.tasks.findById(id);
+    if (!existing) {
+      return null;
+    }
+    this.checkVersion(existing, expectedVersions);
+    if (
+      updates.parent_task_id &&
+      updates.parent_task_id !== existing.parent_task_id
+    ) {
+      await this.checkParent(updates.parent_task_id, id);
+    }
+
+    const task: Task = {
+      ...existing,
+      title: updates.title ?? existing.title,
+      description:
+        updates.description !== undefined
+          ? updates.description
+          : existing.description,
+      completed: updates.completed ?? existing.completed,
+      due_at: updates.due_at !== undefined ? updates.due_at : existing.due_at,
+      priority:
+        updates.priority !== undefined ? updates.priority : existing.priority,
+      tags:
+        updates.tags !== undefined
+          ? normalizeTags(updates.tags)
+          : existing.tags,
+      parent_task_id:
+        updates.parent_task_id !== undefined
+          ? updates.parent_task_id
+          : existing.parent_task_id,
+      updated_at: new Date(),
+      version: existing.version + 1,
+      hlc: await this.clock.now(),
+      sync_status: 'pending',
+    };
+    Object.assign(task, seriesChanges(existing, task, updates, scope));
+    if (!(await this.tasks.update(task, existing.version))) {
+      await this.raceLost(id, expectedVersions);
+      return this.applyUpdate(id, updates, undefined, scope, events, cascade);
+    }
+    await this.queue.enqueue(
+      id,
+      'update',
+      task,
+      baseData(existing),
+      existing.version,
+    );
+    await this.revisions.record(id, 'local');
+    events.push(['updated', id]);
+
+    const seriesUpdates = pickFields(updates, SERIES_FIELDS);
+    if (
+      cascade &&
+      scope === 'future' &&
+      existing.series_id &&
+      existing.occurrence_at &&
+      Object.keys(seriesUpdates).length > 0
+    ) {
+      const later = await this.tasks.findLaterOccurrences(
+        existing.series_id,
+        existing.occurrence_at,
+      );
+      for (const occurrence of later) {
+        await this.applyUpdate(
+          occurrence.id,
+          seriesUpdates,
+          undefined,
+          scope,
+          events,
+          false,
+        );
+      }
+    }
+    if (task.completed && !existing.completed) {
+      const next = await this.createNextOccurrence(task);
+      if (next) {
+        events.push(['created', next.id]);
+      }
+    }
+    return task;
+  }
+
+  // The occurrence following a completed one. Its id is derived from the
+  // series and its date, so a device that completes the same occurrence
+  // offline creates the same task and sync merges the two. Nothing is
+  // created when the series has ended or the occurrence exists already,
+  // including when it has been deleted.
+  private async createNextOccurrence(task: Task): Promise<Task | null> {
+    if (!task.recurrence || !task.series_id || !task.occurrence_at) {
+      return null;
+    }
+    const occurrenceAt = nextOccurrence(
+      parseRecurrence(task.recurrence),
+      new Date(task.occurrence_at),
+    );
+    if (!occurrenceAt) {
+      return null;
+    }
+    const id = occurrenceId(task.series_id, occurrenceAt);
+    const all = new TaskRepository(this.db);
+    if (await all.findById(id, { includeDeleted: true })) {
+      return null;
+    }
+
+    const template = task.series_template ?? seriesTemplate(task);
+    const now = new Date();
+    const next: Task = {
+      id,
+      title: template.title,
+      description: template.description,
+      completed: false,
+      created_at: now,
+      updated_at: now,
+      is_deleted: false,
+      version: 1,
+      hlc: await this.clock.now(),
+      sync_status: 'pending',
+      due_at: occurrenceAt,
+      priority: template.priority,
+      tags: template.tags ?? [],
+      parent_task_id: task.parent_task_id,
+      recurrence: task.recurrence,
+      series_id: task.series_id,
+      occurrence_at: occurrenceAt,
+      series_template: template,
+    };
+    const owner = await all.findWithOwner(task.id);
+    await this.insertTask(next, owner?.userId ?? undefined);
+    return next;
+  }
+
+  // Writes a new task with its sync queue item and first revision
+  private async insertTask(task: Task, userId?: string): Promise<void> {
+    await this.tasks.insert(task, userId);
+    await this.queue.enqueue(task.id, 'create', task);
+    await this.revisions.record(task.id, 'local');
+  }
+
+  // Subtasks are deleted with their parent, in the same transaction
+  async deleteTask(id: string, expectedVersions?: number[]): Promise<boolean> {
+    const deleted = await this.db.transaction(() =>
+      this.softDelete(id, expectedVersions),
+    );
+    for (const taskId of deleted) {
+      await this.notify('deleted', taskId);
+    }
+
+    return deleted.length > 0;
+  }
+
+  // Deletes the task and then its subtasks at any depth, each queued for
+  // sync as a delete of its own. Returns the ids deleted.
+  private async softDelete(
+    id: string,
+    expectedVersions?: number[],
+  ): Promise<string[]> {
+    const existing = await this.tasks.findById(id);
+    if (!existing) {
+      return [];
+    }
+    this.checkVersion(existing, expectedVersions);
+
+    const task: Task = {
+      ...existing,
+      is_deleted: true,
+      updated_at: new Date(),
+      version: existing.version + 1,
+      hlc: await this.clock.now(),
+      sync_status: 'pending',
+    };
+    if (!(await this.tasks.update(task, existing.version))) {
+      await this.raceLost(id, expectedVersions);
+      return this.softDelete(id);
+    }
+    await this.queue.enqueue(id, 'delete', task, undefined, existing.version);
+    await this.revisions.record(id, 'local');
+
+    const deleted = [id];
+    for (const subtaskId of await this.tasks.findSubtaskIds(id)) {
+      deleted.push(...(await this.softDelete(subtaskId)));
+    }
+    return deleted;
+  }
+
+  // Writes an earlier version of a task back as a new local edit, including
+  // its deleted state, and queues it for sync. Works on deleted tasks too.
+  async restoreTask(
+    id: string,
+    version: Task,
+    expectedVersions?: number[],
+  ): Promise<Task | null> {
+    const task = await this.db.transaction(async () => {
+      const existing = await this.tasks.findById(id, { includeDeleted: true });
+      if (!existing) {
+        return null;
+      }
+      this.checkVersion(existing, expectedVersions);
+
+      const task: Task = {
+        ...existing,
+        title: version.title,
+        description: version.description,
+        completed: version.completed,
+        due_at: version.due_at,
+        priority: version.priority,
+        tags: version.tags ?? [],
+        parent_task_id: version.parent_task_id,
+        recurrence: version.recurrence,
+        series_id: version.series_id,
+        occurrence_at: version.occurrence_at,
+        series_template: version.series_template,
+        is_deleted: version.is_deleted,
+        updated_at: new Date(),
+        version: existing.version + 1,
+        hlc: await this.clock.now(),
+        sync_status: 'pending',
+      };
+      await this.tasks.update(task);
+      await this.queue.enqueue(
+        id,
+        task.is_deleted ? 'delete' : 'update',
+        task,
+        baseData(existing),
+        existing.version,
+      );
+      await this.revisions.record(id, 'local');
+      return task;
+    });
+    if (task) {
+      await this.notify(task.is_deleted ? 'deleted' : 'updated', id);
+    }
+
+    return task;
+  }
+
+  // Restores the task to one of its revisions. Without a revision a deleted
+  // task is undeleted as it was when deleted.
+  async restoreRevision(
+    id: string,
+    revisionId?: string,
+    expectedVersions?: number[],
+  ): Promise<Task | null> {
+    return this.db.transaction(async () => {
+      const existing = await this.tasks.findById(id, { includeDeleted: true });
+      if (!existing) {
+        return null;
+      }
+      if (revisionId === undefined) {
+        if (!existing.is_deleted) {
+          throw new RestoreError('Task is not deleted');
+        }
+        return this.restoreTask(
+          id,
+          { ...existing, is_deleted: false },
+          expectedVersions,
+        );
+      }
+      const revision = await this.revisions.findById(id, revisionId);
+      if (!revision) {
+        throw new RestoreError('Revision not found', 404);
+      }
+      return this.restoreTask(id, revision.task, expectedVersions);
+    });
+  }
+
+  // Revisions of the task, newest first, or null if it does not exist.
+  // Deleted tasks keep their history.
+  async getHistory(
+    id: string,
+    options: { limit?: number; offset?: number } = {},
+  ): Promise<Page<TaskRevision> | null> {
+    if (!(await this.tasks.findById(id, { includeDeleted: true }))) {
+      return null;
+    }
+    return this.revisions.findByTask(id, options);
+  }
+
+  // Applies the operations in one transaction, each through the same path
+  // as a single change so it is queued for sync. In atomic mode the first
+  // failure rolls back every operation; in best-effort mode failed
+  // operations are reported and the rest still apply.
+  async bulk(
+    operations: BulkOperation[],
+    mode: BulkMode = 'atomic',
+  ): Promise<BulkResult> {
+    const results: BulkOperationResult[] = [];
+    const rollback = new Error('Bulk request rolled back');
+
+    try {
+      await this.transactionWithEvents(async () => {
+        for (const [index, operation] of operations.entries()) {
+          const failed = results.some((r) => r.status === 'failed');
+          if (failed && mode === 'atomic') {
+            results.push({ index, op: operation.op, status: 'skipped' });
+            continue;
+          }
+          results.push({ index, ...(await this.applyOperation(operation)) });
+        }
+        if (mode === 'atomic' && results.some((r) => r.status === 'failed')) {
+          throw rollback;
+        }
+      });
+    } catch (error) {
+      if (error !== rollback) {
+        throw error;
+      }
+      for (const result of results) {
+        if (result.status === 'success') {
+          result.status = 'rolled_back';
+        }
+      }
+    }
+
+    return {
+      mode,
+      success: results.every((r) => r.status === 'success'),
+      results,
+    };
+  }
+
+  // Creates each imported task in one transaction, unless a task with its
+  // external id already exists, e.g. from importing the same file before.
+  // Created tasks are queued for sync like any other.
+  async importTasks(
+    rows: { row: number; external_id: string; data: Partial<Task> }[],
+  ): Promise<ImportRowResult[]> {
+    return this.transactionWithEvents(async () => {
+      const results: ImportRowResult[] = [];
+      for (const { row, external_id, data } of rows) {
+        const existing = await this.tasks.findByExternalId(external_id);
+        if (existing) {
+          results.push({
+            row,
+            external_id,
+            status: 'duplicate',
+            id: existing.id,
+          });
+          continue;
+        }
+        const task = await this.createTask({ ...data, external_id });
+        results.push({ row, external_id, status: 'created', id: task.id });
+      }
+      return results;
+    });
+  }
+
+  // Tasks in creation order, read lazily so exports can be streamed
+  exportTasks(
+    options: { includeDeleted?: boolean } = {},
+  ): AsyncGenerator<Task> {
+    return this.tasks.iterate(options);
+  }
+
+  private async applyOperation(
+    operation: BulkOperation,
+  ): Promise<Omit<BulkOperationResult, 'index'>> {
+    const { op } = operation;
+    const expected =
+      op !== 'create' && operation.version !== undefined
+        ? [operation.version]
+        : undefined;
+    try {
+      if (op === 'create') {
+        const task = await this.createTask(operation.data);
+        return { op, status: 'success', id: task.id, task };
+      }
+      if (op === 'update') {
+        const task = await this.updateTask(
+          operation.id,
+          operation.data,
+          expected,
+          operation.scope,
+        );
+        return task
+          ? { op, status: 'success', id: task.id, task }
+          : notFound(op, operation.id);
+      }
+      return (await this.deleteTask(operation.id, expected))
+        ? { op, status: 'success', id: operation.id }
+        : notFound(op, operation.id);
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        return {
+          op,
+          status: 'failed',
+          id: error.current.id,
+          task: error.current,
+          error: error.message,
+          code: error.code,
+        };
+      }
+      if (error instanceof ValidationError) {
+        return {
+          op,
+          status: 'failed',
+          id: 'id' in operation ? operation.id : undefined,
+          error: error.details.map((detail) => detail.message).join('; '),
+          code: error.code,
+        };
+      }
+      throw error;
+    }
+  }
+
+  // The parent must be a task the caller can see, and not the task itself or
+  // one of its subtasks
+  private async checkParent(parentId: string, taskId?: string): Promise<void> {
+    const fail = (message: string) =>
+      new ValidationError([
+        { field: 'parent_task_id', code: 'invalid_value', message },
+      ]);
+    let ancestor = await this.tasks.findById(parentId);
+    if (!ancestor) {
+      throw fail('parent_task_id must name an existing task');
+    }
+    const seen = new Set<string>();
+    while (ancestor && !seen.has(ancestor.id)) {
+      if (ancestor.id === taskId) {
+        throw fail('A task cannot be a subtask of itself or its subtasks');
+      }
+      seen.add(ancestor.id);
+      ancestor = ancestor.parent_task_id
+        ? await this.tasks.findById(ancestor.parent_task_id)
+        : null;
+    }
+  }
+
+  private checkVersion(task: Task, expectedVersions?: number[]): void {
+    if (expectedVersions && !expectedVersions.includes(task.version)) {
+      throw new PreconditionFailedError(task);
+    }
+  }
+
+  // Called when a guarded UPDATE matched no row because another write landed
+  // between reading the task and writing it. A caller holding a precondition
+  // gets a PreconditionFailedError; otherwise the write is retried on top of
+  // the newer version.
+  private async raceLost(
+    id: string,
+    expectedVersions?: number[],
+  ): Promise<void> {
+    if (!expectedVersions) {
+      return;
+    }
+    const current = await this.tasks.findById(id, { includeDeleted: true });
+    throw new PreconditionFailedError(current as Task);
   }
 
   async getTask(id: string): Promise<Task | null> {
-    // TODO: Implement get single task
-    // 1. Query database for task by id
-    // 2. Return null if not found or is_deleted is true
-    throw new Error('Not implemented');
+    return this.tasks.findById(id);
   }
 
   async getAllTasks(): Promise<Task[]> {
-    // TODO: Implement get all non-deleted tasks
-    // 1. Query database for all tasks where is_deleted = false
-    // 2. Return array of tasks
-    throw new Error('Not implemented');
+    return this.tasks.findAll();
+  }
+
+  // Filtered, sorted page of non-deleted tasks with keyset pagination, so
+  // pages stay stable while tasks are added or edited
+  async listTasks(query: TaskQuery = {}): Promise<CursorPage<Task>> {
+    return this.tasks.findPage(query);
   }
 
   async getTasksNeedingSync(): Promise<Task[]> {
-    // TODO: Get all tasks with sync_status = 'pending' or 'error'
-    throw new Error('Not implemented');
+    return this.tasks.findNeedingSync();
+  }
+
+  // Overwrites the local copy with a version that came from the server,
+  // adopting the server's version number and clock timestamp. No sync queue
+  // entry is written since the server already has this state.
+  async applyServerVersion(
+    id: string,
+    serverTask: Task,
+    source: RevisionSource = 'sync-pull',
+  ): Promise<void> {
+    const applied = await this.db.transaction(async () => {
+      if (!(await this.tasks.applyServerVersion(id, serverTask))) {
+        return false;
+      }
+      await this.revisions.record(id, source);
+      return true;
+    });
+    if (applied) {
+      await this.publishEvent(
+        serverTask.is_deleted ? 'deleted' : 'updated',
+        id,
+      );
+    }
+  }
+
+  // Inserts a task first seen in the server's change feed, e.g. one created on
+  // another device. It is already in sync, so nothing is queued.
+  async insertServerVersion(
+    id: string,
+    serverTask: Task,
+    serverId: string,
+    userId: string | undefined = this.userId,
+  ): Promise<void> {
+    await this.db.transaction(async () => {
+      await this.tasks.insert(
+        {
+          id,
+          title: serverTask.title,
+          description: serverTask.description,
+          completed: Boolean(serverTask.completed),
+          created_at: new Date(serverTask.created_at),
+          updated_at: new Date(serverTask.updated_at),
+          is_deleted: Boolean(serverTask.is_deleted),
+          version: serverTask.version ?? 1,
+          hlc: serverTask.hlc,
+          due_at: serverTask.due_at ? new Date(serverTask.due_at) : undefined,
+          priority: serverTask.priority,
+          tags: serverTask.tags ?? [],
+          parent_task_id: serverTask.parent_task_id,
+          recurrence: serverTask.recurrence,
+          series_id: serverTask.series_id,
+          occurrence_at: serverTask.occurrence_at
+            ? new Date(serverTask.occurrence_at)
+            : undefined,
+          series_template: serverTask.series_template,
+          sync_status: 'synced',
+          server_id: serverId,
+          last_synced_at: new Date(),
+        },
+        userId,
+      );
+      await this.revisions.record(id, 'sync-pull');
+    });
+    await this.publishEvent('created', id);
+  }
+
+  // Runs fn in a transaction and publishes the events of its changes once it
+  // commits. They are dropped if it rolls back.
+  private async transactionWithEvents<T>(fn: () => Promise<T>): Promise<T> {
+    const events: [TaskEventType, string][] = [];
+    this.deferredEvents = events;
+    let result: T;
+    try {
+      result = await this.db.transaction(fn);
+    } finally {
+      this.deferredEvents = null;
+    }
+    for (const [type, id] of events) {
+      await this.publishEvent(type, id);
+    }
+    return result;
   }
-}
\ No newline at end of file
+
+  private async notify(type: TaskEventType, id: string): Promise<void> {
+    if (this.deferredEvents) {
+      this.deferredEvents.push([type, id]);
+    } else {
+      await this.publishEvent(type, id);
+    }
+  }
+
+  // Publishes the task as currently stored, so the event carries the owner
+  // and every server-managed field
+  async publishEvent(type: TaskEventType, id: string): Promise<void> {
+    const found = await new TaskRepository(this.db).findWithOwner(id);
+    if (found) {
+      await this.events.publish(type, found.task, found.userId);
+    }
+  }
+}
+
+// Trimmed, lowercase and sorted, so a tag matches however it was typed
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()))].sort();
+}
+
+const TEMPLATE_FIELDS = ['title', 'description', 'priority', 'tags'] as const;
+
+// Fields a 'future' change applies to the later occurrences
+const SERIES_FIELDS = [...TEMPLATE_FIELDS, 'recurrence'] as const;
+
+function pickFields<K extends keyof Task>(
+  task: Partial<Task>,
+  fields: readonly K[],
+): Partial<Pick<Task, K>> {
+  const picked: Partial<Pick<Task, K>> = {};
+  for (const field of fields) {
+    if (task[field] !== undefined) {
+      picked[field] = task[field];
+    }
+  }
+  return picked;
+}
+
+function seriesTemplate(task: Task): SeriesTemplate {
+  return pickFields(task, TEMPLATE_FIELDS) as SeriesTemplate;
+}
+
+// Makes the task the first occurrence of a series. The series is identified
+// by the id of that first occurrence.
+function startSeries(task: Task, recurrence: string): Partial<Task> {
+  const rule = formatRecurrence(parseRecurrence(recurrence));
+  if (!task.due_at) {
+    throw new ValidationError([
+      {
+        field: 'due_at',
+        code: 'required',
+        message: 'A recurring task needs a due_at for its first occurrence',
+      },
+    ]);
+  }
+  return {
+    recurrence: rule,
+    series_id: task.id,
+    occurrence_at: task.due_at,
+    series_template: seriesTemplate(task),
+  };
+}
+
+// The series fields of an updated task. A task that does not recur starts a
+// series when given a recurrence, whatever the scope.
+function seriesChanges(
+  existing: Task,
+  task: Task,
+  updates: Partial<Task>,
+  scope: RecurrenceScope,
+): Partial<Task> {
+  if (!existing.recurrence) {
+    return updates.recurrence ? startSeries(task, updates.recurrence) : {};
+  }
+  const recurrence = updates.recurrence
+    ? formatRecurrence(parseRecurrence(updates.recurrence))
+    : updates.recurrence;
+  if (scope === 'this') {
+    if (recurrence !== undefined && recurrence !== existing.recurrence) {
+      throw new ValidationError([
+        {
+          field: 'recurrence',
+          code: 'invalid_value',
+          message:
+            'The recurrence can only be changed for all future occurrences (scope=future)',
+        },
+      ]);
+    }
+    return {};
+  }
+
+  const changes: Partial<Task> = {
+    series_template: {
+      ...(existing.series_template ?? seriesTemplate(existing)),
+      ...pickFields(
+        task,
+        TEMPLATE_FIELDS.filter((field) => updates[field] !== undefined),
+      ),
+    },
+  };
+  // Null ends the series: this occurrence is its last
+  if (recurrence !== undefined) {
+    changes.recurrence = recurrence;
+  }
+  if (updates.due_at) {
+    changes.occurrence_at = updates.due_at;
+  }
+  return changes;
+}
+
+function notFound(
+  op: BulkOperation['op'],
+  id: string,
+): Omit<BulkOperationResult, 'index'> {
+  return {
+    op,
+    status: 'failed',
+    id,
+    error: 'Task not found',
+    code: 'NOT_FOUND',
+  };
+}
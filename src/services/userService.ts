@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AdoptionReport, User } from '../types';
+import { Database } from '../db/database';
+import { hashPassword, verifyPassword } from '../utils/password';
+
+export class AccountExistsError extends Error {
+  public statusCode = 409;
+  public code = 'CONFLICT' as const;
+
+  constructor(email: string) {
+    super(`An account for ${email} already exists`);
+    this.name = 'AccountExistsError';
+  }
+}
+
+export class UserService {
+  constructor(private db: Database) {}
+
+  async register(email: string, password: string): Promise<User> {
+    const user: User = { id: uuidv4(), email, created_at: new Date() };
+    try {
+      await this.db.run(
+        `INSERT INTO users (id, email, password_hash, created_at)
+         VALUES (?, ?, ?, ?)`,
+        [
+          user.id,
+          user.email,
+          await hashPassword(password),
+          user.created_at.toISOString(),
+        ],
+      );
+    } catch (error) {
+      // Emails are unique regardless of case
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT') {
+        throw new AccountExistsError(email);
+      }
+      throw error;
+    }
+    return user;
+  }
+
+  // Returns null for an unknown email or a wrong password alike
+  async authenticate(email: string, password: string): Promise<User | null> {
+    const row = await this.db.get('SELECT * FROM users WHERE email = ?', [
+      email,
+    ]);
+    if (!row || !(await verifyPassword(password, row.password_hash))) {
+      return null;
+    }
+    return UserService.fromRow(row);
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    const row = await this.db.get('SELECT * FROM users WHERE id = ?', [id]);
+    return row ? UserService.fromRow(row) : null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const row = await this.db.get('SELECT * FROM users WHERE email = ?', [
+      email,
+    ]);
+    return row ? UserService.fromRow(row) : null;
+  }
+
+  // Rows written before accounts existed have no owner and are visible to no
+  // one. Which account they belong to is the operator's call, so they are
+  // only handed over on request.
+  async adoptOwnerlessRows(userId: string): Promise<AdoptionReport> {
+    const adopt = async (table: string) =>
+      (
+        await this.db.run(
+          `UPDATE ${table} SET user_id = ? WHERE user_id IS NULL`,
+          [userId],
+        )
+      ).changes;
+
+    return this.db.transaction(async () => ({
+      user_id: userId,
+      tasks: await adopt('tasks'),
+      queued_changes: await adopt('sync_queue'),
+      server_tasks: await adopt('server_tasks'),
+      processed_items: await adopt('server_processed_items'),
+    }));
+  }
+
+  async listUserIds(): Promise<string[]> {
+    const rows = await this.db.all(
+      'SELECT id FROM users ORDER BY created_at, rowid',
+    );
+    return rows.map((row) => row.id);
+  }
+
+  static fromRow(row: any): User {
+    return {
+      id: row.id,
+      email: row.email,
+      created_at: new Date(row.created_at),
+    };
+  }
+}
@@ -1,3 +1,45 @@
+export interface User {
+  id: string;
+  email: string;
+  created_at: Date;
+}
+
+export interface AuthResponse {
+  // Bearer token for the Authorization header
+  token: string;
+  user: User;
+}
+
+// A client installation syncing on behalf of a user. Every batch names the
+// device it came from; a revoked device's batches are rejected.
+export interface Device {
+  id: string;
+  name: string;
+  created_at: Date;
+  // Last batch or change feed request from the device
+  last_seen_at?: Date;
+  // Last batch the server processed for the device
+  last_sync_at?: Date;
+  // server_timestamp of the last change feed response sent to the device
+  cursor?: Date;
+  revoked_at?: Date;
+}
+
+export type SyncStatus =
+  | 'pending'
+  | 'in-progress'
+  | 'synced'
+  | 'error'
+  | 'failed';
+
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+// Which occurrences of a recurring task an edit applies to: the edited one
+// alone, or it and every later one
+export type RecurrenceScope = 'this' | 'future';
+
 export interface Task {
   id: string;
   title: string;
@@ -6,28 +48,182 @@ export interface Task {
   created_at: Date;
   updated_at: Date;
   is_deleted: boolean;
-  sync_status?: 'pending' | 'synced' | 'error';
+  // Incremented on every change; exposed as the task's ETag
+  version: number;
+  // Hybrid logical clock timestamp of the latest change, used to order
+  // changes across devices whose wall clocks disagree
+  hlc: string;
+  sync_status?: SyncStatus;
   server_id?: string;
   last_synced_at?: Date;
+  // Id in the file or tool the task was imported from
+  external_id?: string;
+  due_at?: Date;
+  priority?: TaskPriority;
+  // Lowercase, without duplicates, in alphabetical order
+  tags: string[];
+  // Task this one is a subtask of; deleting it deletes its subtasks too
+  parent_task_id?: string;
+  // Recurrence rule, e.g. FREQ=MONTHLY;BYMONTHDAY=1. Completing an
+  // occurrence creates the next one.
+  recurrence?: string;
+  // Id of the series' first occurrence, shared by all its occurrences
+  series_id?: string;
+  // Date in the series this occurrence stands for. Its due_at starts out
+  // the same but can be moved without moving later occurrences.
+  occurrence_at?: Date;
+  series_template?: SeriesTemplate;
 }
 
+// Fields each new occurrence of a recurring task starts with. Edits to all
+// future occurrences change them; edits to a single occurrence do not.
+export type SeriesTemplate = Pick<
+  Task,
+  'title' | 'description' | 'priority' | 'tags'
+>;
+
 export interface SyncQueueItem {
   id: string;
   task_id: string;
-  operation: 'create' | 'update' | 'delete';
+  // Owner of the task; the item is pushed with a token for this user
+  user_id?: string;
+  operation: SyncOperation;
   data: Partial<Task>;
+  // Values of the edited fields before the change, used for field-level merges
+  base_data?: Partial<Task>;
+  // Task version the change was made against; the server reports a conflict
+  // when its copy has moved on. Undefined for creates.
+  base_version?: number;
+  // Hybrid logical clock timestamp of the change; undefined for items queued
+  // before clocks existed
+  hlc?: string;
   created_at: Date;
   retry_count: number;
   error_message?: string;
+  error_history?: SyncAttemptError[];
+  next_attempt_at?: Date;
+  // Idempotency key of the batch the item was last sent in; a batch of the
+  // same items is resent with the same key
+  batch_key?: string;
+}
+
+export type SyncErrorKind = 'network' | 'validation' | 'server' | 'auth';
+
+export interface SyncAttemptError {
+  error: string;
+  kind?: SyncErrorKind;
+  timestamp: Date;
+}
+
+export interface DeadLetterItem {
+  id: string;
+  task_id: string;
+  operation: SyncOperation;
+  data: Partial<Task>;
+  base_data?: Partial<Task>;
+  base_version?: number;
+  hlc?: string;
+  created_at: Date;
+  failed_at: Date;
+  retry_count: number;
+  error_history: SyncAttemptError[];
+}
+
+export interface DeadLetterFilter {
+  task_id?: string;
+  operation?: SyncOperation;
 }
 
 export interface SyncResult {
   success: boolean;
   synced_items: number;
   failed_items: number;
+  // Items skipped because their next retry is not due yet
+  deferred_items: number;
+  // Redundant queue items merged away before batching
+  compacted_items: number;
+  // Server changes applied to local tasks during the pull phase
+  pulled_items: number;
+  // Batch requests sent and the size of their JSON bodies
+  batches: number;
+  bytes_sent: number;
+  // Conflicts resolved during the push and pull phases
+  conflicts: number;
   errors: SyncError[];
 }
 
+export type SyncTrigger = 'manual' | 'scheduled';
+
+export interface SyncOptions {
+  strategy?: ConflictStrategyName;
+  // Recorded with the run; defaults to manual
+  trigger?: SyncTrigger;
+  // Limits the run to one account's queued changes and pull
+  userId?: string;
+}
+
+// 'interrupted' runs were still running when the next run started, e.g.
+// because the process stopped mid-sync
+export type SyncRunStatus = 'running' | 'succeeded' | 'failed' | 'interrupted';
+
+// A recorded sync run. Counts mirror the run's SyncResult; a run that threw
+// keeps zero counts and the error message.
+export interface SyncRun {
+  id: string;
+  trigger: SyncTrigger;
+  status: SyncRunStatus;
+  started_at: Date;
+  finished_at?: Date;
+  batches: number;
+  synced_items: number;
+  failed_items: number;
+  deferred_items: number;
+  compacted_items: number;
+  pulled_items: number;
+  conflicts: number;
+  bytes_sent: number;
+  error?: string;
+}
+
+export interface SchedulerStatus {
+  enabled: boolean;
+  running: boolean;
+  is_online: boolean | null;
+  syncing: boolean;
+  current_interval_ms: number;
+  consecutive_offline_checks: number;
+  last_check_at?: Date;
+  next_check_at?: Date;
+  last_sync_at?: Date;
+  last_result?: SyncResult;
+  last_error?: string;
+}
+
+// Rows written before accounts existed that the operator handed to an
+// account, by table
+export interface AdoptionReport {
+  user_id: string;
+  tasks: number;
+  queued_changes: number;
+  server_tasks: number;
+  processed_items: number;
+}
+
+// What a retention pass purged, or in a dry run would purge
+export interface RetentionReport {
+  dry_run: boolean;
+  // Deleted tasks whose deletion the server has confirmed. Counted only, so
+  // the report does not reveal which tasks other accounts had.
+  tombstones: number;
+  sync_runs: number;
+  conflicts: number;
+  revisions: number;
+  processed_items: number;
+  processed_batches: number;
+  events: number;
+  ran_at: Date;
+}
+
 export interface SyncError {
   task_id: string;
   operation: string;
@@ -35,22 +231,252 @@ export interface SyncError {
   timestamp: Date;
 }
 
+export type ConflictStrategyName =
+  | 'last-write-wins'
+  | 'client-wins'
+  | 'server-wins'
+  | 'field-merge';
+
 export interface ConflictResolution {
-  strategy: 'last-write-wins' | 'client-wins' | 'server-wins';
+  strategy: ConflictStrategyName;
+  winner: 'local' | 'server' | 'merged';
   resolved_task: Task;
+  reason: string;
+}
+
+export interface ConflictLogEntry {
+  id: string;
+  task_id: string;
+  strategy: ConflictStrategyName;
+  winner: ConflictResolution['winner'];
+  reason: string;
+  local_data: Task;
+  server_data: Task;
+  resolved_data: Task;
+  created_at: Date;
+  overridden_at?: Date;
+}
+
+export interface ConflictLogFilter {
+  task_id?: string;
+  strategy?: ConflictStrategyName;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  // Pass back as `cursor` to fetch the next page; null on the last page
+  next_cursor: string | null;
+}
+
+export type TaskSortField = 'created_at' | 'updated_at' | 'title';
+
+export interface TaskQuery {
+  completed?: boolean;
+  sync_status?: SyncStatus;
+  updated_after?: Date;
+  updated_before?: Date;
+  due_after?: Date;
+  due_before?: Date;
+  priority?: TaskPriority;
+  tag?: string;
+  parent_task_id?: string;
+  series_id?: string;
+  // Full-text search over title and description
+  search?: string;
+  sort?: TaskSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+// One operation of a bulk request. version, when given, must be the task's
+// current version, like If-Match on a single update or delete.
+export type BulkOperation =
+  | { op: 'create'; data: Partial<Task> }
+  | {
+      op: 'update';
+      id: string;
+      data: Partial<Task>;
+      version?: number;
+      scope?: RecurrenceScope;
+    }
+  | { op: 'delete'; id: string; version?: number };
+
+// atomic: any failure rolls back every operation. best-effort: failed
+// operations are reported and the others still apply.
+export type BulkMode = 'atomic' | 'best-effort';
+
+export interface BulkOperationResult {
+  index: number;
+  op: BulkOperation['op'];
+  // rolled_back: succeeded, then undone because another operation failed;
+  // skipped: not attempted after an earlier failure in atomic mode
+  status: 'success' | 'failed' | 'rolled_back' | 'skipped';
+  id?: string;
+  task?: Task;
+  error?: string;
+  code?: ErrorCode;
+}
+
+export interface BulkResult {
+  mode: BulkMode;
+  success: boolean;
+  results: BulkOperationResult[];
+}
+
+export type TaskFormat = 'json' | 'csv' | 'ics';
+
+// A task read from an import file, before validation. row counts from 1.
+export interface ImportRow {
+  row: number;
+  external_id: string;
+  data: unknown;
+  is_deleted: boolean;
+}
+
+export interface ImportRowResult {
+  row: number;
+  external_id?: string;
+  // duplicate: a task with the same external id already exists;
+  // skipped: the row is a deleted task
+  status: 'created' | 'duplicate' | 'skipped' | 'invalid';
+  id?: string;
+  errors?: FieldError[];
+}
+
+export interface ImportResult {
+  format: TaskFormat;
+  created: number;
+  duplicates: number;
+  skipped: number;
+  invalid: number;
+  results: ImportRowResult[];
+}
+
+// Where a revision came from: an edit on this device, a change pulled from
+// the server, or the outcome of a sync conflict
+export type RevisionSource = 'local' | 'sync-pull' | 'conflict-resolution';
+
+export interface TaskRevision {
+  id: string;
+  task_id: string;
+  version: number;
+  source: RevisionSource;
+  // The task as it was right after the change
+  task: Task;
+  created_at: Date;
+}
+
+export type TaskEventType =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'sync-status-changed';
+
+// A change to a task, as sent on the task event stream. Ids increase
+// monotonically and double as SSE event ids.
+export interface TaskEvent {
+  id: number;
+  type: TaskEventType;
+  task_id: string;
+  // The task as it was right after the change
+  task: Task;
+  created_at: Date;
 }
 
 export interface BatchSyncRequest {
+  // Registered device sending the batch
+  device_id: string;
   items: SyncQueueItem[];
   client_timestamp: Date;
+  // Sender's hybrid logical clock; the server advances its own past it
+  hlc?: string;
+  checksum: string;
+  // Identifies the batch across resends, e.g. after the client crashed
+  // before recording the response
+  idempotency_key?: string;
+}
+
+export interface ProcessedSyncItem {
+  client_id: string;
+  server_id: string;
+  status: 'success' | 'conflict' | 'error';
+  resolved_data?: Task;
+  error?: string;
 }
 
 export interface BatchSyncResponse {
-  processed_items: {
-    client_id: string;
-    server_id: string;
-    status: 'success' | 'conflict' | 'error';
-    resolved_data?: Task;
-    error?: string;
-  }[];
-}
\ No newline at end of file
+  processed_items: ProcessedSyncItem[];
+  // Server's hybrid logical clock after the batch; the client advances its
+  // own past it
+  hlc: string;
+}
+
+// A server task changed since the requested watermark. Deletions are sent as
+// tombstones with task.is_deleted set.
+export interface TaskChange {
+  client_id: string;
+  server_id: string;
+  task: Task;
+  // When the server applied the write; the watermark a client stops at to
+  // fetch the change again
+  server_modified_at?: Date;
+}
+
+export interface ChangesResponse {
+  changes: TaskChange[];
+  // Watermark to pass as `since` on the next pull
+  server_timestamp: Date;
+}
+
+// Machine-readable codes returned in the `code` field of error responses
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'DEVICE_REVOKED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'PRECONDITION_FAILED'
+  | 'SERVICE_UNAVAILABLE'
+  | 'INVALID_BATCH'
+  | 'CHECKSUM_MISMATCH'
+  | 'UNKNOWN_DEVICE'
+  | 'BULK_FAILED'
+  | 'INTERNAL_ERROR';
+
+export type FieldErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'too_short'
+  | 'too_long'
+  | 'out_of_range'
+  | 'invalid_value'
+  | 'read_only'
+  | 'unknown_field';
+
+export interface FieldError {
+  field: string;
+  code: FieldErrorCode;
+  message: string;
+}
+
+// Shape of every error response from the task and sync routes
+export interface ErrorResponse {
+  error: string;
+  code: ErrorCode;
+  details?: FieldError[];
+}
@@ -0,0 +1,41 @@
+import { createHash } from 'crypto';
+import { SyncQueueItem } from '../types';
+
+// Serializes a value with sorted object keys and Dates as ISO strings so
+// that the client (holding Date objects) and the server (holding the parsed
+// JSON strings) produce the same bytes for the same items.
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        const entry = (value as Record<string, unknown>)[key];
+        if (entry !== undefined) {
+          acc[key] = canonicalize(entry);
+        }
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+export function computeBatchChecksum(items: SyncQueueItem[]): string {
+  const payload = items.map((item) => ({
+    id: item.id,
+    task_id: item.task_id,
+    operation: item.operation,
+    data: item.data,
+    base_version: item.base_version,
+    hlc: item.hlc,
+    created_at: item.created_at,
+  }));
+  return createHash('sha256')
+    .update(JSON.stringify(canonicalize(payload)))
+    .digest('hex');
+}
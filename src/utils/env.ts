@@ -0,0 +1,5 @@
+// Integer environment variable, or the fallback when unset or not a number
+export function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
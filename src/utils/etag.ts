@@ -0,0 +1,20 @@
+import { Task } from '../types';
+
+// Strong ETag derived from the task's version
+export function taskETag(task: Task): string {
+  return `"${task.version}"`;
+}
+
+// Versions accepted by an If-Match header, or undefined when the header is
+// absent or `*`. Weak and malformed tags can never match a strong ETag, so
+// they contribute no versions and the precondition fails.
+export function parseIfMatch(header: string | undefined): number[] | undefined {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+  return header
+    .split(',')
+    .map((tag) => /^"(\d+)"$/.exec(tag.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => Number(match[1]));
+}
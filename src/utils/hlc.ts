@@ -0,0 +1,123 @@
+// Hybrid logical clock timestamps: wall-clock milliseconds, a counter that
+// orders events within one millisecond or while the local wall clock is
+// behind a timestamp already seen, and the id of the node that issued it.
+// Encoded with fixed-width numbers so timestamps compare correctly as plain
+// strings, in code and in SQL ORDER BY.
+
+export interface HlcTimestamp {
+  physical: number;
+  counter: number;
+  node: string;
+}
+
+const PHYSICAL_DIGITS = 15;
+const COUNTER_DIGITS = 5;
+const MAX_COUNTER = 10 ** COUNTER_DIGITS - 1;
+const HLC_PATTERN = /^(\d{15})-(\d{5})-(.*)$/;
+
+export function formatHlc({ physical, counter, node }: HlcTimestamp): string {
+  return [
+    String(physical).padStart(PHYSICAL_DIGITS, '0'),
+    String(counter).padStart(COUNTER_DIGITS, '0'),
+    node,
+  ].join('-');
+}
+
+export function isHlc(value: unknown): value is string {
+  return typeof value === 'string' && HLC_PATTERN.test(value);
+}
+
+export function parseHlc(value: string): HlcTimestamp {
+  const match = HLC_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(`Invalid HLC timestamp: ${value}`);
+  }
+  return {
+    physical: Number(match[1]),
+    counter: Number(match[2]),
+    node: match[3],
+  };
+}
+
+export function compareHlc(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Timestamp for data written before clocks existed, ordered by its wall
+// time ahead of any stamped event from the same millisecond
+export function hlcFromDate(date: Date | string): string {
+  return formatHlc({
+    physical: new Date(date).getTime(),
+    counter: 0,
+    node: '',
+  });
+}
+
+export class HybridLogicalClock {
+  private last: HlcTimestamp;
+
+  // maxDriftMs bounds how far ahead of the wall clock a received timestamp
+  // can move this clock, so one node with a clock set far in the future
+  // cannot drag every other node's clock along with it
+  constructor(
+    private node: string,
+    last?: string,
+    private wallClock: () => number = () => Date.now(),
+    private maxDriftMs: number = Infinity,
+  ) {
+    this.last = last ? parseHlc(last) : { physical: 0, counter: 0, node };
+  }
+
+  // Timestamp for a local event, later than every timestamp issued or
+  // received so far even if the wall clock went backwards
+  now(): string {
+    const wall = this.wallClock();
+    return this.advance(
+      wall > this.last.physical
+        ? { physical: wall, counter: 0, node: this.node }
+        : {
+            physical: this.last.physical,
+            counter: this.last.counter + 1,
+            node: this.node,
+          },
+    );
+  }
+
+  // Whether the timestamp is further ahead of the wall clock than the
+  // maximum drift allows
+  runsAhead(remote: string): boolean {
+    return parseHlc(remote).physical - this.wallClock() > this.maxDriftMs;
+  }
+
+  // Merges a timestamp from another node, so local events that follow it
+  // are ordered after it regardless of clock skew between the two. A
+  // timestamp that runs ahead is clamped to the maximum drift.
+  receive(remote: string): string {
+    const wall = this.wallClock();
+    const received = parseHlc(remote);
+    const other = this.runsAhead(remote)
+      ? { physical: wall + this.maxDriftMs, counter: 0, node: received.node }
+      : received;
+    const physical = Math.max(wall, this.last.physical, other.physical);
+
+    let counter = 0;
+    if (physical === this.last.physical && physical === other.physical) {
+      counter = Math.max(this.last.counter, other.counter) + 1;
+    } else if (physical === this.last.physical) {
+      counter = this.last.counter + 1;
+    } else if (physical === other.physical) {
+      counter = other.counter + 1;
+    }
+    return this.advance({ physical, counter, node: this.node });
+  }
+
+  private advance(next: HlcTimestamp): string {
+    // The counter only overflows when thousands of events share a
+    // millisecond; borrowing the next millisecond keeps ordering intact
+    this.last =
+      next.counter > MAX_COUNTER
+        ? { physical: next.physical + 1, counter: 0, node: next.node }
+        : next;
+    return formatHlc(this.last);
+  }
+}
@@ -0,0 +1,89 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Access tokens are HS256 JWTs signed with JWT_SECRET. Without it a random
+// secret is generated at startup, so tokens stop working after a restart.
+const SECRET = process.env.JWT_SECRET || randomBytes(32).toString('hex');
+const DEFAULT_TTL_SECONDS = parseInt(
+  process.env.JWT_TTL_SECONDS || String(24 * 60 * 60),
+  10,
+);
+
+export interface TokenPayload {
+  // User id
+  sub: string;
+  // Endpoint a short-lived token is limited to; absent on access tokens
+  scope?: string;
+  iat: number;
+  exp: number;
+}
+
+export class AuthenticationError extends Error {
+  public statusCode = 401;
+  public code = 'UNAUTHORIZED' as const;
+
+  constructor(message = 'Authentication required') {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(input: string): string {
+  return createHmac('sha256', SECRET).update(input).digest('base64url');
+}
+
+export function signToken(
+  userId: string,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS,
+  scope?: string,
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: TokenPayload = {
+    sub: userId,
+    ...(scope !== undefined && { scope }),
+    iat: now,
+    exp: now + ttlSeconds,
+  };
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${sign(input)}`;
+}
+
+// Throws an AuthenticationError unless the token carries a valid signature
+// and has not expired
+export function verifyToken(token: string): TokenPayload {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    throw new AuthenticationError('Malformed token');
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new AuthenticationError('Invalid token signature');
+  }
+
+  let claims: Partial<TokenPayload>;
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (alg !== 'HS256') {
+      throw new Error(`Unsupported algorithm ${alg}`);
+    }
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    throw new AuthenticationError('Malformed token');
+  }
+  if (
+    typeof claims.sub !== 'string' ||
+    typeof claims.exp !== 'number' ||
+    (claims.scope !== undefined && typeof claims.scope !== 'string')
+  ) {
+    throw new AuthenticationError('Malformed token');
+  }
+  if (claims.exp <= Date.now() / 1000) {
+    throw new AuthenticationError('Token has expired');
+  }
+  return claims as TokenPayload;
+}
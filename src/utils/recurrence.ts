@@ -0,0 +1,309 @@
+import { v5 as uuidv5 } from 'uuid';
+import { ValidationError } from './validation';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// A parsed recurrence rule: the subset of RFC 5545 RRULE this API supports,
+// plus TZID, which is not part of RRULE but says which time zone days are
+// counted in
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // Weekdays of WEEKLY rules, 0 for Monday
+  byDay?: number[];
+  // Days of the month of MONTHLY rules
+  byMonthDay?: number[];
+  // No occurrence falls after this
+  until?: Date;
+  // IANA time zone; UTC when not given
+  timeZone?: string;
+}
+
+const FREQUENCIES: readonly RecurrenceFrequency[] = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+];
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const MAX_INTERVAL = 1000;
+
+// Periods tried before giving up on a rule that matches no further date,
+// e.g. FREQ=MONTHLY;INTERVAL=12;BYMONTHDAY=30 started in February
+const MAX_PERIODS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Namespace of occurrence ids, so that they cannot collide with ids derived
+// for other purposes
+const OCCURRENCE_NAMESPACE = '3b5c1f0e-8d2a-4e6b-9f47-2c1d8a6e5b90';
+
+// Parses a rule such as FREQ=MONTHLY;BYMONTHDAY=1 or
+// FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;TZID=Asia/Kolkata. Parts may come in any
+// order and an RRULE: prefix is allowed. Raises a ValidationError for the
+// recurrence field when the rule is malformed or uses unsupported parts.
+export function parseRecurrence(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')) {
+    const [name, partValue, ...rest] = part.split('=');
+    const key = name.trim().toUpperCase();
+    if (!key || partValue === undefined || rest.length > 0) {
+      throw invalid(`"${part}" is not a NAME=VALUE part`);
+    }
+    if (parts.has(key)) {
+      throw invalid(`${key} is given more than once`);
+    }
+    parts.set(key, partValue.trim());
+  }
+
+  const freq = parts.get('FREQ')?.toUpperCase() as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw invalid(`FREQ must be one of: ${FREQUENCIES.join(', ')}`);
+  }
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = integer(name, partValue, 1, MAX_INTERVAL);
+        break;
+      case 'BYDAY':
+        if (freq !== 'WEEKLY') {
+          throw invalid('BYDAY is only supported with FREQ=WEEKLY');
+        }
+        rule.byDay = list(partValue, (day) => {
+          const index = WEEKDAYS.indexOf(day.toUpperCase());
+          if (index === -1) {
+            throw invalid(`BYDAY days must be one of: ${WEEKDAYS.join(', ')}`);
+          }
+          return index;
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (freq !== 'MONTHLY') {
+          throw invalid('BYMONTHDAY is only supported with FREQ=MONTHLY');
+        }
+        rule.byMonthDay = list(partValue, (day) => integer(name, day, 1, 31));
+        break;
+      case 'UNTIL':
+        rule.until = untilDate(partValue);
+        break;
+      case 'TZID':
+        if (!isTimeZone(partValue)) {
+          throw invalid(`${partValue} is not a known time zone`);
+        }
+        rule.timeZone = partValue;
+        break;
+      default:
+        throw invalid(`${name} is not supported`);
+    }
+  }
+  return rule;
+}
+
+// The rule in canonical form, so that every device stores and compares the
+// same text for the same rule
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.until) {
+    parts.push(
+      `UNTIL=${rule.until
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '')}`,
+    );
+  }
+  if (rule.timeZone) {
+    parts.push(`TZID=${rule.timeZone}`);
+  }
+  return parts.join(';');
+}
+
+// The first occurrence after the given one, at the same local time of day,
+// or null when the rule has ended. Depends only on its arguments, so every
+// device computes the same date.
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  current: Date,
+): Date | null {
+  const timeZone = rule.timeZone ?? 'UTC';
+  const wall = nextWallClock(rule, toWallClock(current, timeZone));
+  if (!wall) {
+    return null;
+  }
+  const next = fromWallClock(wall, timeZone);
+  return rule.until && next > rule.until ? null : next;
+}
+
+// Id of the occurrence of a series at the given date. Devices that create
+// the same occurrence independently give it the same id, so sync merges
+// them into one task.
+export function occurrenceId(seriesId: string, occurrenceAt: Date): string {
+  return uuidv5(
+    `${seriesId}/${occurrenceAt.toISOString()}`,
+    OCCURRENCE_NAMESPACE,
+  );
+}
+
+function invalid(message: string): ValidationError {
+  return new ValidationError([
+    { field: 'recurrence', code: 'invalid_value', message },
+  ]);
+}
+
+function integer(name: string, value: string, min: number, max: number) {
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < min || number > max) {
+    throw invalid(`${name} must be an integer from ${min} to ${max}`);
+  }
+  return number;
+}
+
+// Sorted and without duplicates
+function list(value: string, parse: (item: string) => number): number[] {
+  const items = value.split(',').map((item) => parse(item.trim()));
+  return [...new Set(items)].sort((a, b) => a - b);
+}
+
+// e.g. 20241231 or 20241231T235959Z
+function untilDate(value: string): Date {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/,
+  );
+  const date = match
+    ? new Date(
+        `${match[1]}-${match[2]}-${match[3]}T${match[4] ?? '23'}:${match[5] ?? '59'}:${match[6] ?? '59'}Z`,
+      )
+    : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw invalid('UNTIL must be a date like 20241231 or 20241231T235959Z');
+  }
+  return date;
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Rules are applied to wall-clock times, held in Dates whose UTC fields are
+// the local date and time
+function nextWallClock(rule: RecurrenceRule, wall: Date): Date | null {
+  const { interval } = rule;
+  if (rule.freq === 'DAILY') {
+    return new Date(wall.getTime() + interval * DAY_MS);
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const weekday = (wall.getUTCDay() + 6) % 7;
+    const days = rule.byDay ?? [weekday];
+    const later = days.find((day) => day > weekday);
+    const offset =
+      later !== undefined ? later - weekday : 7 * interval - weekday + days[0];
+    return new Date(wall.getTime() + offset * DAY_MS);
+  }
+
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth();
+  const day = wall.getUTCDate();
+  const at = (y: number, m: number, d: number) =>
+    new Date(
+      Date.UTC(
+        y,
+        m,
+        d,
+        wall.getUTCHours(),
+        wall.getUTCMinutes(),
+        wall.getUTCSeconds(),
+        wall.getUTCMilliseconds(),
+      ),
+    );
+
+  if (rule.freq === 'MONTHLY') {
+    const days = rule.byMonthDay ?? [day];
+    // Months without a listed day are skipped, as RFC 5545 requires
+    for (let period = 0; period <= MAX_PERIODS; period++) {
+      const first = new Date(Date.UTC(year, month + period * interval, 1));
+      const length = daysInMonth(first.getUTCFullYear(), first.getUTCMonth());
+      const next = days.find((d) => d <= length && (period > 0 || d > day));
+      if (next !== undefined) {
+        return at(first.getUTCFullYear(), first.getUTCMonth(), next);
+      }
+    }
+    return null;
+  }
+
+  // YEARLY; 29 February only recurs in leap years
+  for (let period = 1; period <= MAX_PERIODS; period++) {
+    const y = year + period * interval;
+    if (day <= daysInMonth(y, month)) {
+      return at(y, month, day);
+    }
+  }
+  return null;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function toWallClock(date: Date, timeZone: string): Date {
+  if (timeZone === 'UTC') {
+    return date;
+  }
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  return new Date(
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      date.getUTCMilliseconds(),
+    ),
+  );
+}
+
+// The instant showing the wall-clock time in the time zone. The offset is
+// looked up twice so that times near a daylight saving change use the
+// offset in force at the result.
+function fromWallClock(wall: Date, timeZone: string): Date {
+  const offset = (instant: Date) =>
+    toWallClock(instant, timeZone).getTime() - instant.getTime();
+  const guess = new Date(wall.getTime() - offset(wall));
+  return new Date(wall.getTime() - offset(guess));
+}
@@ -0,0 +1,86 @@
+import { SyncErrorKind } from '../types';
+
+export interface RetryPolicy {
+  // Total attempts before the item is moved to the dead letter queue
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// An error for a single item, as opposed to a failure of the whole batch
+// request, which is classified from the HTTP response instead.
+export class SyncItemError extends Error {
+  constructor(
+    message: string,
+    public kind: SyncErrorKind,
+  ) {
+    super(message);
+    this.name = 'SyncItemError';
+  }
+}
+
+export function getRetryPolicy(kind: SyncErrorKind): RetryPolicy {
+  const maxAttempts = parseInt(process.env.SYNC_RETRY_ATTEMPTS || '3', 10);
+
+  switch (kind) {
+    case 'network':
+      // Timeouts and unreachable servers are usually short-lived
+      return { maxAttempts, baseDelayMs: 2000, maxDelayMs: 60000 };
+    case 'server':
+      // Give an overloaded or failing server more room to recover
+      return { maxAttempts, baseDelayMs: 10000, maxDelayMs: 600000 };
+    case 'validation':
+      // The server rejected the payload; resending it unchanged cannot help
+      return { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 };
+    case 'auth':
+      // The server refused the account or device, not the items. They wait
+      // until the token or registration is fixed and are never dead-lettered.
+      return {
+        maxAttempts: Infinity,
+        baseDelayMs: 30000,
+        maxDelayMs: 3600000,
+      };
+  }
+}
+
+export function classifySyncError(error: unknown): SyncErrorKind {
+  if (error instanceof SyncItemError) {
+    return error.kind;
+  }
+
+  const response = (
+    error as { response?: { status?: number; data?: { code?: string } } }
+  )?.response;
+  const status = response?.status;
+  if (status === undefined) {
+    return 'network';
+  }
+  // Request timeouts and rate limiting are transient even though they are 4xx
+  if (status >= 500 || status === 408 || status === 429) {
+    return 'server';
+  }
+  // An expired token, or a revoked or unregistered device, fails every batch
+  // whatever its items
+  if (
+    status === 401 ||
+    status === 403 ||
+    response?.data?.code === 'UNKNOWN_DEVICE'
+  ) {
+    return 'auth';
+  }
+  return 'validation';
+}
+
+// Exponential backoff with equal jitter: half of the delay is fixed and the
+// other half random, so retries from many clients spread out.
+export function retryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 1),
+  );
+  return Math.round(exponential / 2 + (exponential / 2) * random());
+}
@@ -0,0 +1,429 @@
+import { createHash } from 'crypto';
+import { ImportRow, Task, TaskFormat, TaskPriority } from '../types';
+import { ValidationError } from './validation';
+
+export const TASK_FORMATS: readonly TaskFormat[] = ['json', 'csv', 'ics'];
+
+export const CONTENT_TYPES: Record<TaskFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  ics: 'text/calendar',
+};
+
+const CSV_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'completed',
+  'due_at',
+  'priority',
+  'tags',
+  'is_deleted',
+  'created_at',
+  'updated_at',
+] as const;
+
+// Separates a task's tags in its CSV tags column
+const CSV_TAG_SEPARATOR = ';';
+
+// iCalendar PRIORITY values: 1 to 4 are high, 5 medium and 6 to 9 low
+const ICS_PRIORITIES: Record<TaskPriority, number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+// Longest iCalendar content line in octets, excluding the line break
+const ICS_LINE_OCTETS = 75;
+
+// Id a task is exported under: the id it was imported with, if any, so a
+// task keeps one id across repeated export and import
+export function exportId(task: Task): string {
+  return task.external_id ?? task.id;
+}
+
+// Serializes tasks one chunk at a time, so the caller can stream them
+export async function* serializeTasks(
+  format: TaskFormat,
+  tasks: AsyncIterable<Task>,
+): AsyncGenerator<string> {
+  if (format === 'json') {
+    let first = true;
+    yield '[';
+    for await (const task of tasks) {
+      yield `${first ? '\n' : ',\n'}${JSON.stringify({ ...task, external_id: exportId(task) })}`;
+      first = false;
+    }
+    yield first ? ']\n' : '\n]\n';
+  } else if (format === 'csv') {
+    yield `${CSV_COLUMNS.join(',')}\r\n`;
+    for await (const task of tasks) {
+      const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+        id: exportId(task),
+        title: task.title,
+        description: task.description ?? '',
+        completed: String(task.completed),
+        due_at: task.due_at?.toISOString() ?? '',
+        priority: task.priority ?? '',
+        tags: task.tags.join(CSV_TAG_SEPARATOR),
+        is_deleted: String(task.is_deleted),
+        created_at: task.created_at.toISOString(),
+        updated_at: task.updated_at.toISOString(),
+      };
+      yield `${CSV_COLUMNS.map((column) => csvField(values[column])).join(',')}\r\n`;
+    }
+  } else {
+    yield icsLines([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Task Sync API//EN',
+    ]);
+    for await (const task of tasks) {
+      const status = task.is_deleted
+        ? 'CANCELLED'
+        : task.completed
+          ? 'COMPLETED'
+          : 'NEEDS-ACTION';
+      yield icsLines([
+        'BEGIN:VTODO',
+        `UID:${icsText(exportId(task))}`,
+        `DTSTAMP:${icsDate(task.updated_at)}`,
+        `CREATED:${icsDate(task.created_at)}`,
+        `LAST-MODIFIED:${icsDate(task.updated_at)}`,
+        `SUMMARY:${icsText(task.title)}`,
+        ...(task.description
+          ? [`DESCRIPTION:${icsText(task.description)}`]
+          : []),
+        ...(task.due_at ? [`DUE:${icsDate(task.due_at)}`] : []),
+        ...(task.priority ? [`PRIORITY:${ICS_PRIORITIES[task.priority]}`] : []),
+        ...(task.tags.length
+          ? [`CATEGORIES:${task.tags.map(icsText).join(',')}`]
+          : []),
+        `STATUS:${status}`,
+        'END:VTODO',
+      ]);
+    }
+    yield icsLines(['END:VCALENDAR']);
+  }
+}
+
+// Reads the tasks of an import file, given as text or, for JSON, already
+// parsed. Each row's data holds only the fields a task can be created with,
+// still to be validated. Rows without an id are given one derived from their
+// title and description. A file that cannot be read at all raises a
+// ValidationError.
+export function parseTasks(format: TaskFormat, body: unknown): ImportRow[] {
+  if (format === 'json' && typeof body !== 'string') {
+    return jsonRows(body);
+  }
+  if (typeof body !== 'string') {
+    throw malformed(`Send the file as ${CONTENT_TYPES[format]}`);
+  }
+  const content = body.replace(/^\uFEFF/, '');
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw malformed('File is not valid JSON');
+    }
+    return jsonRows(parsed);
+  }
+  if (format === 'csv') {
+    return csvRows(content);
+  }
+  return icsRows(content);
+}
+
+function malformed(message: string): ValidationError {
+  return new ValidationError([
+    { field: 'body', code: 'invalid_value', message },
+  ]);
+}
+
+function importRow(
+  row: number,
+  id: unknown,
+  data: Record<string, unknown>,
+  isDeleted: boolean,
+): ImportRow {
+  const externalId =
+    typeof id === 'string' && id.trim() !== ''
+      ? id.trim()
+      : `sha256:${createHash('sha256')
+          .update(
+            JSON.stringify([data.title ?? null, data.description ?? null]),
+          )
+          .digest('hex')}`;
+  return { row, external_id: externalId, data, is_deleted: isDeleted };
+}
+
+function jsonRows(parsed: unknown): ImportRow[] {
+  if (!Array.isArray(parsed)) {
+    throw malformed('JSON file must hold an array of tasks');
+  }
+  return parsed.map((entry, index) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return {
+        row: index + 1,
+        external_id: '',
+        data: entry,
+        is_deleted: false,
+      };
+    }
+    const {
+      external_id,
+      id,
+      title,
+      description,
+      completed,
+      due_at,
+      priority,
+      tags,
+      is_deleted,
+    } = entry as Record<string, unknown>;
+    // Subtask links are not imported, since parent ids belong to the source
+    return importRow(
+      index + 1,
+      external_id ?? id,
+      {
+        title,
+        description: description ?? undefined,
+        completed,
+        due_at: due_at ?? undefined,
+        priority: priority ?? undefined,
+        tags: tags ?? [],
+      },
+      is_deleted === true,
+    );
+  });
+}
+
+function csvRows(content: string): ImportRow[] {
+  const [header, ...records] = csvRecords(content);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  if (!columns.includes('title')) {
+    throw malformed('CSV file must have a header row with a title column');
+  }
+  const idColumn = columns.includes('external_id') ? 'external_id' : 'id';
+
+  return records.flatMap((record, index) => {
+    if (record.every((value) => value.trim() === '')) {
+      return [];
+    }
+    const value = (column: string) => {
+      const position = columns.indexOf(column);
+      return position === -1 ? undefined : record[position];
+    };
+    return [
+      importRow(
+        index + 1,
+        value(idColumn),
+        {
+          title: value('title'),
+          description: value('description') || undefined,
+          completed: csvBoolean(value('completed')),
+          due_at: value('due_at') || undefined,
+          priority: value('priority') || undefined,
+          tags: splitTags(value('tags') ?? '', CSV_TAG_SEPARATOR),
+        },
+        csvBoolean(value('is_deleted')) === true,
+      ),
+    ];
+  });
+}
+
+function splitTags(value: string, separator: string): string[] {
+  return value
+    .split(separator)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+// true/false, 1/0 and yes/no; other text is kept so validation reports it
+function csvBoolean(value: string | undefined): unknown {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+  if (['true', '1', 'yes'].includes(normalized)) {
+    return true;
+  }
+  if (['false', '0', 'no'].includes(normalized)) {
+    return false;
+  }
+  return value;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Splits RFC 4180 CSV into records; quoted fields may hold commas, quotes
+// and line breaks
+function csvRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw malformed('CSV file has an unterminated quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function icsRows(content: string): ImportRow[] {
+  // Folded lines continue on lines starting with a space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw malformed('iCalendar file must start with BEGIN:VCALENDAR');
+  }
+
+  const rows: ImportRow[] = [];
+  let properties: Map<string, string> | null = null;
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    // Parameters such as ;LANGUAGE=en are ignored
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+    if (name === 'BEGIN' && value.toUpperCase() === 'VTODO') {
+      properties = new Map();
+    } else if (
+      name === 'END' &&
+      value.toUpperCase() === 'VTODO' &&
+      properties
+    ) {
+      const status = properties.get('STATUS')?.toUpperCase();
+      const description = properties.get('DESCRIPTION');
+      const due = properties.get('DUE');
+      rows.push(
+        importRow(
+          rows.length + 1,
+          properties.get('UID'),
+          {
+            title: properties.get('SUMMARY'),
+            description: description || undefined,
+            completed: status === 'COMPLETED' || properties.has('COMPLETED'),
+            due_at: due ? icsParseDate(due) : undefined,
+            priority: icsPriority(properties.get('PRIORITY')),
+            tags: splitTags(properties.get('CATEGORIES') ?? '', ','),
+          },
+          status === 'CANCELLED',
+        ),
+      );
+      properties = null;
+    } else if (properties && !properties.has(name)) {
+      properties.set(name, icsUnescape(value));
+    }
+  }
+  return rows;
+}
+
+function icsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function icsUnescape(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+// e.g. 20240110T100000Z
+function icsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+// ISO 8601 form of a DATE or DATE-TIME value, read as UTC when it has no
+// zone; other text is kept so validation reports it
+function icsParseDate(value: string): string {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    return value;
+  }
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}.000Z`;
+}
+
+// 0 and a missing PRIORITY mean no priority
+function icsPriority(value: string | undefined): unknown {
+  const level = Number(value?.trim());
+  if (value === undefined || level === 0) {
+    return undefined;
+  }
+  if (!Number.isInteger(level) || level < 1 || level > 9) {
+    return value;
+  }
+  return level <= 4 ? 'high' : level === 5 ? 'medium' : 'low';
+}
+
+// Folds each line to at most 75 octets, without splitting a character
+function icsLines(lines: string[]): string {
+  return lines
+    .map((line) => {
+      const parts: string[] = [];
+      let part = '';
+      let octets = 0;
+      for (const char of line) {
+        const size = Buffer.byteLength(char);
+        // Continuation lines start with a space, which counts towards them
+        const limit =
+          parts.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+          parts.push(part);
+          part = '';
+          octets = 0;
+        }
+        part += char;
+        octets += size;
+      }
+      parts.push(part);
+      return `${parts.join('\r\n ')}\r\n`;
+    })
+    .join('');
+}
@@ -0,0 +1,224 @@
+import { FieldError } from '../types';
+
+export class ValidationError extends Error {
+  public statusCode = 400;
+  public code = 'VALIDATION_ERROR' as const;
+
+  constructor(public details: FieldError[]) {
+    super('Request validation failed');
+    this.name = 'ValidationError';
+  }
+}
+
+export interface FieldSchema {
+  type: 'string' | 'boolean' | 'integer' | 'date' | 'array';
+  required?: boolean;
+  // Accept null, e.g. to clear an optional field
+  nullable?: boolean;
+  // String length limits, checked after trimming
+  minLength?: number;
+  maxLength?: number;
+  // Integer bounds
+  min?: number;
+  max?: number;
+  enum?: readonly string[];
+  // Strings must match, e.g. the shape of an email address
+  pattern?: RegExp;
+  // Schema of each array item, and the most items allowed
+  items?: FieldSchema;
+  maxItems?: number;
+}
+
+export interface ObjectSchema {
+  fields: Record<string, FieldSchema>;
+  // Fields owned by the server; sending one is an error rather than being
+  // silently ignored
+  readOnly?: readonly string[];
+}
+
+// Validates a JSON request body. Unknown and read-only fields are rejected,
+// and every problem is reported at once.
+export function validateBody<T>(schema: ObjectSchema, body: unknown): T {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError([
+      {
+        field: 'body',
+        code: 'invalid_type',
+        message: 'Request body must be a JSON object',
+      },
+    ]);
+  }
+
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+  const input = body as Record<string, unknown>;
+
+  for (const field of Object.keys(input)) {
+    if (schema.readOnly?.includes(field)) {
+      errors.push({
+        field,
+        code: 'read_only',
+        message: `${field} is managed by the server and cannot be set`,
+      });
+    } else if (!(field in schema.fields)) {
+      errors.push({
+        field,
+        code: 'unknown_field',
+        message: `${field} is not a recognised field`,
+      });
+    }
+  }
+
+  for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+    const result = checkField(field, fieldSchema, input[field], false);
+    if ('error' in result) {
+      errors.push(result.error);
+    } else if (result.value !== undefined) {
+      value[field] = result.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return value as T;
+}
+
+// Validates query string parameters, converting integers and dates from
+// their string form. Unknown parameters are ignored.
+export function validateQuery<T>(
+  fields: Record<string, FieldSchema>,
+  query: Record<string, unknown>,
+): T {
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+
+  for (const [field, fieldSchema] of Object.entries(fields)) {
+    const result = checkField(field, fieldSchema, query[field], true);
+    if ('error' in result) {
+      errors.push(result.error);
+    } else if (result.value !== undefined) {
+      value[field] = result.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return value as T;
+}
+
+type FieldResult = { value: unknown } | { error: FieldError };
+
+function checkField(
+  field: string,
+  schema: FieldSchema,
+  raw: unknown,
+  fromString: boolean,
+): FieldResult {
+  const fail = (code: FieldError['code'], message: string): FieldResult => ({
+    error: { field, code, message },
+  });
+
+  if (raw === undefined) {
+    return schema.required
+      ? fail('required', `${field} is required`)
+      : { value: undefined };
+  }
+  if (raw === null) {
+    return schema.nullable
+      ? { value: null }
+      : fail('invalid_type', `${field} must not be null`);
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof raw !== 'string') {
+        return fail('invalid_type', `${field} must be a string`);
+      }
+      const trimmed = raw.trim();
+      if (schema.required && trimmed === '') {
+        return fail('required', `${field} must not be empty`);
+      }
+      if (schema.minLength !== undefined && trimmed.length < schema.minLength) {
+        return fail(
+          'too_short',
+          `${field} must be at least ${schema.minLength} characters`,
+        );
+      }
+      if (schema.maxLength !== undefined && trimmed.length > schema.maxLength) {
+        return fail(
+          'too_long',
+          `${field} must be at most ${schema.maxLength} characters`,
+        );
+      }
+      if (schema.pattern && !schema.pattern.test(trimmed)) {
+        return fail('invalid_value', `${field} is not in the expected format`);
+      }
+      if (schema.enum && !schema.enum.includes(trimmed)) {
+        return fail(
+          'invalid_value',
+          `${field} must be one of: ${schema.enum.join(', ')}`,
+        );
+      }
+      return { value: trimmed };
+    }
+
+    case 'boolean': {
+      if (fromString && (raw === 'true' || raw === 'false')) {
+        return { value: raw === 'true' };
+      }
+      return typeof raw === 'boolean'
+        ? { value: raw }
+        : fail('invalid_type', `${field} must be a boolean`);
+    }
+
+    case 'integer': {
+      const number = fromString && typeof raw === 'string' ? Number(raw) : raw;
+      if (typeof number !== 'number' || !Number.isInteger(number)) {
+        return fail('invalid_type', `${field} must be an integer`);
+      }
+      if (
+        (schema.min !== undefined && number < schema.min) ||
+        (schema.max !== undefined && number > schema.max)
+      ) {
+        return fail(
+          'out_of_range',
+          `${field} must be between ${schema.min ?? '-∞'} and ${schema.max ?? '∞'}`,
+        );
+      }
+      return { value: number };
+    }
+
+    case 'date': {
+      const date = typeof raw === 'string' ? new Date(raw) : null;
+      if (!date || Number.isNaN(date.getTime())) {
+        return fail('invalid_type', `${field} must be an ISO 8601 date`);
+      }
+      return { value: date };
+    }
+
+    case 'array': {
+      if (!Array.isArray(raw)) {
+        return fail('invalid_type', `${field} must be an array`);
+      }
+      if (schema.maxItems !== undefined && raw.length > schema.maxItems) {
+        return fail(
+          'too_long',
+          `${field} must contain at most ${schema.maxItems} items`,
+        );
+      }
+      const values: unknown[] = [];
+      for (const [index, item] of raw.entries()) {
+        const result = schema.items
+          ? checkField(`${field}[${index}]`, schema.items, item, fromString)
+          : { value: item };
+        if ('error' in result) {
+          return result;
+        }
+        values.push(result.value);
+      }
+      return { value: values };
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { Database } from '../src/db/database';
+import { UserService, AccountExistsError } from '../src/services/userService';
+import { TaskService } from '../src/services/taskService';
+import { signToken, verifyToken } from '../src/utils/jwt';
+import { hashPassword, verifyPassword } from '../src/utils/password';
+import {
+  requireAuth,
+  requireAdminToken,
+  requireEventStreamAuth,
+  signEventStreamToken,
+} from '../src/middleware/auth';
+
+describe('authentication', () => {
+  describe('tokens', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should round-trip the user id', () => {
+      expect(verifyToken(signToken('user-1')).sub).toBe('user-1');
+    });
+
+    it('should reject a token with a tampered payload', () => {
+      const [header, , signature] = signToken('user-1').split('.');
+      const payload = Buffer.from(
+        JSON.stringify({ sub: 'user-2', iat: 0, exp: 9999999999 }),
+      ).toString('base64url');
+
+      expect(() => verifyToken(`${header}.${payload}.${signature}`)).toThrow(
+        'Invalid token signature',
+      );
+    });
+
+    it('should reject an expired token', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const token = signToken('user-1', 60);
+      vi.setSystemTime(Date.now() + 61000);
+
+      expect(() => verifyToken(token)).toThrow('Token has expired');
+    });
+  });
+
+  describe('passwords', () => {
+    it('should verify only the original password', async () => {
+      const stored = await hashPassword('correct horse');
+
+      expect(stored).not.toContain('correct horse');
+      expect(await verifyPassword('correct horse', stored)).toBe(true);
+      expect(await verifyPassword('wrong horse', stored)).toBe(false);
+    });
+  });
+
+  describe('UserService', () => {
+    let db: Database;
+    let userService: UserService;
+
+    beforeEach(async () => {
+      db = new Database(':memory:');
+      await db.initialize();
+      userService = new UserService(db);
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    it('should authenticate a registered user', async () => {
+      const user = await userService.register('ada@example.com', 'secret123');
+
+      expect(
+        await userService.authenticate('ada@example.com', 'secret123'),
+      ).toEqual(user);
+      expect(
+        await userService.authenticate('ada@example.com', 'wrong-password'),
+      ).toBeNull();
+      expect(
+        await userService.authenticate('bob@example.com', 'secret123'),
+      ).toBeNull();
+    });
+
+    it('should reject a second account for the same email in any case', async () => {
+      await userService.register('ada@example.com', 'secret123');
+
+      await expect(
+        userService.register('ADA@example.com', 'other-secret'),
+      ).rejects.toBeInstanceOf(AccountExistsError);
+    });
+
+    it('should only hand ownerless tasks to the account chosen', async () => {
+      const task = await new TaskService(db).createTask({ title: 'Legacy' });
+      const ada = await userService.register('ada@example.com', 'secret123');
+      const bob = await userService.register('bob@example.com', 'secret123');
+      expect(await new TaskService(db, ada.id).getTask(task.id)).toBeNull();
+
+      expect(await userService.adoptOwnerlessRows(bob.id)).toEqual({
+        user_id: bob.id,
+        tasks: 1,
+        queued_changes: 1,
+        server_tasks: 0,
+        processed_items: 0,
+      });
+      expect(await new TaskService(db, bob.id).getTask(task.id)).not.toBeNull();
+      expect(await new TaskService(db, ada.id).getTask(task.id)).toBeNull();
+    });
+  });
+
+  describe('requireAuth', () => {
+    function request(authorization?: string) {
+      return {
+        get: (name: string) =>
+          name === 'Authorization' ? authorization : undefined,
+      } as Request;
+    }
+
+    function response() {
+      return { locals: {}, set: vi.fn() } as unknown as Response;
+    }
+
+    it('should expose the user id of a valid bearer token', () => {
+      const res = response();
+      const next = vi.fn();
+
+      requireAuth(request(`Bearer ${signToken('user-1')}`), res, next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(res.locals.userId).toBe('user-1');
+    });
+
+    it('should pass a 401 on to the error handler without a token', () => {
+      const res = response();
+      const next = vi.fn();
+
+      requireAuth(request(), res, next);
+
+      expect(next.mock.calls[0][0]).toMatchObject({
+        statusCode: 401,
+        code: 'UNAUTHORIZED',
+      });
+      expect(res.set).toHaveBeenCalledWith('WWW-Authenticate', 'Bearer');
+    });
+  });
+
+  describe('requireEventStreamAuth', () => {
+    function request(query: Record<string, string>) {
+      return { get: () => undefined, query } as unknown as Request;
+    }
+
+    function response() {
+      return { locals: {}, set: vi.fn() } as unknown as Response;
+    }
+
+    it('should accept a stream token in the query string', () => {
+      const res = response();
+      const next = vi.fn();
+
+      requireEventStreamAuth(
+        request({ access_token: signEventStreamToken('user-1') }),
+        res,
+        next,
+      );
+
+      expect(next).toHaveBeenCalledWith();
+      expect(res.locals.userId).toBe('user-1');
+    });
+
+    it('should refuse an access token in the query string', () => {
+      const next = vi.fn();
+
+      requireEventStreamAuth(
+        request({ access_token: signToken('user-1') }),
+        response(),
+        next,
+      );
+
+      expect(next.mock.calls[0][0]).toMatchObject({ statusCode: 401 });
+    });
+
+    it('should not let a stream token through requireAuth', () => {
+      const next = vi.fn();
+      const req = {
+        get: () => `Bearer ${signEventStreamToken('user-1')}`,
+      } as unknown as Request;
+
+      requireAuth(req, response(), next);
+
+      expect(next.mock.calls[0][0]).toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe('requireAdminToken', () => {
+    function request(token?: string) {
+      return {
+        get: (name: string) => (name === 'X-Admin-Token' ? token : undefined),
+      } as Request;
+    }
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should only let the configured admin token through', () => {
+      vi.stubEnv('ADMIN_TOKEN', 'operator-secret');
+      const next = vi.fn();
+
+      requireAdminToken(request('operator-secret'), {} as Response, next);
+      requireAdminToken(request('guess'), {} as Response, next);
+      requireAdminToken(request(), {} as Response, next);
+
+      expect(next.mock.calls[0]).toEqual([]);
+      for (const [error] of next.mock.calls.slice(1)) {
+        expect(error).toMatchObject({ statusCode: 403, code: 'FORBIDDEN' });
+      }
+    });
+
+    it('should refuse every request when no admin token is configured', () => {
+      vi.stubEnv('ADMIN_TOKEN', '');
+      const next = vi.fn();
+
+      requireAdminToken(request(''), {} as Response, next);
+
+      expect(next.mock.calls[0][0]).toMatchObject({ statusCode: 403 });
+    });
+  });
+});
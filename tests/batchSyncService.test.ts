@@ -0,0 +1,702 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { SyncService } from '../src/services/syncService';
+import { DeviceService } from '../src/services/deviceService';
+import {
+  BatchSyncService,
+  BatchSyncError,
+} from '../src/services/batchSyncService';
+import { computeBatchChecksum } from '../src/utils/checksum';
+import { compareHlc, formatHlc } from '../src/utils/hlc';
+import { occurrenceId } from '../src/utils/recurrence';
+import { SyncQueueItem } from '../src/types';
+import axios from 'axios';
+
+vi.mock('axios');
+
+const DEVICE_ID = 'device-1';
+
+function queueItem(overrides: Partial<SyncQueueItem>): SyncQueueItem {
+  return {
+    id: 'item-1',
+    task_id: 'task-1',
+    operation: 'create',
+    data: {
+      title: 'Task',
+      completed: false,
+      created_at: new Date('2024-01-10T10:00:00Z'),
+      updated_at: new Date('2024-01-10T10:00:00Z'),
+    },
+    created_at: new Date('2024-01-10T10:00:00Z'),
+    retry_count: 0,
+    ...overrides,
+  };
+}
+
+function batch(items: SyncQueueItem[], deviceId = DEVICE_ID) {
+  // Round-trip through JSON the way the HTTP request does
+  return JSON.parse(
+    JSON.stringify({
+      device_id: deviceId,
+      items,
+      client_timestamp: new Date(),
+      checksum: computeBatchChecksum(items),
+    }),
+  );
+}
+
+describe('BatchSyncService', () => {
+  let serverDb: Database;
+  let batchSyncService: BatchSyncService;
+
+  beforeEach(async () => {
+    serverDb = new Database(':memory:');
+    await serverDb.initialize();
+    batchSyncService = new BatchSyncService(serverDb);
+    await serverDb.run(
+      'INSERT INTO devices (id, name, created_at) VALUES (?, ?, ?)',
+      [DEVICE_ID, 'Test device', new Date().toISOString()],
+    );
+  });
+
+  afterEach(async () => {
+    await serverDb.close();
+    vi.clearAllMocks();
+  });
+
+  describe('checksum verification', () => {
+    it('should reject a batch whose checksum does not match', async () => {
+      const request = batch([queueItem({})]);
+      request.items[0].data.title = 'Tampered';
+
+      await expect(batchSyncService.processBatch(request)).rejects.toSatisfy(
+        (error) =>
+          error instanceof BatchSyncError && error.code === 'CHECKSUM_MISMATCH',
+      );
+      const rows = await serverDb.all('SELECT * FROM server_tasks');
+      expect(rows).toHaveLength(0);
+    });
+
+    it('should reject a request without items', async () => {
+      await expect(
+        batchSyncService.processBatch({} as never),
+      ).rejects.toMatchObject({ code: 'INVALID_BATCH' });
+    });
+  });
+
+  describe('processBatch', () => {
+    it('should create tasks and assign server ids', async () => {
+      const response = await batchSyncService.processBatch(
+        batch([queueItem({})]),
+      );
+
+      expect(response.processed_items).toHaveLength(1);
+      const [result] = response.processed_items;
+      expect(result.status).toBe('success');
+      expect(result.client_id).toBe('task-1');
+      expect(result.server_id).toMatch(/^srv_/);
+      expect(result.resolved_data?.title).toBe('Task');
+    });
+
+    it('should apply operations for a task in chronological order', async () => {
+      const response = await batchSyncService.processBatch(
+        batch([
+          queueItem({
+            id: 'item-2',
+            operation: 'update',
+            data: {
+              title: 'Second',
+              updated_at: new Date('2024-01-10T10:05:00Z'),
+            },
+            created_at: new Date('2024-01-10T10:05:00Z'),
+          }),
+          queueItem({ id: 'item-1' }),
+        ]),
+      );
+
+      expect(response.processed_items.map((r) => r.status)).toEqual([
+        'success',
+        'success',
+      ]);
+      const row = await serverDb.get('SELECT * FROM server_tasks');
+      expect(row.title).toBe('Second');
+    });
+
+    it('should keep due dates, priorities, tags and parents, and clear them on update', async () => {
+      await batchSyncService.processBatch(
+        batch([
+          queueItem({
+            data: {
+              ...queueItem({}).data,
+              due_at: new Date('2024-02-01T09:00:00Z'),
+              priority: 'high',
+              tags: ['home', 'work'],
+              parent_task_id: 'task-0',
+            },
+          }),
+          queueItem({
+            id: 'item-2',
+            operation: 'update',
+            data: {
+              due_at: null,
+              tags: ['home'],
+              updated_at: new Date('2024-01-10T10:05:00Z'),
+            } as unknown as SyncQueueItem['data'],
+            created_at: new Date('2024-01-10T10:05:00Z'),
+          }),
+        ]),
+      );
+
+      const { changes } = await batchSyncService.getChanges();
+      expect(changes[0].task).toMatchObject({
+        priority: 'high',
+        tags: ['home'],
+        parent_task_id: 'task-0',
+      });
+      expect(changes[0].task.due_at).toBeUndefined();
+    });
+
+    it('should be idempotent when a batch is retried', async () => {
+      const request = batch([queueItem({})]);
+
+      const first = await batchSyncService.processBatch(request);
+      const second = await batchSyncService.processBatch(request);
+
+      expect(second.processed_items[0].server_id).toBe(
+        first.processed_items[0].server_id,
+      );
+      const rows = await serverDb.all('SELECT * FROM server_tasks');
+      expect(rows).toHaveLength(1);
+    });
+
+    it('should report a conflict when the server copy is newer', async () => {
+      await batchSyncService.processBatch(
+        batch([
+          queueItem({}),
+          queueItem({
+            id: 'item-2',
+            operation: 'update',
+            data: {
+              title: 'Newer on server',
+              updated_at: new Date('2024-01-10T12:00:00Z'),
+            },
+            created_at: new Date('2024-01-10T12:00:00Z'),
+          }),
+        ]),
+      );
+
+      const response = await batchSyncService.processBatch(
+        batch([
+          queueItem({
+            id: 'item-3',
+            operation: 'update',
+            data: {
+              title: 'Stale edit',
+              updated_at: new Date('2024-01-10T11:00:00Z'),
+            },
+          }),
+        ]),
+      );
+
+      const [result] = response.processed_items;
+      expect(result.status).toBe('conflict');
+      expect(result.resolved_data?.title).toBe('Newer on server');
+    });
+
+    it('should let a delete win over an update with the same timestamp', async () => {
+      const tie = new Date('2024-01-10T12:00:00Z');
+      await batchSyncService.processBatch(
+        batch([
+          queueItem({}),
+          queueItem({
+            id: 'item-2',
+            operation: 'delete',
+            data: { updated_at: tie },
+            created_at: tie,
+          }),
+        ]),
+      );
+
+      const response = await batchSyncService.processBatch(
+        batch([
+          queueItem({
+            id: 'item-3',
+            operation: 'update',
+            data: { title: 'Edited', updated_at: tie },
+            created_at: tie,
+          }),
+        ]),
+      );
+
+      expect(response.processed_items[0].status).toBe('conflict');
+      expect(response.processed_items[0].resolved_data?.is_deleted).toBe(true);
+    });
+
+    it('should skip later operations for a task after one fails', async () => {
+      const response = await batchSyncService.processBatch(
+        batch([
+          queueItem({ operation: 'update', data: { completed: true } }),
+          queueItem({
+            id: 'item-2',
+            operation: 'update',
+            data: { title: 'Later' },
+            created_at: new Date('2024-01-10T10:05:00Z'),
+          }),
+        ]),
+      );
+
+      expect(response.processed_items.map((r) => r.status)).toEqual([
+        'error',
+        'error',
+      ]);
+    });
+  });
+
+  describe('version checks', () => {
+    async function createOnServer() {
+      await batchSyncService.processBatch(
+        batch([queueItem({ data: { ...queueItem({}).data, version: 1 } })]),
+      );
+    }
+
+    it('should apply a change made against the current version', async () => {
+      await createOnServer();
+
+      const response = await batchSyncService.processBatch(
+        batch([
+          queueItem({
+            id: 'item-2',
+            operation: 'update',
+            data: { title: 'Edited', version: 2 },
+            base_version: 1,
+          }),
+        ]),
+      );
+
+      expect(response.processed_items[0].status).toBe('success');
+      expect(response.processed_items[0].resolved_data?.version).toBe(2);
+    });
+
+    it('should report a conflict for a stale base version regardless of timestamps', async () => {
+      await createOnServer();
+      await batchSyncService.processBatch(
+        batch([
+          queueItem({
+            id: 'item-2',
+            operation: 'update',
+            data: { title: 'Other device', version: 2 },
+            base_version: 1,
+          }),
+        ]),
+      );
+
+      const response = await batchSyncService.processBatch(
+        batch([
+          queueItem({
+            id: 'item-3',
+            operation: 'update',
+            data: {
+              title: 'Stale edit',
+              version: 2,
+              updated_at: new Date('2030-01-01T00:00:00Z'),
+            },
+            base_version: 1,
+            hlc: formatHlc({ physical: 1000, counter: 0, node: 'b' }),
+          }),
+          queueItem({
+            id: 'item-4',
+            operation: 'update',
+            data: { completed: true, version: 3 },
+            base_version: 2,
+            hlc: formatHlc({ physical: 1000, counter: 1, node: 'b' }),
+          }),
+        ]),
+      );
+
+      expect(response.processed_items.map((r) => r.status)).toEqual([
+        'conflict',
+        'conflict',
+      ]);
+      const row = await serverDb.get('SELECT * FROM server_tasks');
+      expect(row.title).toBe('Other device');
+      expect(row.completed).toBe(0);
+    });
+  });
+
+  describe('ownership', () => {
+    it("should not let a user read or write another user's task", async () => {
+      const alice = new BatchSyncService(serverDb, 'alice');
+      const bob = new BatchSyncService(serverDb, 'bob');
+      const aliceDevice = await new DeviceService(serverDb, 'alice').register(
+        'Laptop',
+      );
+      const bobDevice = await new DeviceService(serverDb, 'bob').register(
+        'Phone',
+      );
+      await alice.processBatch(batch([queueItem({})], aliceDevice.id));
+
+      const response = await bob.processBatch(
+        batch(
+          [
+            queueItem({
+              id: 'item-2',
+              operation: 'update',
+              data: { title: 'Hijacked' },
+            }),
+          ],
+          bobDevice.id,
+        ),
+      );
+
+      expect(response.processed_items[0]).toMatchObject({
+        status: 'error',
+        error: 'Task not found on server',
+      });
+      expect((await bob.getChanges()).changes).toHaveLength(0);
+      const { changes } = await alice.getChanges();
+      expect(changes.map((c) => c.task.title)).toEqual(['Task']);
+    });
+
+    it('should keep the results of items with the same id apart per user', async () => {
+      const alice = new BatchSyncService(serverDb, 'alice');
+      const bob = new BatchSyncService(serverDb, 'bob');
+      const aliceDevice = await new DeviceService(serverDb, 'alice').register(
+        'Laptop',
+      );
+      const bobDevice = await new DeviceService(serverDb, 'bob').register(
+        'Phone',
+      );
+      await alice.processBatch(batch([queueItem({})], aliceDevice.id));
+
+      const response = await bob.processBatch(
+        batch([queueItem({ task_id: 'task-2' })], bobDevice.id),
+      );
+
+      expect(response.processed_items[0]).toMatchObject({
+        client_id: 'task-2',
+        status: 'success',
+      });
+      expect((await bob.getChanges()).changes).toHaveLength(1);
+    });
+  });
+
+  describe('idempotency keys', () => {
+    it('should replay the results of a batch resent with the same key', async () => {
+      const request = {
+        ...batch([
+          queueItem({}),
+          queueItem({ id: 'item-2', task_id: 'task-2' }),
+        ]),
+        idempotency_key: 'batch-1',
+      };
+      const first = await batchSyncService.processBatch(request);
+      const apply = vi.spyOn(batchSyncService as any, 'processItem');
+
+      const resent = await batchSyncService.processBatch(request);
+
+      // Compared as sent over HTTP
+      expect(JSON.stringify(resent.processed_items)).toBe(
+        JSON.stringify(first.processed_items),
+      );
+      expect(apply).not.toHaveBeenCalled();
+      expect(await serverDb.all('SELECT * FROM server_tasks')).toHaveLength(2);
+    });
+
+    it('should not record a batch with rejected items', async () => {
+      const request = {
+        ...batch([
+          queueItem({ operation: 'update', data: { completed: true } }),
+        ]),
+        idempotency_key: 'batch-1',
+      };
+
+      const response = await batchSyncService.processBatch(request);
+
+      expect(response.processed_items[0].status).toBe('error');
+      expect(
+        await serverDb.all('SELECT * FROM server_processed_batches'),
+      ).toHaveLength(0);
+    });
+
+    it('should reject an empty key', async () => {
+      await expect(
+        batchSyncService.processBatch({
+          ...batch([queueItem({})]),
+          idempotency_key: '',
+        }),
+      ).rejects.toThrow('idempotency_key must be a non-empty string');
+    });
+  });
+
+  describe('getChanges', () => {
+    it('should return tasks written since the watermark', async () => {
+      await batchSyncService.processBatch(batch([queueItem({})]));
+      await serverDb.run(
+        "UPDATE server_tasks SET server_modified_at = '2024-01-01T00:00:00.000Z'",
+      );
+
+      await batchSyncService.processBatch(
+        batch([
+          queueItem({
+            id: 'item-2',
+            task_id: 'task-2',
+            data: { title: 'Later' },
+          }),
+        ]),
+      );
+      const response = await batchSyncService.getChanges(
+        new Date('2024-01-02T00:00:00Z'),
+      );
+
+      expect(response.changes.map((c) => c.client_id)).toEqual(['task-2']);
+      expect(response.changes[0].server_id).toMatch(/^srv_/);
+    });
+
+    it('should include deleted tasks as tombstones', async () => {
+      await batchSyncService.processBatch(
+        batch([
+          queueItem({}),
+          queueItem({
+            id: 'item-2',
+            operation: 'delete',
+            data: { updated_at: new Date('2024-01-10T10:05:00Z') },
+            created_at: new Date('2024-01-10T10:05:00Z'),
+          }),
+        ]),
+      );
+
+      const { changes } = await batchSyncService.getChanges();
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].task.is_deleted).toBe(true);
+    });
+  });
+
+  describe('client round trip', () => {
+    it('should sync a client database against the batch endpoint', async () => {
+      const clientDb = new Database(':memory:');
+      await clientDb.initialize();
+      const taskService = new TaskService(clientDb);
+      const syncService = new SyncService(clientDb, taskService);
+      vi.mocked(axios.post).mockImplementation(async (url, body) => ({
+        data: url.endsWith('/devices')
+          ? await new DeviceService(serverDb).register('Client')
+          : await batchSyncService.processBatch(
+              JSON.parse(JSON.stringify(body)),
+            ),
+      }));
+      vi.mocked(axios.get).mockImplementation(async (_url, config) => ({
+        data: JSON.parse(
+          JSON.stringify(
+            await batchSyncService.getChanges(
+              config?.params?.since ? new Date(config.params.since) : undefined,
+              config?.params?.device_id,
+            ),
+          ),
+        ),
+      }));
+
+      const task = await taskService.createTask({ title: 'Round trip' });
+      await taskService.updateTask(task.id, { completed: true });
+      const result = await syncService.sync();
+
+      expect(result).toMatchObject({
+        success: true,
+        synced_items: 1,
+        compacted_items: 1,
+      });
+      const local = await clientDb.get('SELECT * FROM tasks WHERE id = ?', [
+        task.id,
+      ]);
+      expect(local.sync_status).toBe('synced');
+      expect(local.server_id).toMatch(/^srv_/);
+      const remote = await serverDb.get(
+        'SELECT * FROM server_tasks WHERE client_id = ?',
+        [task.id],
+      );
+      expect(remote.completed).toBe(1);
+
+      await clientDb.close();
+    });
+
+    it('should keep one next occurrence when two devices complete the same one offline', async () => {
+      vi.mocked(axios.post).mockImplementation(async (url, body) => ({
+        data: JSON.parse(
+          JSON.stringify(
+            url.endsWith('/devices')
+              ? await new DeviceService(serverDb).register('Client')
+              : await batchSyncService.processBatch(
+                  JSON.parse(JSON.stringify(body)),
+                ),
+          ),
+        ),
+      }));
+      vi.mocked(axios.get).mockImplementation(async (_url, config) => ({
+        data: JSON.parse(
+          JSON.stringify(
+            await batchSyncService.getChanges(
+              config?.params?.since ? new Date(config.params.since) : undefined,
+              config?.params?.device_id,
+            ),
+          ),
+        ),
+      }));
+      const devices = [];
+      for (let i = 0; i < 2; i++) {
+        const db = new Database(':memory:');
+        await db.initialize();
+        const taskService = new TaskService(db);
+        devices.push({
+          db,
+          taskService,
+          sync: new SyncService(db, taskService),
+        });
+      }
+      const [a, b] = devices;
+
+      const first = await a.taskService.createTask({
+        title: 'Water plants',
+        due_at: new Date('2025-06-02T08:00:00Z'),
+        recurrence: 'FREQ=WEEKLY',
+      });
+      await a.sync.sync();
+      await b.sync.sync();
+
+      await a.taskService.updateTask(first.id, { completed: true });
+      await b.taskService.updateTask(first.id, { completed: true });
+      await a.sync.sync();
+      await b.sync.sync();
+      await a.sync.sync();
+
+      const remote = await serverDb.all(
+        'SELECT client_id, due_at FROM server_tasks ORDER BY due_at',
+      );
+      expect(remote).toEqual([
+        { client_id: first.id, due_at: '2025-06-02T08:00:00.000Z' },
+        {
+          client_id: occurrenceId(first.id, new Date('2025-06-09T08:00:00Z')),
+          due_at: '2025-06-09T08:00:00.000Z',
+        },
+      ]);
+      for (const device of devices) {
+        const tasks = await device.taskService.getAllTasks();
+        expect(tasks.map((t) => t.id).sort()).toEqual(
+          remote.map((row) => row.client_id).sort(),
+        );
+        await device.db.close();
+      }
+    });
+  });
+
+  describe('clock skew', () => {
+    it('should reject a batch stamped further ahead than the maximum drift', async () => {
+      const farFuture = formatHlc({
+        physical: Date.now() + 7 * 24 * 60 * 60 * 1000,
+        counter: 0,
+        node: 'b',
+      });
+
+      await expect(
+        batchSyncService.processBatch(batch([queueItem({ hlc: farFuture })])),
+      ).rejects.toMatchObject({ code: 'INVALID_BATCH' });
+
+      expect(await serverDb.all('SELECT * FROM server_tasks')).toHaveLength(0);
+      const { hlc } = await batchSyncService.processBatch(
+        batch([queueItem({})]),
+      );
+      expect(compareHlc(hlc, farFuture)).toBe(-1);
+    });
+
+    const realStart = new Date('2024-06-01T12:00:00Z').getTime();
+    const MINUTE = 60000;
+
+    // Sets the wall clock a device sees `minutes` into the test
+    function at(minutes: number, skewMs = 0) {
+      vi.setSystemTime(realStart + minutes * MINUTE + skewMs);
+    }
+
+    async function device() {
+      const db = new Database(':memory:');
+      await db.initialize();
+      const taskService = new TaskService(db);
+      return { db, taskService, syncService: new SyncService(db, taskService) };
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should let a later edit win over one from a device whose clock runs ahead', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.mocked(axios.post).mockImplementation(async (url, body) => ({
+        data: JSON.parse(
+          JSON.stringify(
+            url.endsWith('/devices')
+              ? await new DeviceService(serverDb).register('Client')
+              : await batchSyncService.processBatch(
+                  JSON.parse(JSON.stringify(body)),
+                ),
+          ),
+        ),
+      }));
+      vi.mocked(axios.get).mockImplementation(async (_url, config) => ({
+        data: JSON.parse(
+          JSON.stringify(
+            await batchSyncService.getChanges(
+              config?.params?.since ? new Date(config.params.since) : undefined,
+              config?.params?.device_id,
+            ),
+          ),
+        ),
+      }));
+      const HOUR_AHEAD = 60 * MINUTE;
+      const a = await device();
+      const b = await device();
+
+      at(0, HOUR_AHEAD);
+      const task = await a.taskService.createTask({ title: 'Shared' });
+      await a.syncService.sync();
+      at(1);
+      await b.syncService.sync();
+
+      at(2, HOUR_AHEAD);
+      await a.taskService.updateTask(task.id, { title: 'Edited on A' });
+      await a.syncService.sync();
+
+      // B pushes an unrelated task, learning the server's clock, but loses
+      // the connection before pulling A's edit
+      at(3);
+      await b.taskService.createTask({ title: 'Unrelated' });
+      vi.mocked(axios.get).mockRejectedValueOnce(new Error('Network error'));
+      await b.syncService.sync();
+
+      at(4);
+      const edit = await b.taskService.updateTask(task.id, {
+        title: 'Edited on B',
+      });
+      const serverCopy = await serverDb.get(
+        'SELECT * FROM server_tasks WHERE client_id = ?',
+        [task.id],
+      );
+      expect(edit!.updated_at.getTime()).toBeLessThan(
+        new Date(serverCopy.updated_at).getTime(),
+      );
+      expect(compareHlc(edit!.hlc, serverCopy.hlc)).toBe(1);
+
+      await b.syncService.sync();
+      await b.syncService.sync();
+
+      const conflict = await b.db.get('SELECT * FROM sync_conflicts');
+      expect(conflict.winner).toBe('local');
+      const remote = await serverDb.get(
+        'SELECT * FROM server_tasks WHERE client_id = ?',
+        [task.id],
+      );
+      expect(remote.title).toBe('Edited on B');
+
+      await a.db.close();
+      await b.db.close();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import {
+  ConflictLogService,
+  ConflictOverrideError,
+} from '../src/services/conflictLogService';
+import { getConflictStrategy } from '../src/services/conflictStrategies';
+import { hlcFromDate } from '../src/utils/hlc';
+import { Task } from '../src/types';
+
+describe('ConflictLogService', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let conflictLogService: ConflictLogService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    conflictLogService = new ConflictLogService(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  async function recordConflict(local: Task, server: Partial<Task>) {
+    const serverTask = { ...local, ...server };
+    const resolution = getConflictStrategy('last-write-wins').resolve({
+      local,
+      server: serverTask,
+    });
+    return conflictLogService.record(local.id, local, serverTask, resolution);
+  }
+
+  describe('record', () => {
+    it('should store both snapshots, the winner and the reason', async () => {
+      const task = await taskService.createTask({ title: 'Local' });
+
+      await recordConflict(task, {
+        title: 'Server',
+        updated_at: new Date(Date.now() + 60000),
+        hlc: hlcFromDate(new Date(Date.now() + 60000)),
+      });
+
+      const { items } = await conflictLogService.list();
+      expect(items).toHaveLength(1);
+      expect(items[0].local_data.title).toBe('Local');
+      expect(items[0].server_data.title).toBe('Server');
+      expect(items[0].resolved_data.title).toBe('Server');
+      expect(items[0].winner).toBe('server');
+      expect(items[0].reason).toContain('more recent HLC timestamp');
+    });
+
+    it('should explain a timestamp tie broken by CONFLICT_PRIORITY', async () => {
+      const task = await taskService.createTask({ title: 'Local' });
+
+      const entry = await recordConflict(task, { is_deleted: true });
+
+      expect(entry.winner).toBe('server');
+      expect(entry.reason).toContain('CONFLICT_PRIORITY');
+    });
+  });
+
+  describe('list', () => {
+    it('should paginate and filter by task', async () => {
+      const task1 = await taskService.createTask({ title: 'Task 1' });
+      const task2 = await taskService.createTask({ title: 'Task 2' });
+      await recordConflict(task1, { title: 'A' });
+      await recordConflict(task1, { title: 'B' });
+      await recordConflict(task2, { title: 'C' });
+
+      const firstPage = await conflictLogService.list({ limit: 2 });
+      expect(firstPage.total).toBe(3);
+      expect(firstPage.items.map((c) => c.server_data.title)).toEqual([
+        'C',
+        'B',
+      ]);
+
+      const secondPage = await conflictLogService.list({ limit: 2, offset: 2 });
+      expect(secondPage.items.map((c) => c.server_data.title)).toEqual(['A']);
+
+      const forTask = await conflictLogService.list({ task_id: task2.id });
+      expect(forTask.total).toBe(1);
+    });
+
+    it('should filter by date range', async () => {
+      const task = await taskService.createTask({ title: 'Task' });
+      const entry = await recordConflict(task, { title: 'A' });
+
+      const before = new Date(entry.created_at.getTime() - 1000);
+      const after = new Date(entry.created_at.getTime() + 1000);
+
+      expect(
+        (await conflictLogService.list({ from: before, to: after })).total,
+      ).toBe(1);
+      expect((await conflictLogService.list({ from: after })).total).toBe(0);
+      expect((await conflictLogService.list({ to: before })).total).toBe(0);
+    });
+  });
+
+  describe('override', () => {
+    it('should restore the losing version and queue it for sync', async () => {
+      const task = await taskService.createTask({ title: 'Local' });
+      const entry = await recordConflict(task, {
+        title: 'Server',
+        updated_at: new Date(Date.now() + 60000),
+        hlc: hlcFromDate(new Date(Date.now() + 60000)),
+      });
+      await taskService.applyServerVersion(task.id, entry.resolved_data);
+      await db.run('DELETE FROM sync_queue');
+
+      const overridden = await conflictLogService.override(entry.id);
+
+      expect(overridden?.overridden_at).toBeInstanceOf(Date);
+      const restored = await taskService.getTask(task.id);
+      expect(restored?.title).toBe('Local');
+      expect(restored?.sync_status).toBe('pending');
+      const queue = await db.all('SELECT * FROM sync_queue WHERE task_id = ?', [
+        task.id,
+      ]);
+      expect(queue).toHaveLength(1);
+      expect(queue[0].operation).toBe('update');
+      expect(JSON.parse(queue[0].data).title).toBe('Local');
+    });
+
+    it('should undelete a task when the losing version was not deleted', async () => {
+      const task = await taskService.createTask({ title: 'Local' });
+      const entry = await recordConflict(task, { is_deleted: true });
+      await taskService.applyServerVersion(task.id, entry.resolved_data);
+      expect(await taskService.getTask(task.id)).toBeNull();
+
+      await conflictLogService.override(entry.id);
+
+      expect((await taskService.getTask(task.id))?.title).toBe('Local');
+    });
+
+    it('should refuse to override the same conflict twice', async () => {
+      const task = await taskService.createTask({ title: 'Local' });
+      const entry = await recordConflict(task, { title: 'Server' });
+      await conflictLogService.override(entry.id);
+
+      await expect(conflictLogService.override(entry.id)).rejects.toThrow(
+        ConflictOverrideError,
+      );
+    });
+
+    it('should restore the task only once for concurrent overrides', async () => {
+      const task = await taskService.createTask({ title: 'Local' });
+      const entry = await recordConflict(task, { title: 'Server' });
+      await db.run('DELETE FROM sync_queue');
+
+      const results = await Promise.allSettled([
+        conflictLogService.override(entry.id),
+        conflictLogService.override(entry.id),
+      ]);
+
+      expect(results.map((r) => r.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(await db.all('SELECT * FROM sync_queue')).toHaveLength(1);
+    });
+
+    it('should return null for an unknown conflict', async () => {
+      expect(await conflictLogService.override('non-existent-id')).toBeNull();
+    });
+  });
+});
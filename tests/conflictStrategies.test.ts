@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getConflictStrategy,
+  isConflictStrategyName,
+} from '../src/services/conflictStrategies';
+import { Task } from '../src/types';
+
+function task(overrides: Partial<Task>): Task {
+  return {
+    id: 'task-1',
+    title: 'Original',
+    description: 'Description',
+    completed: false,
+    created_at: new Date('2024-01-10T09:00:00Z'),
+    updated_at: new Date('2024-01-10T10:00:00Z'),
+    is_deleted: false,
+    ...overrides,
+  };
+}
+
+const base = {
+  title: 'Original',
+  description: 'Description',
+  completed: false,
+};
+
+describe('conflict strategies', () => {
+  describe('registry', () => {
+    it('should resolve every built-in strategy by name', () => {
+      for (const name of [
+        'last-write-wins',
+        'client-wins',
+        'server-wins',
+        'field-merge',
+      ]) {
+        expect(isConflictStrategyName(name)).toBe(true);
+        expect(getConflictStrategy(name).name).toBe(name);
+      }
+    });
+
+    it('should default to CONFLICT_STRATEGY and then last-write-wins', () => {
+      expect(getConflictStrategy().name).toBe('last-write-wins');
+
+      process.env.CONFLICT_STRATEGY = 'server-wins';
+      try {
+        expect(getConflictStrategy().name).toBe('server-wins');
+      } finally {
+        delete process.env.CONFLICT_STRATEGY;
+      }
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(isConflictStrategyName('coin-flip')).toBe(false);
+      expect(() => getConflictStrategy('coin-flip')).toThrow(
+        'Unknown conflict strategy',
+      );
+    });
+  });
+
+  describe('last-write-wins', () => {
+    it('should keep the more recently updated version', () => {
+      const local = task({
+        title: 'Local',
+        updated_at: new Date('2024-01-10T12:00:00Z'),
+      });
+      const server = task({
+        title: 'Server',
+        updated_at: new Date('2024-01-10T11:00:00Z'),
+      });
+
+      const resolution = getConflictStrategy('last-write-wins').resolve({
+        local,
+        server,
+      });
+
+      expect(resolution.winner).toBe('local');
+      expect(resolution.resolved_task.title).toBe('Local');
+    });
+
+    it('should let a local delete win a timestamp tie', () => {
+      const local = task({ is_deleted: true });
+      const server = task({ title: 'Server' });
+
+      const resolution = getConflictStrategy('last-write-wins').resolve({
+        local,
+        server,
+      });
+
+      expect(resolution.winner).toBe('local');
+    });
+  });
+
+  describe('client-wins and server-wins', () => {
+    it('should always pick their own side', () => {
+      const local = task({ title: 'Local' });
+      const server = task({
+        title: 'Server',
+        updated_at: new Date('2030-01-01'),
+      });
+
+      expect(
+        getConflictStrategy('client-wins').resolve({ local, server })
+          .resolved_task.title,
+      ).toBe('Local');
+      expect(
+        getConflictStrategy('server-wins').resolve({ local, server })
+          .resolved_task.title,
+      ).toBe('Server');
+    });
+  });
+
+  describe('field-merge', () => {
+    it('should keep non-overlapping edits from both sides', () => {
+      const local = task({ completed: true });
+      const server = task({
+        title: 'Renamed on another device',
+        updated_at: new Date('2024-01-10T11:00:00Z'),
+      });
+
+      const resolution = getConflictStrategy('field-merge').resolve({
+        local,
+        server,
+        change: { ...base, completed: true },
+        base,
+      });
+
+      expect(resolution.winner).toBe('merged');
+      expect(resolution.resolved_task.title).toBe('Renamed on another device');
+      expect(resolution.resolved_task.completed).toBe(true);
+    });
+
+    it('should use last-write-wins for a field edited on both sides', () => {
+      const local = task({ title: 'Local title' });
+      const server = task({
+        title: 'Server title',
+        updated_at: new Date('2024-01-10T11:00:00Z'),
+      });
+
+      const resolution = getConflictStrategy('field-merge').resolve({
+        local,
+        server,
+        change: { ...base, title: 'Local title' },
+        base,
+      });
+
+      expect(resolution.winner).toBe('server');
+      expect(resolution.resolved_task.title).toBe('Server title');
+      expect(resolution.reason).toContain('title edited on both sides');
+    });
+
+    it('should merge due dates, priorities and tags as they arrive from the queue', () => {
+      const local = task({
+        due_at: new Date('2024-02-01T09:00:00Z'),
+        tags: ['home', 'urgent'],
+      });
+      const server = task({
+        priority: 'high',
+        tags: ['home'],
+        updated_at: new Date('2024-01-10T11:00:00Z'),
+      });
+      // Queued values have been through JSON
+      const queuedBase = { ...base, due_at: undefined, tags: ['home'] };
+
+      const resolution = getConflictStrategy('field-merge').resolve({
+        local,
+        server,
+        change: JSON.parse(JSON.stringify(local)),
+        base: queuedBase,
+      });
+
+      expect(resolution.winner).toBe('merged');
+      expect(resolution.resolved_task).toMatchObject({
+        due_at: '2024-02-01T09:00:00.000Z',
+        priority: 'high',
+        tags: ['home', 'urgent'],
+      });
+      expect(resolution.reason).toContain('kept local due_at, tags');
+    });
+
+    it('should fall back to last-write-wins without a base version', () => {
+      const local = task({ title: 'Local' });
+      const server = task({
+        title: 'Server',
+        updated_at: new Date('2024-01-10T11:00:00Z'),
+      });
+
+      const resolution = getConflictStrategy('field-merge').resolve({
+        local,
+        server,
+      });
+
+      expect(resolution.strategy).toBe('field-merge');
+      expect(resolution.resolved_task.title).toBe('Server');
+    });
+  });
+});
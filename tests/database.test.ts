@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from '../src/db/database';
+
+describe('Database', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.run('CREATE TABLE items (name TEXT)');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  async function names(): Promise<string[]> {
+    const rows = await db.all('SELECT name FROM items ORDER BY rowid');
+    return rows.map((row) => row.name);
+  }
+
+  describe('transaction', () => {
+    it('should commit when the function resolves', async () => {
+      const result = await db.transaction(async () => {
+        await db.run("INSERT INTO items (name) VALUES ('a')");
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(await names()).toEqual(['a']);
+    });
+
+    it('should roll back when the function throws', async () => {
+      await expect(
+        db.transaction(async () => {
+          await db.run("INSERT INTO items (name) VALUES ('a')");
+          throw new Error('failed');
+        }),
+      ).rejects.toThrow('failed');
+
+      expect(await names()).toEqual([]);
+    });
+
+    it('should roll back only a nested transaction that throws', async () => {
+      await db.transaction(async () => {
+        await db.run("INSERT INTO items (name) VALUES ('outer')");
+        await expect(
+          db.transaction(async () => {
+            await db.run("INSERT INTO items (name) VALUES ('inner')");
+            await db.transaction(() =>
+              db.run("INSERT INTO items (name) VALUES ('innermost')"),
+            );
+            throw new Error('failed');
+          }),
+        ).rejects.toThrow('failed');
+        await db.transaction(() =>
+          db.run("INSERT INTO items (name) VALUES ('sibling')"),
+        );
+      });
+
+      expect(await names()).toEqual(['outer', 'sibling']);
+    });
+
+    it('should run concurrent transactions one after the other', async () => {
+      const order: string[] = [];
+      const write = (name: string) =>
+        db.transaction(async () => {
+          order.push(`${name}:start`);
+          await db.run('INSERT INTO items (name) VALUES (?)', [name]);
+          order.push(`${name}:end`);
+        });
+
+      await Promise.all([write('a'), write('b')]);
+
+      expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+      expect(await names()).toEqual(['a', 'b']);
+    });
+
+    it('should keep statements from outside out of a transaction that rolls back', async () => {
+      let started!: () => void;
+      let fail!: () => void;
+      const writing = db.transaction(async () => {
+        await db.run("INSERT INTO items (name) VALUES ('inside')");
+        started();
+        await new Promise<void>(
+          (_, reject) => (fail = () => reject(new Error('failed'))),
+        );
+      });
+      await new Promise<void>((resolve) => (started = resolve));
+      const outside = db.run("INSERT INTO items (name) VALUES ('outside')");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      fail();
+
+      await expect(writing).rejects.toThrow('failed');
+      await outside;
+
+      expect(await names()).toEqual(['outside']);
+    });
+  });
+
+  describe('vacuum', () => {
+    it('should wait for the transaction in flight', async () => {
+      let finish!: () => void;
+      const writing = db.transaction(async () => {
+        await db.run("INSERT INTO items (name) VALUES ('a')");
+        await new Promise<void>((resolve) => (finish = resolve));
+      });
+      const vacuumed = db.vacuum();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      finish();
+
+      await Promise.all([writing, vacuumed]);
+
+      expect(await names()).toEqual(['a']);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { SyncService } from '../src/services/syncService';
+import { DeadLetterService } from '../src/services/deadLetterService';
+import axios from 'axios';
+
+vi.mock('axios');
+
+describe('DeadLetterService', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let syncService: SyncService;
+  let deadLetterService: DeadLetterService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    syncService = new SyncService(db, taskService);
+    // Registered with the server, so syncs skip device registration
+    await db.run("INSERT INTO sync_state (key, value) VALUES ('device_id', ?)", [
+      'device-1',
+    ]);
+    deadLetterService = new DeadLetterService(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    vi.clearAllMocks();
+  });
+
+  // Makes every queued item due again, skipping the retry backoff
+  async function expireBackoff() {
+    await db.run('UPDATE sync_queue SET next_attempt_at = NULL');
+  }
+
+  async function failSyncTimes(times: number) {
+    for (let i = 0; i < times; i++) {
+      await expireBackoff();
+      vi.mocked(axios.post).mockRejectedValueOnce(
+        new Error(`Network error ${i + 1}`),
+      );
+      await syncService.sync();
+    }
+  }
+
+  describe('moving items to the dead letter queue', () => {
+    it('should dead-letter an item after three failed attempts', async () => {
+      const task = await taskService.createTask({ title: 'Flaky Task' });
+
+      await failSyncTimes(2);
+      expect(await deadLetterService.list()).toHaveLength(0);
+
+      await expireBackoff();
+      vi.mocked(axios.post).mockRejectedValueOnce(new Error('Server error'));
+      await syncService.sync();
+      const deadLetters = await deadLetterService.list();
+      expect(deadLetters).toHaveLength(1);
+      expect(deadLetters[0].task_id).toBe(task.id);
+      expect(deadLetters[0].retry_count).toBe(3);
+      expect(deadLetters[0].error_history.map((e) => e.error)).toEqual([
+        'Network error 1',
+        'Network error 2',
+        'Server error',
+      ]);
+
+      const queue = await db.all('SELECT * FROM sync_queue');
+      expect(queue).toHaveLength(0);
+
+      const row = await db.get('SELECT sync_status FROM tasks WHERE id = ?', [
+        task.id,
+      ]);
+      expect(row.sync_status).toBe('failed');
+    });
+
+    it('should hold back later operations for a dead-lettered task', async () => {
+      const task = await taskService.createTask({ title: 'Flaky Task' });
+      await failSyncTimes(3);
+
+      await taskService.updateTask(task.id, { completed: true });
+      const result = await syncService.sync();
+
+      expect(axios.post).toHaveBeenCalledTimes(3);
+      expect(result.synced_items).toBe(0);
+    });
+  });
+
+  describe('list', () => {
+    it('should filter by task and operation', async () => {
+      const task1 = await taskService.createTask({ title: 'Task 1' });
+      const task2 = await taskService.createTask({ title: 'Task 2' });
+      await failSyncTimes(3);
+
+      expect(await deadLetterService.list()).toHaveLength(2);
+      expect(await deadLetterService.list({ task_id: task1.id })).toHaveLength(
+        1,
+      );
+      expect(
+        await deadLetterService.list({
+          task_id: task2.id,
+          operation: 'update',
+        }),
+      ).toHaveLength(0);
+    });
+  });
+
+  describe('replay', () => {
+    it('should re-enqueue the item with its retry count reset', async () => {
+      const task = await taskService.createTask({ title: 'Flaky Task' });
+      await failSyncTimes(3);
+      const [deadLetter] = await deadLetterService.list();
+
+      const item = await deadLetterService.replay(deadLetter.id);
+
+      expect(item?.retry_count).toBe(0);
+      expect(await deadLetterService.get(deadLetter.id)).toBeNull();
+      const queue = await db.all('SELECT * FROM sync_queue WHERE task_id = ?', [
+        task.id,
+      ]);
+      expect(queue).toHaveLength(1);
+      expect(queue[0].operation).toBe('create');
+
+      const row = await db.get('SELECT sync_status FROM tasks WHERE id = ?', [
+        task.id,
+      ]);
+      expect(row.sync_status).toBe('pending');
+    });
+
+    it('should keep the base an edit was made against', async () => {
+      const task = await taskService.createTask({ title: 'Flaky Task' });
+      // Already synced, so only the edit is queued
+      await db.run('DELETE FROM sync_queue');
+      await taskService.updateTask(task.id, { title: 'Edited' });
+      await failSyncTimes(3);
+      const [deadLetter] = await deadLetterService.list();
+
+      expect(deadLetter.base_data?.title).toBe('Flaky Task');
+      expect(deadLetter.base_version).toBe(1);
+
+      await deadLetterService.replay(deadLetter.id);
+      const row = await db.get(
+        'SELECT base_data, base_version FROM sync_queue WHERE task_id = ?',
+        [task.id],
+      );
+      expect(JSON.parse(row.base_data).title).toBe('Flaky Task');
+      expect(row.base_version).toBe(1);
+    });
+
+    it('should return null for an unknown dead letter', async () => {
+      expect(await deadLetterService.replay('non-existent-id')).toBeNull();
+    });
+  });
+
+  describe('discard', () => {
+    it('should permanently remove the dead letter', async () => {
+      await taskService.createTask({ title: 'Flaky Task' });
+      await failSyncTimes(3);
+      const [deadLetter] = await deadLetterService.list();
+
+      expect(await deadLetterService.discard(deadLetter.id)).toBe(true);
+      expect(await deadLetterService.list()).toHaveLength(0);
+      expect(await db.all('SELECT * FROM sync_queue')).toHaveLength(0);
+    });
+
+    it('should return false for an unknown dead letter', async () => {
+      expect(await deadLetterService.discard('non-existent-id')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Database } from '../src/db/database';
+import { DeviceService } from '../src/services/deviceService';
+import {
+  BatchSyncService,
+  BatchSyncError,
+} from '../src/services/batchSyncService';
+import { computeBatchChecksum } from '../src/utils/checksum';
+import { SyncQueueItem } from '../src/types';
+
+function batch(deviceId: string) {
+  const items: SyncQueueItem[] = [
+    {
+      id: 'item-1',
+      task_id: 'task-1',
+      operation: 'create',
+      data: { title: 'Task', completed: false },
+      created_at: new Date('2024-01-10T10:00:00Z'),
+      retry_count: 0,
+    },
+  ];
+  return JSON.parse(
+    JSON.stringify({
+      device_id: deviceId,
+      items,
+      client_timestamp: new Date(),
+      checksum: computeBatchChecksum(items),
+    }),
+  );
+}
+
+function rejectedWith(code: BatchSyncError['code']) {
+  return (error: unknown) =>
+    error instanceof BatchSyncError && error.code === code;
+}
+
+describe('DeviceService', () => {
+  let db: Database;
+  let devices: DeviceService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    devices = new DeviceService(db, 'alice');
+  });
+
+  afterEach(async () => {
+    await db.close();
+    vi.useRealTimers();
+  });
+
+  it("should only list and revoke the user's own devices", async () => {
+    const laptop = await devices.register('Laptop');
+    const phone = await new DeviceService(db, 'bob').register('Phone');
+
+    expect((await devices.list()).map((d) => d.name)).toEqual(['Laptop']);
+    expect(await devices.get(phone.id)).toBeNull();
+    expect(await devices.revoke(phone.id)).toBeNull();
+    expect((await devices.get(laptop.id))?.revoked_at).toBeUndefined();
+  });
+
+  it('should keep the original revocation time', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-10T10:00:00Z'));
+    const device = await devices.register('Laptop');
+    await devices.revoke(device.id);
+    vi.setSystemTime(new Date('2024-01-11T10:00:00Z'));
+
+    const revoked = await devices.revoke(device.id);
+
+    expect(revoked?.revoked_at).toEqual(new Date('2024-01-10T10:00:00Z'));
+  });
+
+  describe('batch sync', () => {
+    let batchSyncService: BatchSyncService;
+
+    beforeEach(() => {
+      batchSyncService = new BatchSyncService(db, 'alice');
+    });
+
+    it('should reject a batch without a device', async () => {
+      const request = batch('');
+      delete request.device_id;
+
+      await expect(batchSyncService.processBatch(request)).rejects.toSatisfy(
+        rejectedWith('INVALID_BATCH'),
+      );
+    });
+
+    it("should reject unknown devices and other users' devices", async () => {
+      const phone = await new DeviceService(db, 'bob').register('Phone');
+
+      await expect(
+        batchSyncService.processBatch(batch('no-such-device')),
+      ).rejects.toSatisfy(rejectedWith('UNKNOWN_DEVICE'));
+      await expect(
+        batchSyncService.processBatch(batch(phone.id)),
+      ).rejects.toSatisfy(rejectedWith('UNKNOWN_DEVICE'));
+    });
+
+    it('should reject batches and pulls from a revoked device', async () => {
+      const device = await devices.register('Laptop');
+      await devices.revoke(device.id);
+
+      await expect(
+        batchSyncService.processBatch(batch(device.id)),
+      ).rejects.toSatisfy(
+        (error) =>
+          rejectedWith('DEVICE_REVOKED')(error) &&
+          (error as BatchSyncError).statusCode === 403,
+      );
+      await expect(
+        batchSyncService.getChanges(undefined, device.id),
+      ).rejects.toSatisfy(rejectedWith('DEVICE_REVOKED'));
+      expect(await db.all('SELECT * FROM server_tasks')).toHaveLength(0);
+    });
+
+    it('should record when each device last synced and its cursor', async () => {
+      const laptop = await devices.register('Laptop');
+      const phone = await devices.register('Phone');
+
+      await batchSyncService.processBatch(batch(laptop.id));
+      const { server_timestamp } = await batchSyncService.getChanges(
+        undefined,
+        phone.id,
+      );
+
+      const [laptopState, phoneState] = await devices.list();
+      expect(laptopState.last_sync_at).toBeInstanceOf(Date);
+      expect(laptopState.last_seen_at).toEqual(laptopState.last_sync_at);
+      expect(laptopState.cursor).toBeUndefined();
+      expect(phoneState.last_sync_at).toBeUndefined();
+      expect(phoneState.last_seen_at).toBeInstanceOf(Date);
+      expect(phoneState.cursor).toEqual(server_timestamp);
+    });
+  });
+});
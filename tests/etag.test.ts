@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { taskETag, parseIfMatch } from '../src/utils/etag';
+import { Task } from '../src/types';
+
+describe('etag', () => {
+  it('should derive a strong ETag from the task version', () => {
+    expect(taskETag({ version: 3 } as Task)).toBe('"3"');
+  });
+
+  describe('parseIfMatch', () => {
+    it('should impose no precondition without a header or for *', () => {
+      expect(parseIfMatch(undefined)).toBeUndefined();
+      expect(parseIfMatch('*')).toBeUndefined();
+    });
+
+    it('should parse one or more strong ETags', () => {
+      expect(parseIfMatch('"3"')).toEqual([3]);
+      expect(parseIfMatch('"3", "5"')).toEqual([3, 5]);
+    });
+
+    it('should never match weak or malformed ETags', () => {
+      expect(parseIfMatch('W/"3"')).toEqual([]);
+      expect(parseIfMatch('3')).toEqual([]);
+    });
+  });
+});
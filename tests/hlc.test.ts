@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Database } from '../src/db/database';
+import { ClockService } from '../src/services/clockService';
+import {
+  HybridLogicalClock,
+  compareHlc,
+  formatHlc,
+  hlcFromDate,
+  parseHlc,
+} from '../src/utils/hlc';
+
+describe('HybridLogicalClock', () => {
+  it('should keep advancing when the wall clock goes backwards', () => {
+    let wall = 5000;
+    const clock = new HybridLogicalClock('node-a', undefined, () => wall);
+
+    const first = clock.now();
+    wall = 1000;
+    const second = clock.now();
+
+    expect(compareHlc(second, first)).toBe(1);
+    expect(parseHlc(second)).toEqual({
+      physical: 5000,
+      counter: 1,
+      node: 'node-a',
+    });
+  });
+
+  it('should order local events after a received timestamp from a clock that runs ahead', () => {
+    const ahead = new HybridLogicalClock('ahead', undefined, () => 3_600_000);
+    const behind = new HybridLogicalClock('behind', undefined, () => 60_000);
+
+    const remote = ahead.now();
+    behind.receive(remote);
+    const local = behind.now();
+
+    expect(compareHlc(local, remote)).toBe(1);
+    expect(parseHlc(local).physical).toBe(3_600_000);
+  });
+
+  it('should not let a received timestamp move the clock past the maximum drift', () => {
+    const clock = new HybridLogicalClock('node-a', undefined, () => 1000, 500);
+    const farAhead = formatHlc({ physical: 9_999_999, counter: 0, node: 'b' });
+
+    expect(clock.runsAhead(farAhead)).toBe(true);
+    clock.receive(farAhead);
+
+    expect(parseHlc(clock.now()).physical).toBe(1500);
+  });
+
+  it('should resume from a restored timestamp', () => {
+    const last = formatHlc({ physical: 9000, counter: 4, node: 'node-a' });
+    const clock = new HybridLogicalClock('node-a', last, () => 1000);
+
+    expect(compareHlc(clock.now(), last)).toBe(1);
+  });
+
+  it('should compare timestamps as strings in time order', () => {
+    const stamps = [
+      formatHlc({ physical: 10_000, counter: 0, node: 'b' }),
+      hlcFromDate(new Date(9_999)),
+      formatHlc({ physical: 9_999, counter: 2, node: 'a' }),
+    ];
+
+    expect([...stamps].sort(compareHlc)).toEqual([
+      stamps[1],
+      stamps[2],
+      stamps[0],
+    ]);
+  });
+
+  it('should parse node ids that contain dashes', () => {
+    const stamp = formatHlc({ physical: 1, counter: 2, node: 'a-b-c' });
+    expect(parseHlc(stamp).node).toBe('a-b-c');
+    expect(() => parseHlc('2024-01-10T10:00:00Z')).toThrow('Invalid HLC');
+  });
+});
+
+describe('ClockService', () => {
+  let db: Database;
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should persist the last issued timestamp', async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    const clock = new ClockService(db);
+
+    await clock.now();
+    const latest = await clock.now();
+
+    const row = await db.get(
+      "SELECT value FROM sync_state WHERE key = 'hlc_last'",
+    );
+    expect(row.value).toBe(latest);
+  });
+
+  it('should share one clock between services on the same database', async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+
+    const first = await new ClockService(db).now();
+    const second = await new ClockService(db).now();
+
+    expect(compareHlc(second, first)).toBe(1);
+    expect(parseHlc(second).node).toBe(parseHlc(first).node);
+  });
+});
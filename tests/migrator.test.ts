@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from '../src/db/database';
+import { Migrator, Migration } from '../src/db/migrator';
+import { migrations } from '../src/db/migrations';
+
+async function tableNames(db: Database): Promise<string[]> {
+  const rows = await db.all(
+    "SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name",
+  );
+  return rows.map((row) => row.name);
+}
+
+describe('Migrator', () => {
+  let db: Database;
+  let migrator: Migrator;
+
+  beforeEach(() => {
+    // Version 0 fixture: an empty database that was never initialized
+    db = new Database(':memory:');
+    migrator = new Migrator(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should migrate an empty database from version 0 to latest', async () => {
+    expect(await migrator.currentVersion()).toBe(0);
+
+    const applied = await migrator.migrateTo();
+
+    expect(applied).toEqual(migrations.map((m) => m.version));
+    expect(await migrator.currentVersion()).toBe(migrator.latestVersion);
+    expect(await tableNames(db)).toEqual(
+      expect.arrayContaining([
+        'tasks',
+        'sync_queue',
+        'dead_letter_queue',
+        'schema_migrations',
+      ]),
+    );
+  });
+
+  it('should be a no-op when already at the latest version', async () => {
+    await migrator.migrateTo();
+    expect(await migrator.migrateTo()).toEqual([]);
+  });
+
+  it('should adopt a database created before migrations existed', async () => {
+    await db.run(`
+      CREATE TABLE tasks (
+        id TEXT PRIMARY KEY, title TEXT NOT NULL, description TEXT,
+        completed INTEGER DEFAULT 0, created_at DATETIME, updated_at DATETIME,
+        is_deleted INTEGER DEFAULT 0, sync_status TEXT DEFAULT 'pending',
+        server_id TEXT, last_synced_at DATETIME
+      )
+    `);
+    await db.run(`
+      CREATE TABLE sync_queue (
+        id TEXT PRIMARY KEY, task_id TEXT NOT NULL, operation TEXT NOT NULL,
+        data TEXT NOT NULL, created_at DATETIME, retry_count INTEGER DEFAULT 0,
+        error_message TEXT
+      )
+    `);
+    await db.run("INSERT INTO tasks (id, title) VALUES ('t1', 'Existing')");
+
+    await migrator.migrateTo();
+
+    const columns = await db.all('PRAGMA table_info(sync_queue)');
+    expect(columns.map((c) => c.name)).toContain('error_history');
+    const task = await db.get("SELECT * FROM tasks WHERE id = 't1'");
+    expect(task.title).toBe('Existing');
+  });
+
+  it('should migrate down to a specific version', async () => {
+    await migrator.migrateTo();
+
+    const reverted = await migrator.migrateTo(1);
+
+    expect(reverted).toEqual(
+      migrations
+        .map((m) => m.version)
+        .filter((v) => v > 1)
+        .reverse(),
+    );
+    expect(await migrator.currentVersion()).toBe(1);
+    expect(await tableNames(db)).not.toContain('dead_letter_queue');
+  });
+
+  it('should roll back the given number of steps', async () => {
+    await migrator.migrateTo();
+
+    await migrator.rollback(migrations.length);
+
+    expect(await migrator.currentVersion()).toBe(0);
+    expect(await tableNames(db)).toEqual(['schema_migrations']);
+  });
+
+  it('should report status for each migration', async () => {
+    await migrator.migrateTo(1);
+
+    const status = await migrator.status();
+
+    expect(status.map((s) => [s.version, s.applied])).toEqual(
+      migrations.map((m) => [m.version, m.version === 1]),
+    );
+  });
+
+  it('should reject unknown target versions', async () => {
+    await expect(migrator.migrateTo(99)).rejects.toThrow(
+      'Unknown migration version',
+    );
+  });
+
+  it('should roll back a failing migration and leave the version unchanged', async () => {
+    const broken: Migration = {
+      version: migrator.latestVersion + 1,
+      name: 'broken',
+      async up(db) {
+        await db.run('CREATE TABLE partial (id TEXT)');
+        await db.run('INSERT INTO missing_table VALUES (1)');
+      },
+      async down() {},
+    };
+    migrator = new Migrator(db, [...migrations, broken]);
+
+    await expect(migrator.migrateTo()).rejects.toThrow();
+
+    expect(await migrator.currentVersion()).toBe(broken.version - 1);
+    expect(await tableNames(db)).not.toContain('partial');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatRecurrence,
+  nextOccurrence,
+  occurrenceId,
+  parseRecurrence,
+} from '../src/utils/recurrence';
+
+function next(rule: string, current: string): string | undefined {
+  return nextOccurrence(
+    parseRecurrence(rule),
+    new Date(current),
+  )?.toISOString();
+}
+
+describe('recurrence', () => {
+  it('should format rules in canonical form', () => {
+    expect(
+      formatRecurrence(
+        parseRecurrence('RRULE:byday=th,MO,th;FREQ=weekly;INTERVAL=2'),
+      ),
+    ).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+    expect(formatRecurrence(parseRecurrence('FREQ=DAILY;INTERVAL=1'))).toBe(
+      'FREQ=DAILY',
+    );
+  });
+
+  it('should reject malformed and unsupported rules', () => {
+    for (const rule of [
+      'FREQ=HOURLY',
+      'INTERVAL=2',
+      'FREQ=DAILY;INTERVAL=0',
+      'FREQ=DAILY;BYDAY=MO',
+      'FREQ=WEEKLY;COUNT=3',
+      'FREQ=DAILY;TZID=Mars/Olympus',
+      'FREQ=DAILY;FREQ=WEEKLY',
+    ]) {
+      expect(() => parseRecurrence(rule)).toThrow(
+        expect.objectContaining({
+          details: [expect.objectContaining({ field: 'recurrence' })],
+        }),
+      );
+    }
+  });
+
+  it('should skip months without the day of a monthly rule', () => {
+    const rule = 'FREQ=MONTHLY;BYMONTHDAY=31';
+
+    expect(next(rule, '2025-01-31T09:00:00Z')).toBe('2025-03-31T09:00:00.000Z');
+    expect(next(rule, '2025-03-31T09:00:00Z')).toBe('2025-05-31T09:00:00.000Z');
+  });
+
+  it('should step through the days of a weekly rule, then skip the interval', () => {
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH';
+
+    // 2025-03-03 is a Monday
+    expect(next(rule, '2025-03-03T08:00:00Z')).toBe('2025-03-06T08:00:00.000Z');
+    expect(next(rule, '2025-03-06T08:00:00Z')).toBe('2025-03-17T08:00:00.000Z');
+  });
+
+  it('should keep the local time of day across a daylight saving change', () => {
+    const rule = 'FREQ=DAILY;TZID=Europe/Berlin';
+
+    // 09:00 in Berlin is 08:00 UTC in winter and 07:00 UTC in summer
+    expect(next(rule, '2025-03-29T08:00:00Z')).toBe('2025-03-30T07:00:00.000Z');
+  });
+
+  it('should only repeat 29 February in leap years', () => {
+    expect(next('FREQ=YEARLY', '2024-02-29T12:00:00Z')).toBe(
+      '2028-02-29T12:00:00.000Z',
+    );
+  });
+
+  it('should end at UNTIL', () => {
+    const rule = 'FREQ=DAILY;UNTIL=20250102';
+
+    expect(next(rule, '2025-01-01T10:00:00Z')).toBe('2025-01-02T10:00:00.000Z');
+    expect(next(rule, '2025-01-02T10:00:00Z')).toBeUndefined();
+  });
+
+  it('should derive the same occurrence id from the same series and date', () => {
+    const date = new Date('2025-01-01T10:00:00Z');
+
+    expect(occurrenceId('series-1', date)).toBe(occurrenceId('series-1', date));
+    expect(occurrenceId('series-1', date)).not.toBe(
+      occurrenceId('series-2', date),
+    );
+  });
+});
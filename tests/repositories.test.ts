@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { SyncQueueRepository } from '../src/db/repositories/syncQueueRepository';
+import { TaskRepository } from '../src/db/repositories/taskRepository';
+
+describe('SyncQueueRepository', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let queue: SyncQueueRepository;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    queue = new SyncQueueRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should round-trip item data through JSON', async () => {
+    const task = await taskService.createTask({ title: 'Original' });
+    await db.run('DELETE FROM sync_queue');
+
+    const queued = await queue.enqueue(
+      task.id,
+      'update',
+      { title: 'Edited', completed: true, hlc: task.hlc },
+      { title: 'Original', completed: false },
+      1,
+    );
+    const [item] = await queue.findByTask(task.id);
+
+    expect(item).toMatchObject({
+      id: queued.id,
+      operation: 'update',
+      data: { title: 'Edited', completed: true },
+      base_data: { title: 'Original', completed: false },
+      base_version: 1,
+      hlc: task.hlc,
+      retry_count: 0,
+      error_history: [],
+    });
+    expect(item.created_at).toBeInstanceOf(Date);
+    expect(item.batch_key).toBeUndefined();
+  });
+
+  it('should hold back tasks with a dead-lettered item', async () => {
+    const stuck = await taskService.createTask({ title: 'Stuck' });
+    const free = await taskService.createTask({ title: 'Free' });
+    await db.run(
+      `INSERT INTO dead_letter_queue (id, task_id, operation, data, created_at, failed_at, retry_count, error_history)
+       VALUES ('dl-1', ?, 'create', '{}', ?, ?, 3, '[]')`,
+      [stuck.id, new Date().toISOString(), new Date().toISOString()],
+    );
+
+    const items = await queue.findSendable();
+
+    expect(items.map((item) => item.task_id)).toEqual([free.id]);
+  });
+});
+
+describe('TaskRepository', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should convert rows into tasks', async () => {
+    const created = await new TaskService(db).createTask({
+      title: 'Task',
+      completed: true,
+    });
+
+    const task = await new TaskRepository(db).findById(created.id);
+
+    expect(task).toEqual({ ...created, description: undefined });
+    expect(task?.completed).toBe(true);
+    expect(task?.updated_at).toBeInstanceOf(Date);
+  });
+
+  it('should only write when the expected version matches', async () => {
+    const tasks = new TaskRepository(db);
+    const task = await new TaskService(db).createTask({ title: 'Task' });
+
+    const stale = await tasks.update({ ...task, title: 'Stale' }, 0);
+    const current = await tasks.update({ ...task, title: 'Current' }, 1);
+
+    expect(stale).toBe(false);
+    expect(current).toBe(true);
+    expect((await tasks.findById(task.id))?.title).toBe('Current');
+  });
+
+  it("should not see other users' tasks", async () => {
+    const task = await new TaskService(db, 'bob').createTask({ title: 'Bob' });
+    const alice = new TaskRepository(db, 'alice');
+
+    expect(await alice.findById(task.id)).toBeNull();
+    expect(await alice.update({ ...task, title: 'Hijacked' })).toBe(false);
+  });
+});
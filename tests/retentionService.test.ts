@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import {
+  RetentionService,
+  RetentionOptions,
+} from '../src/services/retentionService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('RetentionService', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let retention: RetentionService;
+  const options: RetentionOptions = {
+    enabled: true,
+    intervalMs: DAY_MS,
+    tombstoneTtlDays: 30,
+    syncRunTtlDays: 30,
+    conflictTtlDays: 90,
+    revisionTtlDays: 90,
+    processedItemTtlDays: 30,
+    eventTtlDays: 7,
+  };
+  const daysAgo = (days: number) =>
+    new Date(Date.now() - days * DAY_MS).toISOString();
+
+  // A deleted task, with its deletion made `deletedDaysAgo` and, unless
+  // `synced` is false, confirmed by the server a minute later
+  async function tombstone(
+    title: string,
+    deletedDaysAgo: number,
+    { synced = true } = {},
+  ): Promise<string> {
+    const task = await taskService.createTask({ title });
+    await taskService.deleteTask(task.id);
+    await db.run('DELETE FROM sync_queue WHERE task_id = ?', [task.id]);
+    const deletedAt = daysAgo(deletedDaysAgo);
+    await db.run(
+      `UPDATE tasks SET updated_at = ?, server_id = ?, last_synced_at = ?
+       WHERE id = ?`,
+      [
+        deletedAt,
+        synced ? `srv_${title}` : null,
+        synced
+          ? new Date(new Date(deletedAt).getTime() + 60000).toISOString()
+          : null,
+        task.id,
+      ],
+    );
+    return task.id;
+  }
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    retention = new RetentionService(db, options);
+  });
+
+  afterEach(async () => {
+    retention.stop();
+    await db.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should purge only tombstones the server confirmed before the TTL', async () => {
+    const purgeable = await tombstone('old', 31);
+    await tombstone('recent', 5);
+    await tombstone('unsynced', 31, { synced: false });
+    const queued = await tombstone('queued', 31);
+    // Last synced before it was deleted
+    const stale = await tombstone('deleted-after-sync', 31);
+    await db.run('UPDATE tasks SET last_synced_at = ? WHERE id = ?', [
+      daysAgo(40),
+      stale,
+    ]);
+    await db.run(
+      "INSERT INTO sync_queue (id, task_id, operation, data, created_at, retry_count) VALUES ('q1', ?, 'delete', '{}', ?, 0)",
+      [queued, new Date().toISOString()],
+    );
+    const live = await taskService.createTask({ title: 'live' });
+
+    const report = await retention.purge();
+
+    expect(report).toMatchObject({
+      dry_run: false,
+      tombstones: 1,
+    });
+    const remaining = await db.all('SELECT title FROM tasks ORDER BY title');
+    expect(remaining.map((t) => t.title)).toEqual([
+      'deleted-after-sync',
+      'live',
+      'queued',
+      'recent',
+      'unsynced',
+    ]);
+    expect(
+      await db.all('SELECT * FROM task_revisions WHERE task_id = ?', [
+        purgeable,
+      ]),
+    ).toHaveLength(0);
+    expect(await taskService.getHistory(live.id)).toMatchObject({ total: 1 });
+  });
+
+  it('should purge an old tombstone of a task that never reached the server', async () => {
+    const task = await taskService.createTask({ title: 'local only' });
+    await taskService.deleteTask(task.id);
+    // What the compactor does with a create followed by a delete
+    await db.run('DELETE FROM sync_queue WHERE task_id = ?', [task.id]);
+    await db.run(
+      "UPDATE tasks SET sync_status = 'synced', updated_at = ? WHERE id = ?",
+      [daysAgo(31), task.id],
+    );
+
+    const report = await retention.purge();
+
+    expect(report.tombstones).toBe(1);
+    expect(await db.all('SELECT * FROM tasks')).toHaveLength(0);
+  });
+
+  it('should prune old batch sync results and task events', async () => {
+    for (const [id, processedAt] of [
+      ['old', daysAgo(31)],
+      ['new', daysAgo(1)],
+    ]) {
+      await db.run(
+        `INSERT INTO server_processed_items (item_id, client_id, result, processed_at)
+         VALUES (?, 'task-1', '{}', ?)`,
+        [id, processedAt],
+      );
+      await db.run(
+        `INSERT INTO server_processed_batches (idempotency_key, checksum, response, processed_at)
+         VALUES (?, 'sum', '[]', ?)`,
+        [id, processedAt],
+      );
+    }
+    await taskService.createTask({ title: 'Event' });
+    await db.run('UPDATE task_events SET created_at = ?', [daysAgo(8)]);
+    await taskService.createTask({ title: 'Recent event' });
+
+    const report = await retention.purge();
+
+    expect(report).toMatchObject({
+      processed_items: 1,
+      processed_batches: 1,
+      events: 1,
+    });
+    expect(await db.all('SELECT item_id FROM server_processed_items')).toEqual([
+      { item_id: 'new' },
+    ]);
+    expect(
+      await db.all('SELECT idempotency_key FROM server_processed_batches'),
+    ).toEqual([{ idempotency_key: 'new' }]);
+    expect(await db.all('SELECT * FROM task_events')).toHaveLength(1);
+  });
+
+  it('should keep the newest task event so event ids are not reused', async () => {
+    await taskService.createTask({ title: 'First' });
+    await taskService.createTask({ title: 'Second' });
+    await db.run('UPDATE task_events SET created_at = ?', [daysAgo(8)]);
+    const { id: newest } = await db.get(
+      'SELECT MAX(id) AS id FROM task_events',
+    );
+
+    expect((await retention.purge()).events).toBe(1);
+    await taskService.createTask({ title: 'Third' });
+
+    expect(
+      (await db.all('SELECT id FROM task_events ORDER BY id')).map((r) => r.id),
+    ).toEqual([newest, newest + 1]);
+  });
+
+  it('should report in a dry run what a purge would remove', async () => {
+    await tombstone('old', 31);
+    await db.run(
+      `INSERT INTO sync_runs (id, trigger, status, started_at, finished_at)
+       VALUES ('old', 'manual', 'succeeded', ?, ?), ('new', 'manual', 'succeeded', ?, ?)`,
+      [daysAgo(40), daysAgo(40), daysAgo(1), daysAgo(1)],
+    );
+
+    const preview = await retention.preview();
+
+    expect(preview).toMatchObject({
+      dry_run: true,
+      tombstones: 1,
+      sync_runs: 1,
+      revisions: 2,
+    });
+    expect(await db.all('SELECT * FROM tasks')).toHaveLength(1);
+    expect(await db.all('SELECT * FROM sync_runs')).toHaveLength(2);
+
+    const report = await retention.purge();
+    expect({ ...report, dry_run: true, ran_at: preview.ran_at }).toEqual(
+      preview,
+    );
+    expect(await db.all('SELECT id FROM sync_runs')).toEqual([{ id: 'new' }]);
+  });
+
+  it('should prune old revisions but keep the latest of each task', async () => {
+    const task = await taskService.createTask({ title: 'v1' });
+    await taskService.updateTask(task.id, { title: 'v2' });
+    await taskService.updateTask(task.id, { title: 'v3' });
+    await db.run('UPDATE task_revisions SET created_at = ? WHERE version < 3', [
+      daysAgo(100),
+    ]);
+    const untouched = await taskService.createTask({ title: 'untouched' });
+    await db.run('UPDATE task_revisions SET created_at = ? WHERE task_id = ?', [
+      daysAgo(100),
+      untouched.id,
+    ]);
+
+    const report = await retention.purge();
+
+    expect(report.revisions).toBe(2);
+    expect(
+      (await taskService.getHistory(task.id))?.items.map((r) => r.task.title),
+    ).toEqual(['v3']);
+    expect(await taskService.getHistory(untouched.id)).toMatchObject({
+      total: 1,
+    });
+  });
+
+  it('should prune old conflicts and vacuum after purging', async () => {
+    const task = await taskService.createTask({ title: 'Shared' });
+    for (const [id, createdAt] of [
+      ['old', daysAgo(100)],
+      ['new', daysAgo(1)],
+    ]) {
+      await db.run(
+        `INSERT INTO sync_conflicts (id, task_id, strategy, winner, reason, local_data, server_data, resolved_data, created_at)
+         VALUES (?, ?, 'last-write-wins', 'server', 'test', '{}', '{}', '{}', ?)`,
+        [id, task.id, createdAt],
+      );
+    }
+    const vacuum = vi.spyOn(db, 'vacuum');
+
+    const report = await retention.purge();
+
+    expect(report.conflicts).toBe(1);
+    expect(await db.all('SELECT id FROM sync_conflicts')).toEqual([
+      { id: 'new' },
+    ]);
+    expect(vacuum).toHaveBeenCalledOnce();
+    expect(retention.getLastRun()).toEqual(report);
+  });
+
+  it('should purge on each interval once started', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const purge = vi.spyOn(retention, 'purge').mockResolvedValue({} as never);
+
+    retention.start();
+    vi.advanceTimersByTime(DAY_MS * 2);
+    retention.stop();
+    vi.advanceTimersByTime(DAY_MS);
+    vi.useRealTimers();
+
+    expect(purge).toHaveBeenCalledTimes(2);
+  });
+});
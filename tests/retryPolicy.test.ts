@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SyncItemError,
+  classifySyncError,
+  getRetryPolicy,
+  retryDelay,
+} from '../src/utils/retryPolicy';
+
+function httpError(status: number, code?: string) {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    response: { status, data: { code } },
+  });
+}
+
+describe('retryPolicy', () => {
+  describe('classifySyncError', () => {
+    it('should treat errors without a response as network errors', () => {
+      expect(classifySyncError(new Error('ECONNREFUSED'))).toBe('network');
+    });
+
+    it('should classify HTTP errors by status', () => {
+      expect(classifySyncError(httpError(400))).toBe('validation');
+      expect(classifySyncError(httpError(422))).toBe('validation');
+      expect(classifySyncError(httpError(429))).toBe('server');
+      expect(classifySyncError(httpError(503))).toBe('server');
+    });
+
+    it('should not treat account or device failures as rejected payloads', () => {
+      expect(classifySyncError(httpError(401))).toBe('auth');
+      expect(classifySyncError(httpError(403, 'DEVICE_REVOKED'))).toBe('auth');
+      expect(classifySyncError(httpError(400, 'UNKNOWN_DEVICE'))).toBe('auth');
+      expect(classifySyncError(httpError(400, 'CHECKSUM_MISMATCH'))).toBe(
+        'validation',
+      );
+    });
+
+    it('should keep the kind of item-level errors', () => {
+      expect(
+        classifySyncError(new SyncItemError('Rejected', 'validation')),
+      ).toBe('validation');
+    });
+  });
+
+  describe('retryDelay', () => {
+    const policy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+    it('should double the delay on each attempt up to the maximum', () => {
+      const delays = [1, 2, 3, 4].map((attempt) =>
+        retryDelay(policy, attempt, () => 1),
+      );
+      expect(delays).toEqual([1000, 2000, 4000, 5000]);
+    });
+
+    it('should apply jitter to the upper half of the delay', () => {
+      expect(retryDelay(policy, 2, () => 0)).toBe(1000);
+      expect(retryDelay(policy, 2, () => 0.5)).toBe(1500);
+    });
+  });
+
+  describe('getRetryPolicy', () => {
+    it('should dead-letter validation errors on the first failure', () => {
+      expect(getRetryPolicy('validation').maxAttempts).toBe(1);
+      expect(getRetryPolicy('network').maxAttempts).toBe(3);
+      expect(getRetryPolicy('auth').maxAttempts).toBe(Infinity);
+    });
+  });
+});
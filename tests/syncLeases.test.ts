@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { SyncService } from '../src/services/syncService';
+import { DeviceService } from '../src/services/deviceService';
+import { BatchSyncService } from '../src/services/batchSyncService';
+import { BatchSyncRequest } from '../src/types';
+import axios from 'axios';
+
+vi.mock('axios');
+
+const LEASE_MS = 5 * 60 * 1000;
+
+describe('sync leases', () => {
+  let file: string;
+  let clientDb: Database;
+  let serverDb: Database;
+  let server: BatchSyncService;
+  let sent: BatchSyncRequest[];
+
+  // Serves batches and pulls from the server database
+  function connect() {
+    vi.mocked(axios.post).mockImplementation(async (url, body) => {
+      if (url.endsWith('/devices')) {
+        return { data: await new DeviceService(serverDb).register('Client') };
+      }
+      const request = JSON.parse(JSON.stringify(body));
+      sent.push(request);
+      return { data: await server.processBatch(request) };
+    });
+    vi.mocked(axios.get).mockImplementation(async (_url, config) => ({
+      data: JSON.parse(
+        JSON.stringify(
+          await server.getChanges(
+            config?.params?.since ? new Date(config.params.since) : undefined,
+            config?.params?.device_id,
+          ),
+        ),
+      ),
+    }));
+  }
+
+  // Starts a sync that stops for good once its first batch has been sent,
+  // like a process killed while waiting for the response. With `delivered`,
+  // the server has applied the batch by then.
+  async function crashMidBatch(delivered: boolean): Promise<void> {
+    let reached!: () => void;
+    const sending = new Promise<void>((resolve) => (reached = resolve));
+    vi.mocked(axios.post).mockImplementation(async (url, body) => {
+      if (url.endsWith('/devices')) {
+        return { data: await new DeviceService(serverDb).register('Client') };
+      }
+      const request = JSON.parse(JSON.stringify(body));
+      sent.push(request);
+      if (delivered) {
+        await server.processBatch(request);
+      }
+      reached();
+      return new Promise(() => {});
+    });
+
+    void new SyncService(clientDb, new TaskService(clientDb)).sync();
+    await sending;
+    await clientDb.close();
+    clientDb = new Database(file);
+    await clientDb.initialize();
+  }
+
+  beforeEach(async () => {
+    file = join(tmpdir(), `sync-leases-${uuidv4()}.sqlite3`);
+    clientDb = new Database(file);
+    await clientDb.initialize();
+    serverDb = new Database(':memory:');
+    await serverDb.initialize();
+    server = new BatchSyncService(serverDb);
+    sent = [];
+  });
+
+  afterEach(async () => {
+    await clientDb.close();
+    await serverDb.close();
+    rmSync(file, { force: true });
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should resend a batch cut short by a crash without losing or duplicating it', async () => {
+    const taskService = new TaskService(clientDb);
+    const first = await taskService.createTask({ title: 'First' });
+    const second = await taskService.createTask({ title: 'Second' });
+
+    await crashMidBatch(true);
+
+    const leased = await clientDb.all(
+      'SELECT * FROM sync_queue WHERE lease_id IS NOT NULL',
+    );
+    expect(leased).toHaveLength(2);
+    const tasks = await clientDb.all('SELECT sync_status FROM tasks');
+    expect(tasks.map((t) => t.sync_status)).toEqual([
+      'in-progress',
+      'in-progress',
+    ]);
+
+    const syncService = new SyncService(clientDb, new TaskService(clientDb));
+    expect(await syncService.recoverExpiredLeases()).toBe(0);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + LEASE_MS);
+    expect(await syncService.recoverExpiredLeases()).toBe(2);
+    const recovered = await clientDb.all('SELECT sync_status FROM tasks');
+    expect(recovered.map((t) => t.sync_status)).toEqual(['pending', 'pending']);
+
+    connect();
+    const result = await syncService.sync();
+
+    expect(result).toMatchObject({ success: true, synced_items: 2 });
+    expect(sent).toHaveLength(2);
+    expect(sent[1].idempotency_key).toBe(sent[0].idempotency_key);
+    const remote = await serverDb.all(
+      'SELECT client_id, version FROM server_tasks ORDER BY client_id',
+    );
+    expect(remote).toEqual(
+      [first.id, second.id].sort().map((id) => ({ client_id: id, version: 1 })),
+    );
+    expect(await clientDb.all('SELECT * FROM sync_queue')).toHaveLength(0);
+    const synced = await clientDb.all('SELECT sync_status FROM tasks');
+    expect(synced.map((t) => t.sync_status)).toEqual(['synced', 'synced']);
+  });
+
+  it('should send edits made after the crash once the resent batch is through', async () => {
+    const task = await new TaskService(clientDb).createTask({ title: 'Draft' });
+
+    await crashMidBatch(false);
+    const taskService = new TaskService(clientDb);
+    await taskService.updateTask(task.id, { title: 'Final' });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + LEASE_MS);
+    const syncService = new SyncService(clientDb, taskService);
+    await syncService.recoverExpiredLeases();
+    connect();
+    const result = await syncService.sync();
+
+    expect(result).toMatchObject({ success: true, synced_items: 2 });
+    expect(sent.map((r) => r.items.map((i) => i.operation))).toEqual([
+      ['create'],
+      ['create'],
+      ['update'],
+    ]);
+    expect(sent[1].idempotency_key).toBe(sent[0].idempotency_key);
+    expect(sent[2].idempotency_key).not.toBe(sent[0].idempotency_key);
+    const remote = await serverDb.all('SELECT * FROM server_tasks');
+    expect(remote).toHaveLength(1);
+    expect(remote[0]).toMatchObject({ title: 'Final', version: 2 });
+  });
+
+  it('should leave tasks leased to another run alone', async () => {
+    const taskService = new TaskService(clientDb);
+    const leased = await taskService.createTask({ title: 'Leased' });
+    const free = await taskService.createTask({ title: 'Free' });
+    await clientDb.run(
+      'UPDATE sync_queue SET lease_id = ?, lease_expires_at = ? WHERE task_id = ?',
+      ['other-run', new Date(Date.now() + LEASE_MS).toISOString(), leased.id],
+    );
+    connect();
+
+    const result = await new SyncService(clientDb, taskService).sync();
+
+    expect(result.synced_items).toBe(1);
+    expect(sent.flatMap((r) => r.items.map((i) => i.task_id))).toEqual([
+      free.id,
+    ]);
+    expect(
+      await clientDb.get('SELECT lease_id FROM sync_queue WHERE task_id = ?', [
+        leased.id,
+      ]),
+    ).toEqual({ lease_id: 'other-run' });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { SyncService } from '../src/services/syncService';
+import { SyncQueueCompactor } from '../src/services/syncQueueCompactor';
+import { SyncQueueItem } from '../src/types';
+import axios from 'axios';
+
+vi.mock('axios');
+
+describe('SyncQueueCompactor', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let syncService: SyncService;
+  let compactor: SyncQueueCompactor;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    syncService = new SyncService(db, taskService);
+    // Registered with the server, so syncs skip device registration
+    await db.run("INSERT INTO sync_state (key, value) VALUES ('device_id', ?)", [
+      'device-1',
+    ]);
+    compactor = new SyncQueueCompactor(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    vi.clearAllMocks();
+  });
+
+  async function queuedItems(): Promise<SyncQueueItem[]> {
+    const rows = await db.all('SELECT * FROM sync_queue ORDER BY rowid');
+    return rows.map((row) => ({
+      ...row,
+      data: JSON.parse(row.data),
+      base_data: row.base_data ? JSON.parse(row.base_data) : undefined,
+      created_at: new Date(row.created_at),
+    }));
+  }
+
+  async function markSynced(taskId: string) {
+    await db.run('DELETE FROM sync_queue WHERE task_id = ?', [taskId]);
+    await db.run('UPDATE tasks SET server_id = ? WHERE id = ?', [
+      'srv_1',
+      taskId,
+    ]);
+  }
+
+  it('should collapse a create and its updates into one create', async () => {
+    const task = await taskService.createTask({ title: 'Draft' });
+    await taskService.updateTask(task.id, { title: 'Final' });
+    await taskService.updateTask(task.id, { completed: true });
+
+    const { items, removed } = await compactor.compact(await queuedItems());
+
+    expect(removed).toBe(2);
+    expect(items).toHaveLength(1);
+    expect(items[0].operation).toBe('create');
+    expect(items[0].data).toMatchObject({ title: 'Final', completed: true });
+    expect(await db.all('SELECT * FROM sync_queue')).toHaveLength(1);
+  });
+
+  it('should keep the base of the first update when collapsing updates', async () => {
+    const task = await taskService.createTask({ title: 'Original' });
+    await markSynced(task.id);
+    await taskService.updateTask(task.id, { title: 'Edited' });
+    await taskService.updateTask(task.id, { title: 'Edited again' });
+
+    const { items } = await compactor.compact(await queuedItems());
+
+    expect(items).toHaveLength(1);
+    expect(items[0].operation).toBe('update');
+    expect(items[0].data.title).toBe('Edited again');
+    expect(items[0].base_data?.title).toBe('Original');
+  });
+
+  it('should drop a task created and deleted before it reached the server', async () => {
+    const task = await taskService.createTask({ title: 'Short-lived' });
+    await taskService.updateTask(task.id, { title: 'Renamed' });
+    await taskService.deleteTask(task.id);
+
+    const { items, removed } = await compactor.compact(await queuedItems());
+
+    expect(items).toHaveLength(0);
+    expect(removed).toBe(3);
+    const row = await db.get('SELECT sync_status FROM tasks WHERE id = ?', [
+      task.id,
+    ]);
+    expect(row.sync_status).toBe('synced');
+  });
+
+  it('should send the delete for a task the server already has', async () => {
+    const task = await taskService.createTask({ title: 'Synced' });
+    await markSynced(task.id);
+    await taskService.updateTask(task.id, { title: 'Renamed' });
+    await taskService.deleteTask(task.id);
+
+    const { items } = await compactor.compact(await queuedItems());
+
+    expect(items.map((item) => item.operation)).toEqual(['update', 'delete']);
+  });
+
+  it('should not merge items that were already attempted', async () => {
+    const task = await taskService.createTask({ title: 'Flaky' });
+    await db.run('UPDATE sync_queue SET retry_count = 1');
+    await taskService.updateTask(task.id, { title: 'Edited' });
+    await taskService.updateTask(task.id, { title: 'Edited again' });
+
+    const { items, removed } = await compactor.compact(await queuedItems());
+
+    expect(removed).toBe(1);
+    expect(items.map((item) => item.operation)).toEqual(['create', 'update']);
+    expect(items[1].data.title).toBe('Edited again');
+  });
+
+  it('should not merge items sent in a batch that got no answer', async () => {
+    const task = await taskService.createTask({ title: 'Sent' });
+    await db.run("UPDATE sync_queue SET batch_key = 'batch-1'");
+    await taskService.updateTask(task.id, { title: 'Edited' });
+
+    const { items, removed } = await compactor.compact(await queuedItems());
+
+    expect(removed).toBe(0);
+    expect(items.map((item) => item.operation)).toEqual(['create', 'update']);
+  });
+
+  it('should report compacted items in the sync result', async () => {
+    const task = await taskService.createTask({ title: 'Task' });
+    await taskService.updateTask(task.id, { completed: true });
+    vi.mocked(axios.post).mockResolvedValueOnce({
+      data: {
+        processed_items: [
+          { client_id: task.id, server_id: 'srv_1', status: 'success' },
+        ],
+      },
+    });
+
+    const result = await syncService.sync();
+
+    expect(result.compacted_items).toBe(1);
+    expect(result.synced_items).toBe(1);
+    const [body] = vi.mocked(axios.post).mock.calls[0].slice(1);
+    expect((body as { items: unknown[] }).items).toHaveLength(1);
+  });
+});
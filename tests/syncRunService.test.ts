@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { SyncService } from '../src/services/syncService';
+import { SyncRunService } from '../src/services/syncRunService';
+import axios from 'axios';
+
+vi.mock('axios');
+
+describe('SyncRunService', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let syncService: SyncService;
+  let runs: SyncRunService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    syncService = new SyncService(db, taskService);
+    runs = new SyncRunService(db);
+    await db.run(
+      "INSERT INTO sync_state (key, value) VALUES ('device_id', ?)",
+      ['device-1'],
+    );
+  });
+
+  afterEach(async () => {
+    await db.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should record each sync run with its counts', async () => {
+    const synced = await taskService.createTask({ title: 'Synced' });
+    const conflicting = await taskService.createTask({ title: 'Conflicting' });
+    vi.mocked(axios.post).mockResolvedValueOnce({
+      data: {
+        processed_items: [
+          { client_id: synced.id, server_id: 'srv_1', status: 'success' },
+          {
+            client_id: conflicting.id,
+            server_id: 'srv_2',
+            status: 'conflict',
+            resolved_data: {
+              ...conflicting,
+              title: 'Server title',
+              updated_at: new Date(Date.now() + 60000),
+            },
+          },
+        ],
+      },
+    });
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      data: { changes: [], server_timestamp: new Date() },
+    });
+
+    const result = await syncService.sync();
+    const { items } = await runs.list();
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      trigger: 'manual',
+      status: 'succeeded',
+      batches: 1,
+      synced_items: 2,
+      failed_items: 0,
+      conflicts: 1,
+      bytes_sent: result.bytes_sent,
+    });
+    expect(items[0].bytes_sent).toBeGreaterThan(0);
+    expect(items[0].finished_at).toBeInstanceOf(Date);
+    expect(await runs.getLastSuccessful()).toEqual(items[0]);
+    expect(await runs.getCurrent()).toBeNull();
+  });
+
+  it('should limit a run to one account and list it only for that user', async () => {
+    await db.run(
+      "INSERT INTO sync_state (key, value) VALUES ('device_id:user-1', ?)",
+      ['device-2'],
+    );
+    const own = await new TaskService(db, 'user-1').createTask({
+      title: 'Own',
+    });
+    await new TaskService(db, 'user-2').createTask({ title: 'Other' });
+    vi.mocked(axios.post).mockResolvedValueOnce({
+      data: {
+        processed_items: [
+          { client_id: own.id, server_id: 'srv_1', status: 'success' },
+        ],
+      },
+    });
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      data: { changes: [], server_timestamp: new Date() },
+    });
+
+    const result = await syncService.sync({ userId: 'user-1' });
+
+    expect(result.synced_items).toBe(1);
+    expect(
+      vi.mocked(axios.post).mock.calls[0][1].items.map((i: any) => i.task_id),
+    ).toEqual([own.id]);
+    expect((await new SyncRunService(db, 'user-1').list()).total).toBe(1);
+    expect((await new SyncRunService(db, 'user-2').list()).total).toBe(0);
+    expect(
+      await new SyncRunService(db, 'user-2').getLastSuccessful(),
+    ).toBeNull();
+  });
+
+  it('should record a run that threw as failed', async () => {
+    vi.spyOn(db, 'all').mockRejectedValueOnce(new Error('disk I/O error'));
+
+    await expect(syncService.sync({ trigger: 'scheduled' })).rejects.toThrow(
+      'disk I/O error',
+    );
+
+    const { items } = await runs.list();
+    expect(items[0]).toMatchObject({
+      trigger: 'scheduled',
+      status: 'failed',
+      error: 'disk I/O error',
+    });
+    expect(await runs.getLastSuccessful()).toBeNull();
+  });
+
+  it('should mark a run left running as interrupted when the next starts', async () => {
+    const stale = await runs.start('scheduled');
+    expect(await runs.getCurrent()).toMatchObject({ id: stale.id });
+
+    const next = await runs.start('manual');
+
+    expect(await runs.get(stale.id)).toMatchObject({ status: 'interrupted' });
+    expect(await runs.getCurrent()).toMatchObject({ id: next.id });
+  });
+
+  it('should page through runs newest first', async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const run = await runs.start('manual');
+      ids.push(run.id);
+    }
+
+    const page = await runs.list({ limit: 2, offset: 1 });
+
+    expect(page).toMatchObject({ total: 3, limit: 2, offset: 1 });
+    expect(page.items.map((r) => r.id)).toEqual([ids[1], ids[0]]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { SyncService } from '../src/services/syncService';
+import {
+  SyncScheduler,
+  SyncSchedulerOptions,
+} from '../src/services/syncScheduler';
+import { SyncResult } from '../src/types';
+
+const options: SyncSchedulerOptions = {
+  enabled: true,
+  intervalMs: 1000,
+  backoffBaseMs: 100,
+  backoffMaxMs: 500,
+  queueThreshold: 3,
+};
+
+const emptyResult: SyncResult = {
+  success: true,
+  synced_items: 0,
+  failed_items: 0,
+  deferred_items: 0,
+  compacted_items: 0,
+  pulled_items: 0,
+  batches: 0,
+  bytes_sent: 0,
+  conflicts: 0,
+  errors: [],
+};
+
+describe('SyncScheduler', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let syncService: SyncService;
+  let scheduler: SyncScheduler;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    syncService = new SyncService(db, taskService);
+    scheduler = new SyncScheduler(syncService, db, options);
+    vi.spyOn(syncService, 'sync').mockResolvedValue(emptyResult);
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    await db.close();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should sync when the device reconnects with queued changes', async () => {
+    await taskService.createTask({ title: 'Offline Task' });
+    const connectivity = vi.spyOn(syncService, 'checkConnectivity');
+
+    connectivity.mockResolvedValueOnce(false);
+    await scheduler.checkNow();
+    expect(syncService.sync).not.toHaveBeenCalled();
+
+    connectivity.mockResolvedValueOnce(true);
+    await scheduler.checkNow();
+    expect(syncService.sync).toHaveBeenCalledTimes(1);
+    expect(syncService.sync).toHaveBeenCalledWith({ trigger: 'scheduled' });
+    expect(scheduler.getStatus().last_result).toEqual(emptyResult);
+  });
+
+  it('should not sync again while staying online below the threshold', async () => {
+    await taskService.createTask({ title: 'Task' });
+    vi.spyOn(syncService, 'checkConnectivity').mockResolvedValue(true);
+
+    await scheduler.checkNow();
+    await scheduler.checkNow();
+
+    expect(syncService.sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sync once the queue passes the threshold', async () => {
+    vi.spyOn(syncService, 'checkConnectivity').mockResolvedValue(true);
+    await scheduler.checkNow();
+    expect(syncService.sync).not.toHaveBeenCalled();
+
+    for (let i = 0; i < options.queueThreshold; i++) {
+      await taskService.createTask({ title: `Task ${i}` });
+    }
+    await scheduler.checkNow();
+
+    expect(syncService.sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off exponentially while offline', async () => {
+    vi.spyOn(syncService, 'checkConnectivity').mockResolvedValue(false);
+
+    const intervals: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      await scheduler.checkNow();
+      intervals.push(scheduler.getStatus().current_interval_ms);
+    }
+
+    expect(intervals).toEqual([100, 200, 400, 500, 500]);
+  });
+
+  it('should never run two checks or syncs at once', async () => {
+    await taskService.createTask({ title: 'Task' });
+    vi.spyOn(syncService, 'checkConnectivity').mockResolvedValue(true);
+
+    await Promise.all([scheduler.checkNow(), scheduler.checkNow()]);
+
+    expect(syncService.checkConnectivity).toHaveBeenCalledTimes(1);
+    expect(syncService.sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should poll on a timer and stop cleanly', async () => {
+    vi.useFakeTimers();
+    const connectivity = vi
+      .spyOn(syncService, 'checkConnectivity')
+      .mockResolvedValue(false);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(connectivity).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(options.backoffBaseMs);
+    expect(connectivity).toHaveBeenCalledTimes(2);
+
+    await scheduler.stop();
+    await vi.advanceTimersByTimeAsync(options.backoffMaxMs * 2);
+    expect(connectivity).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStatus().running).toBe(false);
+  });
+
+  it('should not start when disabled', () => {
+    scheduler = new SyncScheduler(syncService, db, {
+      ...options,
+      enabled: false,
+    });
+
+    scheduler.start();
+
+    expect(scheduler.getStatus().running).toBe(false);
+  });
+});
+
+describe('SyncService concurrency', () => {
+  it('should join an in-flight sync instead of starting another', async () => {
+    const db = new Database(':memory:');
+    await db.initialize();
+    const taskService = new TaskService(db);
+    const first = new SyncService(db, taskService);
+    const second = new SyncService(db, taskService);
+
+    const [a, b] = await Promise.all([first.sync(), second.sync()]);
+
+    expect(a).toBe(b);
+    expect(first.isSyncing()).toBe(false);
+    await db.close();
+  });
+});
@@ -2,6 +2,11 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Database } from '../src/db/database';
 import { TaskService } from '../src/services/taskService';
 import { SyncService } from '../src/services/syncService';
+import { hlcFromDate } from '../src/utils/hlc';
+import { verifyToken } from '../src/utils/jwt';
+import { UserService } from '../src/services/userService';
+import { DeadLetterService } from '../src/services/deadLetterService';
+import { Task, ConflictStrategyName, SyncQueueItem } from '../src/types';
 import axios from 'axios';
 
 // Mock axios
@@ -17,6 +22,10 @@ describe('SyncService', () => {
     await db.initialize();
     taskService = new TaskService(db);
     syncService = new SyncService(db, taskService);
+    // Registered with the server, so syncs skip device registration
+    await db.run("INSERT INTO sync_state (key, value) VALUES ('device_id', ?)", [
+      'device-1',
+    ]);
   });
 
   afterEach(async () => {
@@ -77,6 +86,9 @@ describe('SyncService', () => {
           ],
         },
       });
+      vi.mocked(axios.get).mockResolvedValueOnce({
+        data: { changes: [], server_timestamp: new Date() },
+      });
 
       const result = await syncService.sync();
       
@@ -98,11 +110,503 @@ describe('SyncService', () => {
     });
   });
 
+  describe('retry backoff', () => {
+    it('should defer a failed item and later items for the same task', async () => {
+      const task = await taskService.createTask({ title: 'Task' });
+      vi.mocked(axios.post).mockRejectedValueOnce(new Error('Network error'));
+      await syncService.sync();
+
+      const [failed] = await db.all('SELECT * FROM sync_queue');
+      expect(new Date(failed.next_attempt_at).getTime()).toBeGreaterThan(
+        Date.now(),
+      );
+
+      await taskService.updateTask(task.id, { completed: true });
+      const result = await syncService.sync();
+      expect(result.deferred_items).toBe(2);
+      expect(axios.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dead-letter a validation rejection without retrying', async () => {
+      const task = await taskService.createTask({ title: 'Task' });
+      vi.mocked(axios.post).mockResolvedValueOnce({
+        data: {
+          processed_items: [
+            {
+              client_id: task.id,
+              server_id: '',
+              status: 'error',
+              error: 'Title too long',
+            },
+          ],
+        },
+      });
+
+      await syncService.sync();
+
+      const deadLetters = await db.all('SELECT * FROM dead_letter_queue');
+      expect(deadLetters).toHaveLength(1);
+      expect(JSON.parse(deadLetters[0].error_history)[0].kind).toBe(
+        'validation',
+      );
+    });
+
+    it('should back off longer after a server error than a timeout', async () => {
+      const task1 = await taskService.createTask({ title: 'Task 1' });
+      vi.mocked(axios.post).mockRejectedValueOnce(new Error('timeout'));
+      await syncService.sync();
+      const task2 = await taskService.createTask({ title: 'Task 2' });
+      vi.mocked(axios.post).mockRejectedValueOnce(
+        Object.assign(new Error('Bad gateway'), { response: { status: 502 } }),
+      );
+      await syncService.sync();
+
+      const delayOf = async (taskId: string) => {
+        const row = await db.get(
+          'SELECT next_attempt_at FROM sync_queue WHERE task_id = ?',
+          [taskId],
+        );
+        return new Date(row.next_attempt_at).getTime() - Date.now();
+      };
+      expect(await delayOf(task1.id)).toBeLessThanOrEqual(2000);
+      expect(await delayOf(task2.id)).toBeGreaterThan(2000);
+    });
+  });
+
   describe('conflict resolution', () => {
+    async function syncWithConflict(
+      serverTask: Partial<Task>,
+      strategy?: ConflictStrategyName,
+    ) {
+      const task = await taskService.createTask({ title: 'Original' });
+      await db.run('DELETE FROM sync_queue');
+      await taskService.updateTask(task.id, { completed: true });
+
+      vi.mocked(axios.post).mockResolvedValueOnce({
+        data: {
+          processed_items: [
+            {
+              client_id: task.id,
+              server_id: 'srv_1',
+              status: 'conflict',
+              resolved_data: {
+                ...task,
+                updated_at: new Date(Date.now() + 60000),
+                hlc: hlcFromDate(new Date(Date.now() + 60000)),
+                ...serverTask,
+              },
+            },
+          ],
+        },
+      });
+
+      const result = await syncService.sync({ strategy });
+      return { task, result };
+    }
+
     it('should resolve conflicts using last-write-wins', async () => {
-      // This test would verify that when there's a conflict,
-      // the task with the more recent updated_at timestamp wins
-      // Implementation depends on the actual conflict resolution logic
+      const { task } = await syncWithConflict({ title: 'Server Title' });
+
+      const local = await taskService.getTask(task.id);
+      expect(local?.title).toBe('Server Title');
+      expect(local?.completed).toBe(false);
+
+      const conflicts = await db.all('SELECT * FROM sync_conflicts');
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].strategy).toBe('last-write-wins');
+      expect(conflicts[0].winner).toBe('server');
+    });
+
+    it('should apply the strategy chosen for the sync call', async () => {
+      const { task } = await syncWithConflict(
+        { title: 'Server Title' },
+        'field-merge',
+      );
+
+      const local = await taskService.getTask(task.id);
+      expect(local?.title).toBe('Server Title');
+      expect(local?.completed).toBe(true);
+
+      // The merged version is queued so the server receives it too
+      const queue = await db.all('SELECT * FROM sync_queue WHERE task_id = ?', [
+        task.id,
+      ]);
+      expect(queue).toHaveLength(1);
+      expect(JSON.parse(queue[0].data)).toMatchObject({
+        title: 'Server Title',
+        completed: true,
+      });
+    });
+
+    it('should record the resolved version as a revision', async () => {
+      const { task } = await syncWithConflict({ title: 'Server Title' });
+
+      const history = await taskService.getHistory(task.id);
+      expect(history?.items.map((r) => r.source)).toEqual([
+        'conflict-resolution',
+        'local',
+        'local',
+      ]);
+      expect(history?.items[0].task).toMatchObject({
+        title: 'Server Title',
+        completed: false,
+      });
+    });
+  });
+
+  describe('pull', () => {
+    function mockChanges(changes: unknown[], serverTimestamp = new Date()) {
+      vi.mocked(axios.get).mockResolvedValueOnce({
+        data: { changes, server_timestamp: serverTimestamp },
+      });
+    }
+
+    function remoteTask(overrides: Partial<Task>): Task {
+      return {
+        id: 'srv_1',
+        title: 'From another device',
+        completed: false,
+        created_at: new Date('2024-01-10T10:00:00Z'),
+        updated_at: new Date('2024-01-10T10:00:00Z'),
+        is_deleted: false,
+        version: 1,
+        ...overrides,
+      };
+    }
+
+    it('should insert tasks created on another device', async () => {
+      mockChanges([
+        { client_id: 'task-1', server_id: 'srv_1', task: remoteTask({}) },
+      ]);
+
+      const result = await syncService.sync();
+
+      expect(result.pulled_items).toBe(1);
+      const local = await taskService.getTask('task-1');
+      expect(local?.title).toBe('From another device');
+      expect(local?.sync_status).toBe('synced');
+      expect(local?.server_id).toBe('srv_1');
+      expect(await db.all('SELECT * FROM sync_queue')).toHaveLength(0);
+    });
+
+    it('should apply tombstones to local tasks', async () => {
+      const task = await taskService.createTask({ title: 'Shared' });
+      await db.run('DELETE FROM sync_queue');
+      mockChanges([
+        {
+          client_id: task.id,
+          server_id: 'srv_1',
+          task: remoteTask({
+            title: 'Shared',
+            is_deleted: true,
+            updated_at: new Date(Date.now() + 1000),
+          }),
+        },
+      ]);
+
+      await syncService.sync();
+
+      expect(await taskService.getTask(task.id)).toBeNull();
+      const row = await db.get('SELECT * FROM tasks WHERE id = ?', [task.id]);
+      expect(row.is_deleted).toBe(1);
+    });
+
+    it('should record pulled changes as revisions', async () => {
+      const task = await taskService.createTask({ title: 'Shared' });
+      await db.run('DELETE FROM sync_queue');
+      mockChanges([
+        { client_id: 'task-1', server_id: 'srv_1', task: remoteTask({}) },
+        {
+          client_id: task.id,
+          server_id: 'srv_2',
+          task: remoteTask({
+            title: 'Renamed elsewhere',
+            updated_at: new Date(Date.now() + 1000),
+            version: 2,
+          }),
+        },
+      ]);
+
+      await syncService.sync();
+
+      const inserted = await taskService.getHistory('task-1');
+      expect(inserted?.items.map((r) => r.source)).toEqual(['sync-pull']);
+      const updated = await taskService.getHistory(task.id);
+      expect(
+        updated?.items.map((r) => [r.source, r.version, r.task.title]),
+      ).toEqual([
+        ['sync-pull', 2, 'Renamed elsewhere'],
+        ['local', 1, 'Shared'],
+      ]);
+    });
+
+    it('should ignore tombstones for unknown tasks', async () => {
+      mockChanges([
+        {
+          client_id: 'task-1',
+          server_id: 'srv_1',
+          task: remoteTask({ is_deleted: true }),
+        },
+      ]);
+
+      const result = await syncService.sync();
+
+      expect(result.pulled_items).toBe(0);
+      expect(await db.all('SELECT * FROM tasks')).toHaveLength(0);
+    });
+
+    it('should resolve changes that conflict with pending local edits', async () => {
+      const task = await taskService.createTask({ title: 'Original' });
+      await db.run('DELETE FROM sync_queue');
+      await taskService.updateTask(task.id, { completed: true });
+      // The push is rejected so the local edit is still pending
+      vi.mocked(axios.post).mockRejectedValueOnce(new Error('Network error'));
+      mockChanges([
+        {
+          client_id: task.id,
+          server_id: 'srv_1',
+          task: remoteTask({
+            title: 'Renamed elsewhere',
+            updated_at: new Date(Date.now() + 60000),
+            version: 2,
+          }),
+        },
+      ]);
+
+      await syncService.sync({ strategy: 'field-merge' });
+
+      const local = await taskService.getTask(task.id);
+      expect(local?.title).toBe('Renamed elsewhere');
+      expect(local?.completed).toBe(true);
+      const conflicts = await db.all('SELECT * FROM sync_conflicts');
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].winner).toBe('merged');
+      // The pending edit is replaced by the merged version
+      const queue = await db.all('SELECT * FROM sync_queue');
+      expect(queue).toHaveLength(1);
+      expect(JSON.parse(queue[0].data)).toMatchObject({
+        title: 'Renamed elsewhere',
+        completed: true,
+      });
+    });
+
+    it('should not treat pending edits based on the server version as a conflict', async () => {
+      const task = await taskService.createTask({ title: 'Original' });
+      await db.run('DELETE FROM sync_queue');
+      const serverVersion = remoteTask({
+        title: 'Original',
+        updated_at: task.updated_at,
+      });
+      await taskService.updateTask(task.id, { completed: true });
+      vi.mocked(axios.post).mockRejectedValueOnce(new Error('Network error'));
+      mockChanges([
+        { client_id: task.id, server_id: 'srv_1', task: serverVersion },
+      ]);
+
+      const result = await syncService.sync();
+
+      expect(result.pulled_items).toBe(0);
+      expect(await db.all('SELECT * FROM sync_conflicts')).toHaveLength(0);
+      expect((await taskService.getTask(task.id))?.completed).toBe(true);
+    });
+
+    it('should pull a change held for a dead letter again once it is discarded', async () => {
+      const task = await taskService.createTask({ title: 'Original' });
+      await db.run('DELETE FROM sync_queue');
+      const deadLetter = await new DeadLetterService(db).add({
+        id: 'item-1',
+        task_id: task.id,
+        operation: 'update',
+        data: { title: 'Rejected edit' },
+        created_at: new Date(),
+        retry_count: 3,
+      });
+      const heldAt = new Date('2024-01-10T12:00:00Z');
+      const change = {
+        client_id: task.id,
+        server_id: 'srv_1',
+        task: remoteTask({
+          title: 'Renamed elsewhere',
+          updated_at: new Date(Date.now() + 1000),
+          version: 2,
+        }),
+        server_modified_at: heldAt,
+      };
+      mockChanges([change], new Date('2024-01-10T13:00:00Z'));
+
+      await syncService.sync();
+
+      expect((await taskService.getTask(task.id))?.title).toBe('Original');
+      await new DeadLetterService(db).discard(deadLetter.id);
+      mockChanges([change]);
+      await syncService.sync();
+
+      expect(vi.mocked(axios.get).mock.calls[1][1]?.params).toMatchObject({
+        since: heldAt.toISOString(),
+      });
+      expect((await taskService.getTask(task.id))?.title).toBe(
+        'Renamed elsewhere',
+      );
+    });
+
+    it('should pull from the last watermark', async () => {
+      const watermark = new Date('2024-01-10T12:00:00Z');
+      mockChanges([], watermark);
+      await syncService.sync();
+      mockChanges([]);
+      await syncService.sync();
+
+      expect(vi.mocked(axios.get).mock.calls[0][1]?.params).toEqual({
+        device_id: 'device-1',
+      });
+      expect(vi.mocked(axios.get).mock.calls[1][1]?.params).toEqual({
+        since: watermark.toISOString(),
+        device_id: 'device-1',
+      });
+    });
+
+    it('should report a failed pull without advancing the watermark', async () => {
+      vi.mocked(axios.get).mockRejectedValueOnce(new Error('Network error'));
+
+      const result = await syncService.sync();
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        operation: 'pull',
+        error: 'Network error',
+      });
+      expect(
+        await db.all("SELECT * FROM sync_state WHERE key LIKE 'last_synced_at%'"),
+      ).toHaveLength(0);
+    });
+  });
+
+  describe('accounts', () => {
+    it("should push and pull each user's changes with that user's token", async () => {
+      const users = new UserService(db);
+      const alice = await users.register('alice@example.com', 'secret123');
+      const bob = await users.register('bob@example.com', 'secret123');
+      await new TaskService(db, alice.id).createTask({ title: 'Alice task' });
+      await new TaskService(db, bob.id).createTask({ title: 'Bob task' });
+      for (const user of [alice, bob]) {
+        await db.run('INSERT INTO sync_state (key, value) VALUES (?, ?)', [
+          `device_id:${user.id}`,
+          `device-${user.email}`,
+        ]);
+      }
+      vi.mocked(axios.post).mockImplementation(async (_url, body) => ({
+        data: {
+          processed_items: (body as { items: SyncQueueItem[] }).items.map(
+            (item) => ({
+              client_id: item.task_id,
+              server_id: `srv_${item.task_id}`,
+              status: 'success',
+            }),
+          ),
+        },
+      }));
+      vi.mocked(axios.get).mockResolvedValue({
+        data: { changes: [], server_timestamp: new Date() },
+      });
+
+      const result = await syncService.sync();
+
+      expect(result).toMatchObject({ success: true, synced_items: 2 });
+      const ownerOf = (config: unknown) =>
+        verifyToken(
+          (config as { headers: { Authorization: string } }).headers.Authorization.split(' ')[1],
+        ).sub;
+      const pushes = vi.mocked(axios.post).mock.calls.map(([, body, config]) => ({
+        owner: ownerOf(config),
+        device: (body as { device_id: string }).device_id,
+        titles: (body as { items: SyncQueueItem[] }).items.map((i) => i.data.title),
+      }));
+      expect(pushes).toEqual(
+        expect.arrayContaining([
+          {
+            owner: alice.id,
+            device: 'device-alice@example.com',
+            titles: ['Alice task'],
+          },
+          {
+            owner: bob.id,
+            device: 'device-bob@example.com',
+            titles: ['Bob task'],
+          },
+        ]),
+      );
+      expect(
+        vi.mocked(axios.get).mock.calls.map(([, config]) => ownerOf(config)),
+      ).toEqual([alice.id, bob.id]);
+    });
+  });
+
+  describe('devices', () => {
+    it('should register the device once and send its id with every request', async () => {
+      await db.run("DELETE FROM sync_state WHERE key = 'device_id'");
+      const task = await taskService.createTask({ title: 'Task' });
+      vi.mocked(axios.post).mockResolvedValueOnce({
+        data: { id: 'device-new', name: 'Laptop' },
+      });
+      vi.mocked(axios.post).mockResolvedValueOnce({
+        data: {
+          processed_items: [
+            { client_id: task.id, server_id: 'srv_1', status: 'success' },
+          ],
+        },
+      });
+      vi.mocked(axios.get).mockResolvedValue({
+        data: { changes: [], server_timestamp: new Date() },
+      });
+
+      await syncService.sync();
+      await syncService.sync();
+
+      const posts = vi.mocked(axios.post).mock.calls;
+      expect(posts).toHaveLength(2);
+      expect(posts[0][0]).toMatch(/\/devices$/);
+      expect((posts[1][1] as { device_id: string }).device_id).toBe(
+        'device-new',
+      );
+      const pulls = vi.mocked(axios.get).mock.calls;
+      expect(pulls.map(([, config]) => config?.params?.device_id)).toEqual([
+        'device-new',
+        'device-new',
+      ]);
+    });
+
+    it('should register again when the server no longer knows the device', async () => {
+      const task = await taskService.createTask({ title: 'Task' });
+      vi.mocked(axios.post).mockRejectedValueOnce(
+        Object.assign(new Error('Request failed with status code 400'), {
+          response: { status: 400, data: { code: 'UNKNOWN_DEVICE' } },
+        }),
+      );
+      vi.mocked(axios.post).mockResolvedValueOnce({
+        data: { id: 'device-new', name: 'Laptop' },
+      });
+      vi.mocked(axios.post).mockResolvedValueOnce({
+        data: {
+          processed_items: [
+            { client_id: task.id, server_id: 'srv_1', status: 'success' },
+          ],
+        },
+      });
+      vi.mocked(axios.get).mockResolvedValue({
+        data: { changes: [], server_timestamp: new Date() },
+      });
+
+      const result = await syncService.sync();
+
+      expect(result.synced_items).toBe(1);
+      const posts = vi.mocked(axios.post).mock.calls;
+      expect(posts[1][0]).toMatch(/\/devices$/);
+      expect((posts[2][1] as { device_id: string }).device_id).toBe(
+        'device-new',
+      );
+      expect(
+        await db.get("SELECT value FROM sync_state WHERE key = 'device_id'"),
+      ).toEqual({ value: 'device-new' });
     });
   });
-});
\ No newline at end of file
+});
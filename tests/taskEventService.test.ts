@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Database } from '../src/db/database';
+import { TaskService } from '../src/services/taskService';
+import { SyncService } from '../src/services/syncService';
+import { TaskEventService } from '../src/services/taskEventService';
+import { DeadLetterService } from '../src/services/deadLetterService';
+import { SyncQueueCompactor } from '../src/services/syncQueueCompactor';
+import { SyncQueueRepository } from '../src/db/repositories/syncQueueRepository';
+import { TaskEvent } from '../src/types';
+import axios from 'axios';
+
+vi.mock('axios');
+
+describe('TaskEventService', () => {
+  let db: Database;
+  let taskService: TaskService;
+  let events: TaskEventService;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    taskService = new TaskService(db);
+    events = new TaskEventService(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('should publish every task change to subscribers', async () => {
+    const received: TaskEvent[] = [];
+    const unsubscribe = events.subscribe((event) => received.push(event));
+
+    const task = await taskService.createTask({ title: 'Task' });
+    await taskService.updateTask(task.id, { completed: true });
+    await taskService.deleteTask(task.id);
+    unsubscribe();
+    await taskService.createTask({ title: 'Unseen' });
+
+    expect(received.map((e) => [e.type, e.task_id])).toEqual([
+      ['created', task.id],
+      ['updated', task.id],
+      ['deleted', task.id],
+    ]);
+    expect(received[1].task).toMatchObject({ completed: true, version: 2 });
+    expect(received.map((e) => e.id)).toEqual(
+      [...received.map((e) => e.id)].sort((a, b) => a - b),
+    );
+  });
+
+  it('should publish sync status changes', async () => {
+    const task = await taskService.createTask({ title: 'Task' });
+    await db.run(
+      "INSERT INTO sync_state (key, value) VALUES ('device_id', 'device-1')",
+    );
+    vi.mocked(axios.post).mockResolvedValueOnce({
+      data: {
+        processed_items: [
+          { client_id: task.id, server_id: 'srv_1', status: 'success' },
+        ],
+      },
+    });
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      data: { changes: [], server_timestamp: new Date() },
+    });
+    const received: TaskEvent[] = [];
+    events.subscribe((event) => received.push(event));
+
+    await new SyncService(db, taskService).sync();
+
+    expect(received).toHaveLength(2);
+    expect(received[0]).toMatchObject({
+      type: 'sync-status-changed',
+      task: { sync_status: 'in-progress' },
+    });
+    expect(received[1]).toMatchObject({
+      type: 'sync-status-changed',
+      task: { sync_status: 'synced', server_id: 'srv_1' },
+    });
+  });
+
+  it('should publish sync status changes made by dead letters', async () => {
+    const task = await taskService.createTask({ title: 'Task' });
+    const [item] = await new SyncQueueRepository(db).findByTask(task.id);
+    const deadLetters = new DeadLetterService(db);
+    const received: TaskEvent[] = [];
+    events.subscribe((event) => received.push(event));
+
+    const entry = await deadLetters.add(item);
+    await deadLetters.replay(entry.id);
+
+    expect(received.map((e) => [e.type, e.task.sync_status])).toEqual([
+      ['sync-status-changed', 'failed'],
+      ['sync-status-changed', 'pending'],
+    ]);
+  });
+
+  it('should publish the sync status of a task the compactor drops', async () => {
+    const task = await taskService.createTask({ title: 'Task' });
+    await taskService.deleteTask(task.id);
+    const queue = new SyncQueueRepository(db);
+    const received: TaskEvent[] = [];
+    events.subscribe((event) => received.push(event));
+
+    await new SyncQueueCompactor(db).compact(await queue.findSendable());
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      type: 'sync-status-changed',
+      task: { sync_status: 'synced' },
+    });
+  });
+
+  it("should only deliver and replay events for the user's own tasks", async () => {
+    const alice = new TaskEventService(db, 'alice');
+    const received: TaskEvent[] = [];
+    alice.subscribe((event) => received.push(event));
+
+    const own = await new TaskService(db, 'alice').createTask({
+      title: 'Alice task',
+    });
+    await new TaskService(db, 'bob').createTask({ title: 'Bob task' });
+
+    expect(received.map((e) => e.task_id)).toEqual([own.id]);
+    expect((await alice.since(0))?.map((e) => e.task_id)).toEqual([own.id]);
+  });
+
+  it('should replay the events after a given id', async () => {
+    const first = await taskService.createTask({ title: 'First' });
+    const [created] = (await events.since(0)) ?? [];
+    await taskService.updateTask(first.id, { title: 'Renamed' });
+
+    const missed = await events.since(created.id);
+
+    expect(missed).toHaveLength(1);
+    expect(missed![0]).toMatchObject({
+      type: 'updated',
+      task: { title: 'Renamed' },
+    });
+    expect(missed![0].task.updated_at).toBeInstanceOf(Date);
+  });
+
+  it('should keep a bounded log and report replays it can no longer serve', async () => {
+    vi.stubEnv('TASK_EVENT_LOG_SIZE', '2');
+    const task = await taskService.createTask({ title: 'Task' });
+    await taskService.updateTask(task.id, { title: 'Second' });
+    await taskService.updateTask(task.id, { title: 'Third' });
+
+    const rows = await db.all('SELECT id FROM task_events');
+    const latest = await events.latestId();
+
+    expect(rows).toHaveLength(2);
+    expect(await events.since(0)).toBeNull();
+    expect(await events.since(latest - 2)).toHaveLength(2);
+  });
+});
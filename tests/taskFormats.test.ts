@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { parseTasks, serializeTasks } from '../src/utils/taskFormats';
+import { ValidationError } from '../src/utils/validation';
+import { Task, TaskFormat } from '../src/types';
+
+function task(overrides: Partial<Task>): Task {
+  return {
+    id: 'task-1',
+    title: 'Buy milk, eggs',
+    description: 'Line one\nLine "two"; done',
+    completed: false,
+    created_at: new Date('2024-01-10T10:00:00Z'),
+    updated_at: new Date('2024-01-10T11:00:00Z'),
+    is_deleted: false,
+    version: 1,
+    hlc: '001704880800000-00000-device',
+    tags: [],
+    ...overrides,
+  };
+}
+
+async function serialize(format: TaskFormat, tasks: Task[]): Promise<string> {
+  async function* source() {
+    yield* tasks;
+  }
+  let text = '';
+  for await (const chunk of serializeTasks(format, source())) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('task formats', () => {
+  it.each(['json', 'csv', 'ics'] as const)(
+    'should read back what %s export writes',
+    async (format) => {
+      const text = await serialize(format, [
+        task({
+          due_at: new Date('2024-01-12T09:00:00Z'),
+          priority: 'high',
+          tags: ['errands', 'home'],
+        }),
+        task({
+          id: 'task-2',
+          external_id: 'todoist-42',
+          title: 'Done',
+          description: undefined,
+          completed: true,
+        }),
+      ]);
+
+      expect(parseTasks(format, text)).toEqual([
+        {
+          row: 1,
+          external_id: 'task-1',
+          data: {
+            title: 'Buy milk, eggs',
+            description: 'Line one\nLine "two"; done',
+            completed: false,
+            due_at: '2024-01-12T09:00:00.000Z',
+            priority: 'high',
+            tags: ['errands', 'home'],
+          },
+          is_deleted: false,
+        },
+        {
+          row: 2,
+          external_id: 'todoist-42',
+          data: {
+            title: 'Done',
+            description: undefined,
+            completed: true,
+            tags: [],
+          },
+          is_deleted: false,
+        },
+      ]);
+    },
+  );
+
+  it('should mark deleted tasks in every format', async () => {
+    for (const format of ['json', 'csv', 'ics'] as const) {
+      const text = await serialize(format, [task({ is_deleted: true })]);
+      expect(parseTasks(format, text)[0].is_deleted).toBe(true);
+    }
+  });
+
+  it('should fold long iCalendar lines without splitting characters', async () => {
+    const text = await serialize('ics', [task({ title: 'é'.repeat(100) })]);
+
+    const lines = text.split('\r\n');
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines.filter((line) => line.startsWith(' '))).toHaveLength(2);
+    expect(parseTasks('ics', text)[0].data).toMatchObject({
+      title: 'é'.repeat(100),
+    });
+  });
+
+  it('should read CSV from other tools with a stable id for rows without one', () => {
+    const csv =
+      '\uFEFFTitle,Completed,Notes\r\nWater plants,yes,\r\n\r\nCall mum,maybe,\r\n';
+
+    const rows = parseTasks('csv', csv);
+    const again = parseTasks('csv', csv);
+
+    expect(rows.map((r) => r.data)).toEqual([
+      {
+        title: 'Water plants',
+        description: undefined,
+        completed: true,
+        tags: [],
+      },
+      {
+        title: 'Call mum',
+        description: undefined,
+        completed: 'maybe',
+        tags: [],
+      },
+    ]);
+    expect(rows[0].external_id).toMatch(/^sha256:/);
+    expect(again.map((r) => r.external_id)).toEqual(
+      rows.map((r) => r.external_id),
+    );
+    expect(rows[0].external_id).not.toBe(rows[1].external_id);
+  });
+
+  it('should accept a JSON body that is already parsed', () => {
+    expect(parseTasks('json', [{ id: 'a', title: 'Parsed' }])).toMatchObject([
+      { row: 1, external_id: 'a', data: { title: 'Parsed' } },
+    ]);
+  });
+
+  it.each([
+    ['json', '{"title": "Not a list"}'],
+    ['json', '[{'],
+    ['csv', 'name\nNo title column\n'],
+    ['csv', 'title\n"Unterminated\n'],
+    ['ics', 'BEGIN:VTODO\nEND:VTODO\n'],
+  ] as const)('should reject a malformed %s file', (format, text) => {
+    expect(() => parseTasks(format, text)).toThrow(ValidationError);
+  });
+});
@@ -1,7 +1,15 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Database } from '../src/db/database';
-import { TaskService } from '../src/services/taskService';
+import {
+  TaskService,
+  PreconditionFailedError,
+  RestoreError,
+} from '../src/services/taskService';
+import { SyncQueueRepository } from '../src/db/repositories/syncQueueRepository';
+import { TaskRepository } from '../src/db/repositories/taskRepository';
 import { Task } from '../src/types';
+import { ValidationError } from '../src/utils/validation';
+import { occurrenceId } from '../src/utils/recurrence';
 
 describe('TaskService', () => {
   let db: Database;
@@ -15,6 +23,7 @@ describe('TaskService', () => {
 
   afterEach(async () => {
     await db.close();
+    vi.restoreAllMocks();
   });
 
   describe('createTask', () => {
@@ -70,6 +79,36 @@ describe('TaskService', () => {
       const result = await taskService.updateTask('non-existent-id', { title: 'Test' });
       expect(result).toBeNull();
     });
+
+    it('should increment the version and record the base version', async () => {
+      const task = await taskService.createTask({ title: 'Versioned' });
+      expect(task.version).toBe(1);
+
+      const updated = await taskService.updateTask(task.id, { completed: true }, [1]);
+
+      expect(updated?.version).toBe(2);
+      const item = await db.get(
+        "SELECT * FROM sync_queue WHERE task_id = ? AND operation = 'update'",
+        [task.id],
+      );
+      expect(item.base_version).toBe(1);
+      expect(JSON.parse(item.data).version).toBe(2);
+    });
+
+    it('should reject an update against a stale version', async () => {
+      const task = await taskService.createTask({ title: 'Versioned' });
+      await taskService.updateTask(task.id, { title: 'Edited in another tab' });
+
+      await expect(
+        taskService.updateTask(task.id, { completed: true }, [1]),
+      ).rejects.toSatisfy(
+        (error) =>
+          error instanceof PreconditionFailedError &&
+          error.current.version === 2 &&
+          error.current.title === 'Edited in another tab',
+      );
+      expect((await taskService.getTask(task.id))?.completed).toBe(false);
+    });
   });
 
   describe('deleteTask', () => {
@@ -89,6 +128,435 @@ describe('TaskService', () => {
       const result = await taskService.deleteTask('non-existent-id');
       expect(result).toBe(false);
     });
+
+    it('should reject a delete against a stale version', async () => {
+      const task = await taskService.createTask({ title: 'To Delete' });
+      await taskService.updateTask(task.id, { completed: true });
+
+      await expect(taskService.deleteTask(task.id, [1])).rejects.toBeInstanceOf(
+        PreconditionFailedError,
+      );
+      expect(await taskService.deleteTask(task.id, [2])).toBe(true);
+    });
+  });
+
+  describe('atomic writes', () => {
+    it('should not create a task whose sync item could not be queued', async () => {
+      vi.spyOn(SyncQueueRepository.prototype, 'enqueue').mockRejectedValueOnce(
+        new Error('disk full'),
+      );
+
+      await expect(taskService.createTask({ title: 'Lost' })).rejects.toThrow(
+        'disk full',
+      );
+
+      expect(await db.all('SELECT * FROM tasks')).toHaveLength(0);
+    });
+
+    it('should keep the previous version when queueing an update fails', async () => {
+      const task = await taskService.createTask({ title: 'Original' });
+      vi.spyOn(SyncQueueRepository.prototype, 'enqueue').mockRejectedValueOnce(
+        new Error('disk full'),
+      );
+
+      await expect(
+        taskService.updateTask(task.id, { title: 'Edited' }),
+      ).rejects.toThrow('disk full');
+
+      expect(await taskService.getTask(task.id)).toMatchObject({
+        title: 'Original',
+        version: 1,
+      });
+      expect(await db.all('SELECT * FROM sync_queue')).toHaveLength(1);
+    });
+  });
+
+  describe('bulk', () => {
+    it('should roll back every operation when one fails in atomic mode', async () => {
+      const existing = await taskService.createTask({ title: 'Existing' });
+
+      const result = await taskService.bulk([
+        { op: 'create', data: { title: 'New' } },
+        { op: 'update', id: existing.id, data: { completed: true } },
+        { op: 'delete', id: 'missing' },
+        { op: 'create', data: { title: 'Never' } },
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.results.map((r) => r.status)).toEqual([
+        'rolled_back',
+        'rolled_back',
+        'failed',
+        'skipped',
+      ]);
+      expect(result.results[2]).toMatchObject({ code: 'NOT_FOUND' });
+      expect((await taskService.getAllTasks()).map((t) => t.title)).toEqual([
+        'Existing',
+      ]);
+      expect(await taskService.getTask(existing.id)).toMatchObject({
+        completed: false,
+        version: 1,
+      });
+      expect(await db.all('SELECT * FROM sync_queue')).toHaveLength(1);
+      expect(await db.all('SELECT * FROM task_events')).toHaveLength(1);
+    });
+
+    it('should apply and queue the operations that succeed in best-effort mode', async () => {
+      const existing = await taskService.createTask({ title: 'Existing' });
+
+      const result = await taskService.bulk(
+        [
+          { op: 'create', data: { title: 'New' } },
+          {
+            op: 'update',
+            id: existing.id,
+            data: { title: 'Stale' },
+            version: 7,
+          },
+          { op: 'delete', id: existing.id },
+        ],
+        'best-effort',
+      );
+
+      expect(result.results.map((r) => r.status)).toEqual([
+        'success',
+        'failed',
+        'success',
+      ]);
+      expect(result.results[1]).toMatchObject({
+        code: 'PRECONDITION_FAILED',
+        task: { id: existing.id, version: 1 },
+      });
+      const created = result.results[0].task as Task;
+      expect(await taskService.getTask(created.id)).toMatchObject({
+        title: 'New',
+      });
+      expect(await taskService.getTask(existing.id)).toBeNull();
+      const queued = await db.all(
+        'SELECT task_id, operation FROM sync_queue ORDER BY rowid',
+      );
+      expect(queued).toEqual([
+        { task_id: existing.id, operation: 'create' },
+        { task_id: created.id, operation: 'create' },
+        { task_id: existing.id, operation: 'delete' },
+      ]);
+    });
+
+    it('should publish events only once the bulk request commits', async () => {
+      const published: string[] = [];
+      const commit = db.transaction.bind(db);
+      vi.spyOn(db, 'transaction').mockImplementation(async (fn) => {
+        const result = await commit(fn);
+        published.push('commit');
+        return result;
+      });
+      vi.spyOn(taskService, 'publishEvent').mockImplementation(async (type) => {
+        published.push(type);
+      });
+
+      await taskService.bulk([
+        { op: 'create', data: { title: 'One' } },
+        { op: 'create', data: { title: 'Two' } },
+      ]);
+
+      expect(published.slice(-3)).toEqual(['commit', 'created', 'created']);
+    });
+  });
+
+  describe('history', () => {
+    it('should record a revision for every local change', async () => {
+      const task = await taskService.createTask({ title: 'Draft' });
+      await taskService.updateTask(task.id, { description: 'Notes' });
+      await taskService.deleteTask(task.id);
+
+      const history = await taskService.getHistory(task.id);
+
+      expect(history?.total).toBe(3);
+      expect(
+        history?.items.map((r) => [r.version, r.source, r.task.is_deleted]),
+      ).toEqual([
+        [3, 'local', true],
+        [2, 'local', false],
+        [1, 'local', false],
+      ]);
+      expect(history?.items[1].task.description).toBe('Notes');
+    });
+
+    it('should restore a chosen revision as a new queued edit', async () => {
+      const task = await taskService.createTask({
+        title: 'Draft',
+        description: 'Important notes',
+      });
+      await taskService.updateTask(task.id, { description: 'Overwritten' });
+      const [, original] = (await taskService.getHistory(task.id))!.items;
+
+      const restored = await taskService.restoreRevision(task.id, original.id);
+
+      expect(restored).toMatchObject({
+        description: 'Important notes',
+        version: 3,
+        sync_status: 'pending',
+      });
+      const queued = await db.all(
+        'SELECT operation FROM sync_queue WHERE task_id = ? ORDER BY rowid',
+        [task.id],
+      );
+      expect(queued.map((q) => q.operation)).toEqual([
+        'create',
+        'update',
+        'update',
+      ]);
+      expect((await taskService.getHistory(task.id))?.total).toBe(3);
+    });
+
+    it('should undelete a task without a revision', async () => {
+      const task = await taskService.createTask({ title: 'Mistake' });
+      await taskService.deleteTask(task.id);
+
+      const restored = await taskService.restoreRevision(task.id);
+
+      expect(restored).toMatchObject({ is_deleted: false, version: 3 });
+      expect(await taskService.getTask(task.id)).toMatchObject({
+        title: 'Mistake',
+      });
+    });
+
+    it('should reject restoring an unknown revision or undeleting a live task', async () => {
+      const task = await taskService.createTask({ title: 'Live' });
+
+      await expect(
+        taskService.restoreRevision(task.id, 'missing'),
+      ).rejects.toMatchObject({ statusCode: 404 });
+      await expect(taskService.restoreRevision(task.id)).rejects.toBeInstanceOf(
+        RestoreError,
+      );
+      expect(await taskService.restoreRevision('missing')).toBeNull();
+      expect(await taskService.getHistory('missing')).toBeNull();
+    });
+  });
+
+  describe('import and export', () => {
+    it('should create imported tasks once per external id and queue them', async () => {
+      const rows = [
+        { row: 1, external_id: 'ext-1', data: { title: 'Imported' } },
+        { row: 2, external_id: 'ext-1', data: { title: 'Repeated' } },
+      ];
+
+      const first = await taskService.importTasks(rows);
+      const second = await taskService.importTasks(rows.slice(0, 1));
+
+      expect(first.map((r) => r.status)).toEqual(['created', 'duplicate']);
+      expect(second).toEqual([
+        { row: 1, external_id: 'ext-1', status: 'duplicate', id: first[0].id },
+      ]);
+      expect(await taskService.getTask(first[0].id!)).toMatchObject({
+        title: 'Imported',
+        external_id: 'ext-1',
+      });
+      expect(await db.all('SELECT * FROM sync_queue')).toHaveLength(1);
+    });
+
+    it('should treat an exported task id as already imported', async () => {
+      const task = await taskService.createTask({ title: 'Mine' });
+
+      const [result] = await taskService.importTasks([
+        { row: 1, external_id: task.id, data: { title: 'Mine' } },
+      ]);
+
+      expect(result).toMatchObject({ status: 'duplicate', id: task.id });
+    });
+
+    it('should export tasks in creation order, across pages', async () => {
+      const titles = ['a', 'b', 'c', 'deleted'];
+      for (const [day, title] of titles.entries()) {
+        const task = await taskService.createTask({ title });
+        await db.run('UPDATE tasks SET created_at = ? WHERE id = ?', [
+          new Date(Date.UTC(2024, 0, day + 1)).toISOString(),
+          task.id,
+        ]);
+        if (title === 'deleted') {
+          await taskService.deleteTask(task.id);
+        }
+      }
+
+      const exported: string[] = [];
+      for await (const task of taskService.exportTasks()) {
+        exported.push(task.title);
+      }
+      const all: string[] = [];
+      for await (const task of new TaskRepository(db).iterate({
+        includeDeleted: true,
+        pageSize: 2,
+      })) {
+        all.push(task.title);
+      }
+
+      expect(exported).toEqual(['a', 'b', 'c']);
+      expect(all).toEqual(titles);
+    });
+  });
+
+  describe('due dates, priorities, tags and subtasks', () => {
+    it('should store the fields and let updates replace or clear them', async () => {
+      const task = await taskService.createTask({
+        title: 'Plan trip',
+        due_at: new Date('2024-03-01T09:00:00Z'),
+        priority: 'high',
+        tags: ['Travel', ' family ', 'travel'],
+      });
+
+      expect(task.tags).toEqual(['family', 'travel']);
+      expect(await taskService.getTask(task.id)).toMatchObject({
+        due_at: new Date('2024-03-01T09:00:00Z'),
+        priority: 'high',
+        tags: ['family', 'travel'],
+      });
+
+      await taskService.updateTask(task.id, {
+        due_at: null,
+        tags: ['holiday'],
+      } as unknown as Partial<Task>);
+
+      const updated = await taskService.getTask(task.id);
+      expect(updated?.due_at).toBeUndefined();
+      expect(updated?.priority).toBe('high');
+      expect(updated?.tags).toEqual(['holiday']);
+      const [, item] = await new SyncQueueRepository(db).findByTask(task.id);
+      expect(item.data.tags).toEqual(['holiday']);
+      expect(item.base_data).toMatchObject({
+        tags: ['family', 'travel'],
+        priority: 'high',
+      });
+    });
+
+    it("should reject a missing parent or one of the task's own subtasks", async () => {
+      const parent = await taskService.createTask({ title: 'Parent' });
+      const child = await taskService.createTask({
+        title: 'Child',
+        parent_task_id: parent.id,
+      });
+
+      await expect(
+        taskService.createTask({ title: 'Orphan', parent_task_id: 'missing' }),
+      ).rejects.toBeInstanceOf(ValidationError);
+      await expect(
+        taskService.updateTask(parent.id, { parent_task_id: child.id }),
+      ).rejects.toThrow(ValidationError);
+      expect(await db.all('SELECT * FROM tasks')).toHaveLength(2);
+    });
+
+    it('should delete subtasks with their parent, queueing a delete for each', async () => {
+      const parent = await taskService.createTask({ title: 'Parent' });
+      const child = await taskService.createTask({
+        title: 'Child',
+        parent_task_id: parent.id,
+      });
+      const grandchild = await taskService.createTask({
+        title: 'Grandchild',
+        parent_task_id: child.id,
+      });
+      const other = await taskService.createTask({ title: 'Other' });
+
+      expect(await taskService.deleteTask(parent.id)).toBe(true);
+
+      expect((await taskService.getAllTasks()).map((t) => t.id)).toEqual([
+        other.id,
+      ]);
+      const deletes = await db.all(
+        "SELECT task_id FROM sync_queue WHERE operation = 'delete' ORDER BY rowid",
+      );
+      expect(deletes.map((row) => row.task_id)).toEqual([
+        parent.id,
+        child.id,
+        grandchild.id,
+      ]);
+    });
+  });
+
+  describe('recurring tasks', () => {
+    async function createSeries(): Promise<Task> {
+      return taskService.createTask({
+        title: 'Pay rent',
+        due_at: new Date('2025-01-31T09:00:00Z'),
+        recurrence: 'FREQ=MONTHLY;BYMONTHDAY=31',
+      });
+    }
+
+    it('should create the next occurrence once when an occurrence is completed', async () => {
+      const first = await createSeries();
+      expect(first).toMatchObject({
+        series_id: first.id,
+        occurrence_at: new Date('2025-01-31T09:00:00Z'),
+      });
+
+      await taskService.updateTask(first.id, { completed: true });
+      await taskService.updateTask(first.id, { completed: false });
+      await taskService.updateTask(first.id, { completed: true });
+
+      const tasks = await taskService.getAllTasks();
+      expect(tasks).toHaveLength(2);
+      const next = tasks.find((t) => t.id !== first.id)!;
+      expect(next).toMatchObject({
+        id: occurrenceId(first.id, new Date('2025-03-31T09:00:00Z')),
+        title: 'Pay rent',
+        completed: false,
+        due_at: new Date('2025-03-31T09:00:00Z'),
+        series_id: first.id,
+        recurrence: 'FREQ=MONTHLY;BYMONTHDAY=31',
+      });
+      const creates = await db.all(
+        "SELECT task_id FROM sync_queue WHERE operation = 'create'",
+      );
+      expect(creates.map((row) => row.task_id)).toEqual([first.id, next.id]);
+    });
+
+    it('should require a due date and a valid rule', async () => {
+      await expect(
+        taskService.createTask({ title: 'Someday', recurrence: 'FREQ=DAILY' }),
+      ).rejects.toBeInstanceOf(ValidationError);
+      await expect(
+        taskService.createTask({
+          title: 'Hourly',
+          due_at: new Date(),
+          recurrence: 'FREQ=HOURLY',
+        }),
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should change only this occurrence or the whole series, by scope', async () => {
+      const first = await createSeries();
+      await taskService.updateTask(first.id, { completed: true });
+      const second = (await taskService.getAllTasks()).find(
+        (t) => t.id !== first.id,
+      )!;
+
+      await taskService.updateTask(first.id, { title: 'Pay rent (late)' });
+      expect((await taskService.getTask(second.id))?.title).toBe('Pay rent');
+      await expect(
+        taskService.updateTask(first.id, { recurrence: 'FREQ=WEEKLY' }),
+      ).rejects.toThrow(ValidationError);
+
+      await taskService.updateTask(
+        first.id,
+        { title: 'Pay landlord', recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1' },
+        undefined,
+        'future',
+      );
+      expect(await taskService.getTask(second.id)).toMatchObject({
+        title: 'Pay landlord',
+        recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1',
+        series_template: { title: 'Pay landlord' },
+      });
+
+      await taskService.updateTask(second.id, { completed: true });
+      const third = (await taskService.getAllTasks()).find(
+        (t) => t.id !== first.id && t.id !== second.id,
+      );
+      expect(third).toMatchObject({
+        title: 'Pay landlord',
+        due_at: new Date('2025-04-01T09:00:00Z'),
+      });
+    });
   });
 
   describe('getAllTasks', () => {
@@ -121,4 +589,160 @@ describe('TaskService', () => {
       expect(needingSync[0].id).toBe(task1.id);
     });
   });
-});
\ No newline at end of file
+
+  describe('listTasks', () => {
+    async function seed() {
+      const tasks = [];
+      for (const title of ['banana bread', 'Apple pie', 'cherry tart']) {
+        tasks.push(await taskService.createTask({ title }));
+      }
+      return tasks;
+    }
+
+    it('should filter by completion and sync status', async () => {
+      const [first, second] = await seed();
+      await taskService.updateTask(first.id, { completed: true });
+      await db.run('UPDATE tasks SET sync_status = ? WHERE id = ?', ['synced', second.id]);
+
+      const completed = await taskService.listTasks({ completed: true });
+      expect(completed.items.map((t) => t.id)).toEqual([first.id]);
+
+      const synced = await taskService.listTasks({ sync_status: 'synced' });
+      expect(synced.items.map((t) => t.id)).toEqual([second.id]);
+    });
+
+    it('should filter by updated_at range', async () => {
+      const [first, second, third] = await seed();
+      await db.run('UPDATE tasks SET updated_at = ? WHERE id = ?', ['2024-01-01T00:00:00.000Z', first.id]);
+      await db.run('UPDATE tasks SET updated_at = ? WHERE id = ?', ['2024-01-05T00:00:00.000Z', second.id]);
+      await db.run('UPDATE tasks SET updated_at = ? WHERE id = ?', ['2024-01-10T00:00:00.000Z', third.id]);
+
+      const page = await taskService.listTasks({
+        updated_after: new Date('2024-01-02T00:00:00Z'),
+        updated_before: new Date('2024-01-08T00:00:00Z'),
+      });
+
+      expect(page.items.map((t) => t.id)).toEqual([second.id]);
+    });
+
+    it('should filter by due date, priority, tag and parent', async () => {
+      const [first, second, third] = await seed();
+      await taskService.updateTask(first.id, {
+        due_at: new Date('2024-01-05T00:00:00Z'),
+        priority: 'high',
+        tags: ['baking'],
+      });
+      await taskService.updateTask(second.id, {
+        due_at: new Date('2024-02-05T00:00:00Z'),
+        priority: 'low',
+        tags: ['baking', 'dessert'],
+        parent_task_id: first.id,
+      });
+
+      const ids = async (query: object) =>
+        (await taskService.listTasks(query)).items.map((t) => t.id);
+      expect(
+        await ids({
+          due_after: new Date('2024-01-01T00:00:00Z'),
+          due_before: new Date('2024-02-01T00:00:00Z'),
+        }),
+      ).toEqual([first.id]);
+      expect(await ids({ priority: 'low' })).toEqual([second.id]);
+      expect(await ids({ tag: 'Baking' })).toEqual([first.id, second.id]);
+      expect(await ids({ parent_task_id: first.id })).toEqual([second.id]);
+      expect(await ids({ tag: 'dessert', priority: 'high' })).toEqual([]);
+      expect(third).toBeDefined();
+    });
+
+    it('should search titles and descriptions', async () => {
+      await seed();
+      await taskService.createTask({ title: 'Groceries', description: 'Buy apples and flour' });
+
+      const page = await taskService.listTasks({ search: 'appl' });
+
+      expect(page.items.map((t) => t.title).sort()).toEqual(['Apple pie', 'Groceries']);
+      expect(page.total).toBe(2);
+    });
+
+    it('should keep the search index in sync with edits and ignore query syntax', async () => {
+      const [first] = await seed();
+      await taskService.updateTask(first.id, { title: 'sourdough' });
+
+      expect((await taskService.listTasks({ search: 'banana' })).total).toBe(0);
+      expect((await taskService.listTasks({ search: 'sourdough' })).total).toBe(1);
+      expect((await taskService.listTasks({ search: 'pie" OR "tart' })).total).toBe(0);
+    });
+
+    it('should sort by title case-insensitively', async () => {
+      await seed();
+
+      const asc = await taskService.listTasks({ sort: 'title' });
+      const desc = await taskService.listTasks({ sort: 'title', order: 'desc' });
+
+      expect(asc.items.map((t) => t.title)).toEqual(['Apple pie', 'banana bread', 'cherry tart']);
+      expect(desc.items.map((t) => t.title)).toEqual(['cherry tart', 'banana bread', 'Apple pie']);
+    });
+
+    it('should paginate with a cursor and report the total', async () => {
+      await seed();
+      const seen: string[] = [];
+
+      let page = await taskService.listTasks({ sort: 'title', limit: 2 });
+      expect(page.total).toBe(3);
+      seen.push(...page.items.map((t) => t.title));
+      expect(page.next_cursor).not.toBeNull();
+
+      page = await taskService.listTasks({ sort: 'title', limit: 2, cursor: page.next_cursor! });
+      seen.push(...page.items.map((t) => t.title));
+      expect(page.next_cursor).toBeNull();
+
+      expect(seen).toEqual(['Apple pie', 'banana bread', 'cherry tart']);
+    });
+
+    it('should reject a cursor from a different sort order', async () => {
+      await seed();
+      const page = await taskService.listTasks({ sort: 'title', limit: 1 });
+
+      await expect(
+        taskService.listTasks({ sort: 'updated_at', cursor: page.next_cursor! }),
+      ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+  });
+
+  describe('ownership', () => {
+    let alice: TaskService;
+    let bob: TaskService;
+
+    beforeEach(() => {
+      alice = new TaskService(db, 'alice');
+      bob = new TaskService(db, 'bob');
+    });
+
+    it("should only list the user's own tasks", async () => {
+      await alice.createTask({ title: 'Alice task' });
+      await bob.createTask({ title: 'Bob task' });
+
+      const page = await alice.listTasks();
+      expect(page.items.map((t) => t.title)).toEqual(['Alice task']);
+      expect(page.total).toBe(1);
+      expect((await bob.getAllTasks()).map((t) => t.title)).toEqual(['Bob task']);
+    });
+
+    it("should treat another user's task as missing", async () => {
+      const task = await alice.createTask({ title: 'Private' });
+
+      expect(await bob.getTask(task.id)).toBeNull();
+      expect(await bob.updateTask(task.id, { title: 'Hijacked' })).toBeNull();
+      expect(await bob.deleteTask(task.id)).toBe(false);
+      expect((await alice.getTask(task.id))?.title).toBe('Private');
+    });
+
+    it('should queue changes under the task owner', async () => {
+      const task = await alice.createTask({ title: 'Private' });
+      await alice.updateTask(task.id, { completed: true });
+
+      const rows = await db.all('SELECT user_id FROM sync_queue');
+      expect(rows.map((r) => r.user_id)).toEqual(['alice', 'alice']);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import {
+  ValidationError,
+  validateBody,
+  validateQuery,
+} from '../src/utils/validation';
+import {
+  createTaskSchema,
+  updateTaskSchema,
+  validateBulkRequest,
+  BULK_MAX_OPERATIONS,
+} from '../src/routes/tasks';
+import { validateRequestBody } from '../src/middleware/validate';
+import { errorHandler } from '../src/middleware/errorHandler';
+
+function validationDetails(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).details;
+  }
+  throw new Error('Expected a ValidationError');
+}
+
+describe('validation', () => {
+  describe('task create schema', () => {
+    it('should accept a valid payload and trim strings', () => {
+      const value = validateBody(createTaskSchema, {
+        title: '  Buy milk ',
+        description: 'Semi-skimmed',
+        completed: false,
+      });
+
+      expect(value).toEqual({
+        title: 'Buy milk',
+        description: 'Semi-skimmed',
+        completed: false,
+      });
+    });
+
+    it('should require a non-empty title', () => {
+      expect(
+        validationDetails(() => validateBody(createTaskSchema, {})),
+      ).toEqual([
+        { field: 'title', code: 'required', message: 'title is required' },
+      ]);
+      expect(
+        validationDetails(() =>
+          validateBody(createTaskSchema, { title: '  ' }),
+        ),
+      ).toMatchObject([{ field: 'title', code: 'required' }]);
+    });
+
+    it('should enforce length limits', () => {
+      const details = validationDetails(() =>
+        validateBody(createTaskSchema, {
+          title: 'x'.repeat(201),
+          description: 'x'.repeat(2001),
+        }),
+      );
+
+      expect(details.map((d) => [d.field, d.code])).toEqual([
+        ['title', 'too_long'],
+        ['description', 'too_long'],
+      ]);
+    });
+
+    it('should reject a non-boolean completed flag', () => {
+      expect(
+        validationDetails(() =>
+          validateBody(createTaskSchema, { title: 'Task', completed: 'yes' }),
+        ),
+      ).toMatchObject([{ field: 'completed', code: 'invalid_type' }]);
+    });
+
+    it('should validate due date, priority and each tag', () => {
+      expect(
+        validateBody(createTaskSchema, {
+          title: 'Task',
+          due_at: '2024-02-01T09:00:00Z',
+          priority: 'high',
+          tags: [' home '],
+        }),
+      ).toEqual({
+        title: 'Task',
+        due_at: new Date('2024-02-01T09:00:00Z'),
+        priority: 'high',
+        tags: ['home'],
+      });
+
+      const details = validationDetails(() =>
+        validateBody(createTaskSchema, {
+          title: 'Task',
+          due_at: 'tomorrow',
+          priority: 'urgent',
+          tags: ['home', 'a,b'],
+        }),
+      );
+      expect(details.map((d) => [d.field, d.code])).toEqual([
+        ['due_at', 'invalid_type'],
+        ['priority', 'invalid_value'],
+        ['tags[1]', 'invalid_value'],
+      ]);
+      expect(
+        validationDetails(() =>
+          validateBody(createTaskSchema, { title: 'Task', tags: 'home' }),
+        ),
+      ).toMatchObject([{ field: 'tags', code: 'invalid_type' }]);
+    });
+
+    it('should reject server-owned and unknown fields', () => {
+      const details = validationDetails(() =>
+        validateBody(createTaskSchema, {
+          title: 'Task',
+          sync_status: 'synced',
+          server_id: 'srv_1',
+          is_deleted: true,
+          colour: 'red',
+        }),
+      );
+
+      expect(details.map((d) => [d.field, d.code])).toEqual([
+        ['sync_status', 'read_only'],
+        ['server_id', 'read_only'],
+        ['is_deleted', 'read_only'],
+        ['colour', 'unknown_field'],
+      ]);
+    });
+
+    it('should reject a body that is not an object', () => {
+      expect(
+        validationDetails(() => validateBody(createTaskSchema, ['Task'])),
+      ).toMatchObject([{ field: 'body', code: 'invalid_type' }]);
+    });
+  });
+
+  describe('task update schema', () => {
+    it('should allow partial updates and clearing the description', () => {
+      expect(
+        validateBody(updateTaskSchema, { description: null, completed: true }),
+      ).toEqual({ description: null, completed: true });
+    });
+
+    it('should reject an empty title', () => {
+      expect(
+        validationDetails(() => validateBody(updateTaskSchema, { title: '' })),
+      ).toMatchObject([{ field: 'title', code: 'too_short' }]);
+    });
+  });
+
+  describe('bulk request', () => {
+    it('should default to atomic mode', () => {
+      expect(
+        validateBulkRequest({
+          operations: [
+            { op: 'create', data: { title: 'New' } },
+            { op: 'update', id: 'a', data: { completed: true }, version: 2 },
+            { op: 'delete', id: 'b' },
+          ],
+        }),
+      ).toEqual({
+        mode: 'atomic',
+        operations: [
+          { op: 'create', data: { title: 'New' } },
+          { op: 'update', id: 'a', data: { completed: true }, version: 2 },
+          { op: 'delete', id: 'b', version: undefined },
+        ],
+      });
+    });
+
+    it('should report every invalid operation by position', () => {
+      expect(
+        validationDetails(() =>
+          validateBulkRequest({
+            mode: 'best-effort',
+            operations: [
+              { op: 'create', data: { title: '' } },
+              { op: 'update', data: { completed: true } },
+              { op: 'rename', id: 'a' },
+              { op: 'delete', id: 'b', data: {} },
+            ],
+          }),
+        ),
+      ).toMatchObject([
+        { field: 'operations[0].data.title', code: 'required' },
+        { field: 'operations[1].id', code: 'required' },
+        { field: 'operations[2].op', code: 'invalid_value' },
+        { field: 'operations[3].data', code: 'unknown_field' },
+      ]);
+    });
+
+    it('should reject a missing, empty or oversized operation list', () => {
+      for (const operations of [
+        undefined,
+        [],
+        Array(BULK_MAX_OPERATIONS + 1).fill({ op: 'delete', id: 'a' }),
+      ]) {
+        expect(
+          validationDetails(() => validateBulkRequest({ operations })),
+        ).toMatchObject([{ field: 'operations' }]);
+      }
+    });
+  });
+
+  describe('validateQuery', () => {
+    const fields = {
+      since: { type: 'date' as const },
+      limit: { type: 'integer' as const, min: 0, max: 200 },
+      operation: { type: 'string' as const, enum: ['create', 'update'] },
+    };
+
+    it('should convert query strings to typed values', () => {
+      expect(
+        validateQuery(fields, {
+          since: '2024-01-10T10:00:00Z',
+          limit: '20',
+          extra: 'ignored',
+        }),
+      ).toEqual({ since: new Date('2024-01-10T10:00:00Z'), limit: 20 });
+    });
+
+    it('should report every invalid parameter', () => {
+      const details = validationDetails(() =>
+        validateQuery(fields, {
+          since: 'yesterday',
+          limit: '500',
+          operation: 'merge',
+        }),
+      );
+
+      expect(details.map((d) => [d.field, d.code])).toEqual([
+        ['since', 'invalid_type'],
+        ['limit', 'out_of_range'],
+        ['operation', 'invalid_value'],
+      ]);
+    });
+  });
+
+  describe('error responses', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    function mockResponse() {
+      const res = { status: vi.fn(), json: vi.fn() };
+      res.status.mockReturnValue(res);
+      return res;
+    }
+
+    it('should format validation failures with field details', () => {
+      const req = { body: { title: '' }, path: '/api/tasks' } as Request;
+      const res = mockResponse();
+      const next = vi.fn();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      validateRequestBody(createTaskSchema)(req, res as never, next);
+      errorHandler(
+        next.mock.calls[0][0],
+        req,
+        res as unknown as Response,
+        next,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          error: 'Request validation failed',
+          code: 'VALIDATION_ERROR',
+          details: [
+            {
+              field: 'title',
+              code: 'required',
+              message: 'title must not be empty',
+            },
+          ],
+          path: '/api/tasks',
+        }),
+      );
+    });
+
+    it('should report unexpected errors as internal errors', () => {
+      const req = { path: '/api/tasks' } as Request;
+      const res = mockResponse();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      errorHandler(new Error('boom'), req, res as unknown as Response, vi.fn());
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'INTERNAL_ERROR' }),
+      );
+    });
+  });
+});